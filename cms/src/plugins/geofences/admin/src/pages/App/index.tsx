@@ -4,12 +4,14 @@ import { AnErrorOccurred } from '@strapi/helper-plugin';
 import pluginId from '../../pluginId';
 
 const HomePage = React.lazy(() => import('../HomePage'));
+const WebhookDeliveries = React.lazy(() => import('../WebhookDeliveries'));
 
 const App = () => {
   return (
     <div>
       <Routes>
         <Route path={`/plugins/${pluginId}`} element={<HomePage />} />
+        <Route path={`/plugins/${pluginId}/webhook-deliveries`} element={<WebhookDeliveries />} />
         <Route path="" element={<AnErrorOccurred />} />
       </Routes>
     </div>
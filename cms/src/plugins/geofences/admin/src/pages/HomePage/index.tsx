@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   Layout,
   BaseHeaderLayout,
@@ -6,12 +6,59 @@ import {
   Box,
   Typography,
   Button,
+  Badge,
   EmptyStateLayout,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Loader,
 } from '@strapi/design-system';
-import { Plus } from '@strapi/icons';
+import { ArrowClockwise, Plus } from '@strapi/icons';
+import { useFetchClient, useNotification } from '@strapi/helper-plugin';
 import { Helmet } from 'react-helmet';
+import { Link } from 'react-router-dom';
+import pluginId from '../../pluginId';
+
+interface GeofenceSchedule {
+  id: number;
+  name: string;
+  tenant: string;
+  is_active: boolean;
+  schedule_summary: string;
+  live: boolean;
+}
 
 const HomePage = () => {
+  const { get } = useFetchClient();
+  const toggleNotification = useNotification();
+  const [geofences, setGeofences] = useState<GeofenceSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasError, setHasError] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data } = await get(`/${pluginId}/geofences/schedules`);
+      setGeofences(data.data);
+      setHasError(false);
+    } catch {
+      setHasError(true);
+      toggleNotification({
+        type: 'warning',
+        message: { id: `${pluginId}.geofences.load_failed`, defaultMessage: 'Could not load geofences' },
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [get, toggleNotification]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
   return (
     <Layout>
       <Helmet title="Geofences" />
@@ -24,22 +71,70 @@ const HomePage = () => {
             Create Geofence
           </Button>
         }
+        secondaryAction={
+          <Button as={Link} to={`/plugins/${pluginId}/webhook-deliveries`} variant="tertiary">
+            Webhook deliveries
+          </Button>
+        }
       />
       <ContentLayout>
-        <Box padding={8}>
-          <EmptyStateLayout
-            icon={<div>🌍</div>}
-            content="No geofences created yet. Create your first geofence to start managing location-based notifications."
-            action={
-              <Button variant="secondary" startIcon={<Plus />}>
-                Create your first geofence
-              </Button>
-            }
-          />
-        </Box>
+        {isLoading && geofences.length === 0 ? (
+          <Box padding={8}>
+            <Loader>Loading geofences</Loader>
+          </Box>
+        ) : hasError ? (
+          <Box padding={8}>
+            <EmptyStateLayout
+              icon={<div>⚠️</div>}
+              content="Geofences could not be loaded."
+              action={
+                <Button variant="secondary" startIcon={<ArrowClockwise />} onClick={load} loading={isLoading}>
+                  Try again
+                </Button>
+              }
+            />
+          </Box>
+        ) : geofences.length === 0 ? (
+          <Box padding={8}>
+            <EmptyStateLayout
+              icon={<div>🌍</div>}
+              content="No geofences created yet. Create your first geofence to start managing location-based notifications."
+              action={
+                <Button variant="secondary" startIcon={<Plus />}>
+                  Create your first geofence
+                </Button>
+              }
+            />
+          </Box>
+        ) : (
+          <Table colCount={4} rowCount={geofences.length}>
+            <Thead>
+              <Tr>
+                <Th><Typography variant="sigma">Name</Typography></Th>
+                <Th><Typography variant="sigma">Tenant</Typography></Th>
+                <Th><Typography variant="sigma">Schedule</Typography></Th>
+                <Th><Typography variant="sigma">Status</Typography></Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {geofences.map((geofence) => (
+                <Tr key={geofence.id}>
+                  <Td><Typography>{geofence.name}</Typography></Td>
+                  <Td><Typography textColor="neutral600">{geofence.tenant}</Typography></Td>
+                  <Td><Typography>{geofence.schedule_summary}</Typography></Td>
+                  <Td>
+                    <Badge active={geofence.live}>
+                      {!geofence.is_active ? 'Inactive' : geofence.live ? 'Live' : 'Outside schedule'}
+                    </Badge>
+                  </Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        )}
       </ContentLayout>
     </Layout>
   );
 };
 
-export default HomePage;
\ No newline at end of file
+export default HomePage;
@@ -0,0 +1,140 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Layout,
+  BaseHeaderLayout,
+  ContentLayout,
+  Box,
+  Typography,
+  Button,
+  Badge,
+  EmptyStateLayout,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@strapi/design-system';
+import { ArrowClockwise } from '@strapi/icons';
+import { useFetchClient, useNotification } from '@strapi/helper-plugin';
+import { Helmet } from 'react-helmet';
+import pluginId from '../../pluginId';
+
+interface WebhookDelivery {
+  id: number;
+  event_id: string;
+  url: string;
+  attempt: number;
+  redelivery: boolean;
+  success: boolean;
+  status_code: number | null;
+  latency_ms: number;
+  error: string | null;
+  attempted_at: string;
+  notification_template?: { name: string } | null;
+}
+
+const WebhookDeliveries = () => {
+  const { get, post } = useFetchClient();
+  const toggleNotification = useNotification();
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [redelivering, setRedelivering] = useState<number | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data } = await get(`/${pluginId}/webhook-deliveries`);
+      setDeliveries(data.data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [get]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const redeliver = async (delivery: WebhookDelivery) => {
+    setRedelivering(delivery.id);
+    try {
+      await post(`/${pluginId}/webhook-deliveries/${delivery.id}/redeliver`);
+      toggleNotification({
+        type: 'success',
+        message: { id: `${pluginId}.webhook.redelivery_queued`, defaultMessage: 'Redelivery queued' },
+      });
+    } catch {
+      toggleNotification({
+        type: 'warning',
+        message: { id: `${pluginId}.webhook.redelivery_failed`, defaultMessage: 'Could not queue redelivery' },
+      });
+    } finally {
+      setRedelivering(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <Helmet title="Webhook Deliveries" />
+      <BaseHeaderLayout
+        title="Webhook Deliveries"
+        subtitle="Signed webhook requests sent for notification templates"
+        as="h1"
+        primaryAction={
+          <Button variant="secondary" startIcon={<ArrowClockwise />} onClick={load} loading={isLoading}>
+            Refresh
+          </Button>
+        }
+      />
+      <ContentLayout>
+        {deliveries.length === 0 ? (
+          <Box padding={8}>
+            <EmptyStateLayout content="No webhook deliveries yet." />
+          </Box>
+        ) : (
+          <Table colCount={7} rowCount={deliveries.length}>
+            <Thead>
+              <Tr>
+                <Th><Typography variant="sigma">Attempted</Typography></Th>
+                <Th><Typography variant="sigma">Template</Typography></Th>
+                <Th><Typography variant="sigma">Event</Typography></Th>
+                <Th><Typography variant="sigma">Attempt</Typography></Th>
+                <Th><Typography variant="sigma">Status</Typography></Th>
+                <Th><Typography variant="sigma">Latency</Typography></Th>
+                <Th><Typography variant="sigma">Actions</Typography></Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {deliveries.map((delivery) => (
+                <Tr key={delivery.id}>
+                  <Td><Typography>{new Date(delivery.attempted_at).toLocaleString()}</Typography></Td>
+                  <Td><Typography>{delivery.notification_template?.name ?? '—'}</Typography></Td>
+                  <Td><Typography textColor="neutral600">{delivery.event_id}</Typography></Td>
+                  <Td><Typography>{delivery.redelivery ? `${delivery.attempt} (redelivery)` : delivery.attempt}</Typography></Td>
+                  <Td>
+                    <Badge active={delivery.success}>
+                      {delivery.status_code ?? delivery.error ?? 'error'}
+                    </Badge>
+                  </Td>
+                  <Td><Typography>{delivery.latency_ms} ms</Typography></Td>
+                  <Td>
+                    <Button
+                      variant="tertiary"
+                      size="S"
+                      loading={redelivering === delivery.id}
+                      onClick={() => redeliver(delivery)}
+                    >
+                      Redeliver
+                    </Button>
+                  </Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        )}
+      </ContentLayout>
+    </Layout>
+  );
+};
+
+export default WebhookDeliveries;
@@ -0,0 +1,101 @@
+import { isValidTimezone } from '../../../../../server/src/notification-templates.js';
+import { isValidLocale } from '../../../../../server/src/notification-locales.js';
+import { MAX_LOCATION_ACCURACY_METERS, MIN_ENTER_PROBABILITY } from '../../../../../server/src/location-accuracy.js';
+
+export default {
+  default: {
+    // Run a notification queue worker for this plugin's push, webhook, email and SMS jobs
+    notificationWorkerEnabled: true,
+    // Locations less accurate than maxAccuracyMeters are not evaluated; entering a circle needs
+    // minEnterProbability of being inside given the accuracy (server/src/location-accuracy.ts)
+    accuracy: {
+      maxAccuracyMeters: MAX_LOCATION_ACCURACY_METERS,
+      minEnterProbability: MIN_ENTER_PROBABILITY,
+    },
+    // Time zone for `{{local_time}}` and the `date` filter in notification templates
+    templates: {
+      timezone: 'UTC',
+      // Locale variant used when the recipient's device language has none; per tenant, then the default
+      defaultLocale: 'en',
+      tenantLocales: {},
+    },
+    // SMTP transport for `email` notification templates; the defaults suit a local sink such as Mailpit
+    email: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: Number(process.env.SMTP_PORT) || 1025,
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || undefined,
+      pass: process.env.SMTP_PASS || undefined,
+      from: process.env.SMTP_FROM || 'Geofences <no-reply@localhost>',
+      // Where a hit's user_id is looked up to find the recipient address
+      recipients: {
+        contentType: 'plugin::users-permissions.user',
+        userIdField: 'username',
+        emailField: 'email',
+      },
+    },
+    // SMS for `sms` notification templates; the provider comes from SMS_PROVIDER (server/src/sms-providers.ts)
+    sms: {
+      // Sender id per tenant (phone number or alphanumeric id), falling back to defaultSenderId
+      defaultSenderId: process.env.SMS_SENDER_ID || 'Geofences',
+      senderIds: {},
+      // Rendered messages longer than this are truncated; templates longer than this are rejected
+      maxSegments: 3,
+      // Shared secret the gateway sends as X-SMS-Inbound-Token to POST /sms/inbound
+      inboundToken: process.env.SMS_INBOUND_TOKEN || undefined,
+      // Where a hit's user_id is looked up to find the recipient phone number
+      recipients: {
+        contentType: 'plugin::users-permissions.user',
+        userIdField: 'username',
+        phoneField: 'phone_number',
+      },
+    },
+  },
+  validator(config) {
+    if (config.notificationWorkerEnabled !== undefined && typeof config.notificationWorkerEnabled !== 'boolean') {
+      throw new Error('notificationWorkerEnabled must be a boolean');
+    }
+    const accuracy = config.accuracy ?? {};
+    if (accuracy.maxAccuracyMeters !== undefined && !(typeof accuracy.maxAccuracyMeters === 'number' && accuracy.maxAccuracyMeters > 0)) {
+      throw new Error('accuracy.maxAccuracyMeters must be a positive number');
+    }
+    if (accuracy.minEnterProbability !== undefined && !(typeof accuracy.minEnterProbability === 'number' && accuracy.minEnterProbability >= 0 && accuracy.minEnterProbability <= 1)) {
+      throw new Error('accuracy.minEnterProbability must be between 0 and 1');
+    }
+    if (config.templates?.timezone !== undefined && !(typeof config.templates.timezone === 'string' && isValidTimezone(config.templates.timezone))) {
+      throw new Error('templates.timezone must be an IANA time zone such as Europe/Berlin');
+    }
+    if (config.templates?.defaultLocale !== undefined && !(typeof config.templates.defaultLocale === 'string' && isValidLocale(config.templates.defaultLocale))) {
+      throw new Error('templates.defaultLocale must be a locale code such as en or pt-BR');
+    }
+    const tenantLocales = config.templates?.tenantLocales;
+    if (tenantLocales !== undefined && (typeof tenantLocales !== 'object' || Object.values(tenantLocales).some(locale => typeof locale !== 'string' || !isValidLocale(locale)))) {
+      throw new Error('templates.tenantLocales must map tenants to locale codes');
+    }
+    const email = config.email ?? {};
+    if (email.port !== undefined && !(Number.isInteger(email.port) && email.port > 0 && email.port < 65536)) {
+      throw new Error('email.port must be a valid port number');
+    }
+    if (email.from !== undefined && (typeof email.from !== 'string' || !email.from.includes('@'))) {
+      throw new Error('email.from must be an email address');
+    }
+    const recipients = email.recipients ?? {};
+    for (const key of ['contentType', 'userIdField', 'emailField']) {
+      if (recipients[key] !== undefined && (typeof recipients[key] !== 'string' || recipients[key].length === 0)) {
+        throw new Error(`email.recipients.${key} must be a non-empty string`);
+      }
+    }
+    const sms = config.sms ?? {};
+    if (sms.maxSegments !== undefined && !(Number.isInteger(sms.maxSegments) && sms.maxSegments > 0 && sms.maxSegments <= 10)) {
+      throw new Error('sms.maxSegments must be an integer between 1 and 10');
+    }
+    if (sms.senderIds !== undefined && (typeof sms.senderIds !== 'object' || Object.values(sms.senderIds).some(id => typeof id !== 'string'))) {
+      throw new Error('sms.senderIds must map tenants to sender id strings');
+    }
+    for (const key of ['contentType', 'userIdField', 'phoneField']) {
+      if (sms.recipients?.[key] !== undefined && (typeof sms.recipients[key] !== 'string' || sms.recipients[key].length === 0)) {
+        throw new Error(`sms.recipients.${key} must be a non-empty string`);
+      }
+    }
+  },
+};
@@ -1,9 +1,13 @@
 import geofence from './geofence/schema.json';
 import notificationTemplate from './notification-template/schema.json';
 import geofenceHit from './geofence-hit/schema.json';
+import webhookDelivery from './webhook-delivery/schema.json';
+import smsOptOut from './sms-opt-out/schema.json';
 
 export default {
   geofence,
   'notification-template': notificationTemplate,
   'geofence-hit': geofenceHit,
+  'webhook-delivery': webhookDelivery,
+  'sms-opt-out': smsOptOut,
 };
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Strapi } from '@strapi/strapi';
+import { describeGeofenceSchedule, isGeofenceScheduled } from '../../../../../../server/src/geofence-schedules.js';
 
 export default ({ strapi }: { strapi: Strapi }) => ({
   async find(ctx) {
@@ -14,6 +15,31 @@ export default ({ strapi }: { strapi: Strapi }) => ({
     }
   },
 
+  // Admin panel list (the route policy checks the admin session): geofences with their schedule and whether they are live now
+  async schedules(ctx) {
+    try {
+      const service = strapi.plugin('geofences').service('geofence');
+      const geofences = await service.find({ sort: { name: 'asc' } });
+      const now = new Date();
+      const data = geofences.map(geofence => ({
+        id: geofence.id,
+        name: geofence.name,
+        tenant: geofence.tenant,
+        is_active: geofence.is_active,
+        starts_at: geofence.starts_at,
+        ends_at: geofence.ends_at,
+        schedule_windows: geofence.schedule_windows,
+        schedule_timezone: geofence.schedule_timezone,
+        schedule_summary: describeGeofenceSchedule(service.schedule(geofence)),
+        live: geofence.is_active && isGeofenceScheduled(service.schedule(geofence), now)
+      }));
+      return { data };
+    } catch (error) {
+      strapi.log.error('Error fetching geofence schedules:', error);
+      return ctx.badRequest('Failed to fetch geofence schedules');
+    }
+  },
+
   async findOne(ctx) {
     try {
       await this.validatePermissions(ctx);
@@ -112,10 +138,16 @@ export default ({ strapi }: { strapi: Strapi }) => ({
       if (!latitude || !longitude || !user_id) {
         return ctx.badRequest('Missing required parameters: latitude, longitude, user_id');
       }
+
+      const accuracy = ctx.request.body.accuracy != null ? parseFloat(ctx.request.body.accuracy) : undefined;
+      if (accuracy !== undefined && !(Number.isFinite(accuracy) && accuracy >= 0)) {
+        return ctx.badRequest('accuracy must be a non-negative number of meters');
+      }
       
       const results = await strapi.plugin('geofences').service('geofenceEvaluation').evaluateUserLocation({
         latitude: parseFloat(latitude),
         longitude: parseFloat(longitude),
+        accuracy,
         user_id,
         tenant: ctx.request.body.tenant || 'public'
       });
@@ -1,7 +1,11 @@
 import geofence from './geofence';
 import notificationTemplate from './notification-template';
+import webhookDelivery from './webhook-delivery';
+import sms from './sms';
 
 export default {
   geofence,
   'notification-template': notificationTemplate,
+  'webhook-delivery': webhookDelivery,
+  sms,
 };
\ No newline at end of file
@@ -101,6 +101,30 @@ export default ({ strapi }: { strapi: Strapi }) => ({
     }
   },
 
+  // Render a template against a sample hit: the saved template (:id) with optional
+  // overrides, or an unsaved one, from { template, hit } in the body
+  async preview(ctx) {
+    try {
+      await this.validatePermissions(ctx);
+
+      const { template: overrides = {}, hit = {} } = ctx.request.body ?? {};
+      let template = overrides;
+      if (ctx.params.id) {
+        const saved = await strapi.plugin('geofences').service('notificationTemplate').findOne(ctx.params.id);
+        if (!saved) {
+          return ctx.notFound('Notification template not found');
+        }
+        template = { ...saved, ...overrides };
+      }
+
+      const data = strapi.plugin('geofences').service('notificationTemplate').preview(template, hit);
+      return { data };
+    } catch (error) {
+      strapi.log.error('Error previewing notification template:', error);
+      return ctx.badRequest(error instanceof Error ? error.message : 'Failed to preview notification template');
+    }
+  },
+
   async validatePermissions(ctx) {
     // Check if user is admin or has proper permissions
     const isAdmin = ctx.state.user?.roles?.some(role => role.type === 'admin');
@@ -0,0 +1,30 @@
+import { Strapi } from '@strapi/strapi';
+import { timingSafeEqual } from 'crypto';
+
+export default ({ strapi }: { strapi: Strapi }) => ({
+  // Inbound messages from the SMS gateway; STOP/START keywords update the opt-out list
+  async inbound(ctx) {
+    const expected = strapi.plugin('geofences').config('sms').inboundToken;
+    const token = Buffer.from(ctx.get('x-sms-inbound-token') ?? '');
+    // Compare byte lengths: timingSafeEqual throws on Buffers of different sizes
+    if (!expected || token.length === 0 || token.length !== Buffer.byteLength(expected) || !timingSafeEqual(token, Buffer.from(expected))) {
+      return ctx.unauthorized('Invalid inbound token');
+    }
+
+    // JSON or form posts; Twilio-style gateways send From/Body
+    const payload = ctx.request.body ?? {};
+    const from = payload.from ?? payload.From;
+    const body = payload.body ?? payload.Body ?? payload.text;
+    if (typeof from !== 'string' || typeof body !== 'string') {
+      return ctx.badRequest('from and body are required');
+    }
+
+    try {
+      const data = await strapi.plugin('geofences').service('sms').handleInbound(from, body);
+      return { data };
+    } catch (error) {
+      strapi.log.error('Error handling inbound SMS:', error);
+      return ctx.badRequest('Failed to handle inbound SMS');
+    }
+  }
+});
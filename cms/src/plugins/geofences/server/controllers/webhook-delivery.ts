@@ -0,0 +1,59 @@
+import { Strapi } from '@strapi/strapi';
+
+// Access is enforced by the route policies (content API and admin panel)
+export default ({ strapi }: { strapi: Strapi }) => ({
+  async find(ctx) {
+    try {
+      const { templateId, eventId, success } = ctx.query;
+      const filters: Record<string, unknown> = {};
+      if (templateId) filters.notification_template = { id: Number(templateId) };
+      if (eventId) filters.event_id = eventId;
+      if (success !== undefined) filters.success = success === 'true';
+
+      const data = await strapi.plugin('geofences').service('webhookDelivery').find({
+        filters,
+        start: Number(ctx.query.start) || 0,
+        limit: Math.min(Number(ctx.query.limit) || 50, 200)
+      });
+      return { data };
+    } catch (error) {
+      strapi.log.error('Error fetching webhook deliveries:', error);
+      return ctx.badRequest('Failed to fetch webhook deliveries');
+    }
+  },
+
+  async findOne(ctx) {
+    try {
+      const data = await strapi.plugin('geofences').service('webhookDelivery').findOne(ctx.params.id);
+      if (!data) {
+        return ctx.notFound('Webhook delivery not found');
+      }
+      return { data };
+    } catch (error) {
+      strapi.log.error('Error fetching webhook delivery:', error);
+      return ctx.badRequest('Failed to fetch webhook delivery');
+    }
+  },
+
+  async redeliver(ctx) {
+    try {
+      const data = await strapi.plugin('geofences').service('webhookDelivery').redeliver(ctx.params.id);
+      if (!data) {
+        return ctx.notFound('Webhook delivery not found');
+      }
+
+      strapi.log.info(`Webhook redelivery requested for event ${data.eventId}`, {
+        spec_id: 'F-003',
+        delivery_id: ctx.params.id,
+        user_id: ctx.state.user?.id,
+        action: 'redeliver_webhook'
+      });
+
+      ctx.status = 202;
+      return { data };
+    } catch (error) {
+      strapi.log.error('Error redelivering webhook:', error);
+      return ctx.badRequest(error instanceof Error ? error.message : 'Failed to redeliver webhook');
+    }
+  }
+});
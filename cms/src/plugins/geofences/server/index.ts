@@ -1,11 +1,19 @@
 import { Strapi } from '@strapi/strapi';
+import { poolConfigError } from '../../../../../server/src/db.js';
+import { pushConfigError } from '../../../../../server/src/push-providers.js';
+import { NotificationWorker } from '../../../../../server/src/notification-queue.js';
+import config from './config';
 import contentTypes from './content-types';
 import controllers from './controllers';
 import routes from './routes';
 import services from './services';
 import policies from './policies';
+import { createNotificationWorker } from './notification-worker';
+
+let notificationWorker: NotificationWorker | null = null;
 
 export default {
+  config,
   contentTypes,
   controllers,
   routes,
@@ -19,6 +27,16 @@ export default {
 
   async bootstrap({ strapi }: { strapi: Strapi }) {
     // Bootstrap logic
+    // The notification queue, preferences and delivery logs live in the server's database
+    const poolError = poolConfigError();
+    if (poolError) {
+      throw new Error(`Geofences plugin: ${poolError}; set DATABASE_URL (and DATABASE_SSL) to the server's Postgres, see cms/.env.example`);
+    }
+    // Queued pushes need a sender; fail here rather than on every job
+    const pushError = pushConfigError();
+    if (pushError) {
+      throw new Error(`Geofences plugin: ${pushError}; see cms/.env.example`);
+    }
     console.log('Geofences plugin bootstrapped');
     
     // Set up cron job for geofence evaluation
@@ -34,5 +52,19 @@ export default {
         },
       });
     }
+
+    if (strapi.plugin('geofences').config('notificationWorkerEnabled') ?? true) {
+      notificationWorker = createNotificationWorker(strapi);
+      notificationWorker.start();
+    }
+  },
+
+  async destroy() {
+    // Waits for the notifications being sent
+    if (notificationWorker) {
+      const worker = notificationWorker;
+      notificationWorker = null;
+      await worker.stop();
+    }
   },
-};
\ No newline at end of file
+};
@@ -0,0 +1,27 @@
+import { NotificationJobHandler, NotificationWorker } from '../../../../../server/src/notification-queue.js';
+import { STRAPI_GEOFENCE_PUSH_JOB } from './services/geofence-evaluation';
+import { STRAPI_GEOFENCE_WEBHOOK_JOB } from './services/webhook-delivery';
+import { STRAPI_GEOFENCE_EMAIL_JOB } from './services/email';
+import { STRAPI_GEOFENCE_SMS_JOB } from './services/sms';
+
+/**
+ * Sends the push, webhook, email and SMS jobs this plugin queues for its hits.
+ * It claims only these job types; other workers (the geolocation plugin's, the
+ * Express server's) share the queue and its per-provider limits.
+ */
+export function createNotificationWorker(strapi: any): NotificationWorker {
+  const service = (name: string) => strapi.plugin('geofences').service(name);
+  const handlers: Record<string, NotificationJobHandler> = {
+    [STRAPI_GEOFENCE_PUSH_JOB]: job => service('geofenceEvaluation').deliverQueuedPush(job),
+    [STRAPI_GEOFENCE_WEBHOOK_JOB]: job => service('webhookDelivery').deliver(job),
+    [STRAPI_GEOFENCE_EMAIL_JOB]: job => service('email').deliver(job),
+    [STRAPI_GEOFENCE_SMS_JOB]: job => service('sms').deliver(job),
+  };
+
+  return new NotificationWorker({
+    handlers,
+    log: (message, metadata = {}, level = 'info') => {
+      strapi.log[level](`[Geofences Plugin] ${message}`, metadata);
+    },
+  });
+}
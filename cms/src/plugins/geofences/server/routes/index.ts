@@ -1,4 +1,4 @@
-export default [
+const contentApiRoutes = [
   {
     method: 'GET',
     path: '/geofences',
@@ -71,6 +71,22 @@ export default [
       policies: ['plugin::geofences.isAdmin'],
     },
   },
+  {
+    method: 'POST',
+    path: '/notification-templates/preview',
+    handler: 'notification-template.preview',
+    config: {
+      policies: ['plugin::geofences.isAdmin'],
+    },
+  },
+  {
+    method: 'POST',
+    path: '/notification-templates/:id/preview',
+    handler: 'notification-template.preview',
+    config: {
+      policies: ['plugin::geofences.isAdmin'],
+    },
+  },
   {
     method: 'PUT',
     path: '/notification-templates/:id',
@@ -87,4 +103,83 @@ export default [
       policies: ['plugin::geofences.isAdmin'],
     },
   },
-];
\ No newline at end of file
+  {
+    method: 'GET',
+    path: '/webhook-deliveries',
+    handler: 'webhook-delivery.find',
+    config: {
+      policies: ['plugin::geofences.isAdmin'],
+    },
+  },
+  {
+    method: 'GET',
+    path: '/webhook-deliveries/:id',
+    handler: 'webhook-delivery.findOne',
+    config: {
+      policies: ['plugin::geofences.isAdmin'],
+    },
+  },
+  {
+    method: 'POST',
+    path: '/webhook-deliveries/:id/redeliver',
+    handler: 'webhook-delivery.redeliver',
+    config: {
+      policies: ['plugin::geofences.isAdmin'],
+    },
+  },
+  {
+    method: 'POST',
+    path: '/sms/inbound',
+    handler: 'sms.inbound',
+    config: {
+      auth: false, // SMS gateway callback, checked against sms.inboundToken
+    },
+  },
+];
+
+// Called by the admin panel with the admin session
+const adminRoutes = [
+  {
+    method: 'GET',
+    path: '/geofences/schedules',
+    handler: 'geofence.schedules',
+    config: {
+      policies: ['admin::isAuthenticatedAdmin'],
+    },
+  },
+  {
+    method: 'GET',
+    path: '/webhook-deliveries',
+    handler: 'webhook-delivery.find',
+    config: {
+      policies: ['admin::isAuthenticatedAdmin'],
+    },
+  },
+  {
+    method: 'GET',
+    path: '/webhook-deliveries/:id',
+    handler: 'webhook-delivery.findOne',
+    config: {
+      policies: ['admin::isAuthenticatedAdmin'],
+    },
+  },
+  {
+    method: 'POST',
+    path: '/webhook-deliveries/:id/redeliver',
+    handler: 'webhook-delivery.redeliver',
+    config: {
+      policies: ['admin::isAuthenticatedAdmin'],
+    },
+  },
+];
+
+export default {
+  'content-api': {
+    type: 'content-api',
+    routes: contentApiRoutes,
+  },
+  admin: {
+    type: 'admin',
+    routes: adminRoutes,
+  },
+};
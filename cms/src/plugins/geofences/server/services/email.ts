@@ -0,0 +1,137 @@
+import { Strapi } from '@strapi/strapi';
+import nodemailer, { Transporter } from 'nodemailer';
+import { pool } from '../../../../../../server/src/db.js';
+import { NotificationJob, enqueueNotificationJob } from '../../../../../../server/src/notification-queue.js';
+import { renderTemplate } from '../../../../../../server/src/notification-templates.js';
+
+// Notification queue job type for email notification templates
+export const STRAPI_GEOFENCE_EMAIL_JOB = 'strapi-geofence-email';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailDelivery {
+  sent: boolean;
+  status: 'sent' | 'failed' | 'no_recipient';
+  to?: string;
+  messageId?: string;
+  response?: string;
+  error?: string;
+  locale: string | null; // template locale variant, null for the base fields
+  attempt: number;
+  at: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+let transporter: Transporter | null = null;
+
+export default ({ strapi }: { strapi: Strapi }) => ({
+  getTransporter(): Transporter {
+    if (!transporter) {
+      const { host, port, secure, user, pass } = strapi.plugin('geofences').config('email');
+      transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure,
+        auth: user ? { user, pass } : undefined
+      });
+    }
+    return transporter;
+  },
+
+  // Look up the user's address through the configured profile mapping (email.recipients)
+  async resolveRecipient(userId: string): Promise<string | null> {
+    const { contentType, userIdField, emailField } = strapi.plugin('geofences').config('email').recipients;
+    const profile = await strapi.db.query(contentType).findOne({
+      where: { [userIdField]: userId },
+      select: [emailField]
+    });
+    return profile?.[emailField] || null;
+  },
+
+  // Subject from `title`, body from `email_template` (falling back to `message`)
+  render(template: any, context: Record<string, unknown>): Omit<EmailMessage, 'to'> {
+    const source = template.email_template || template.message;
+    const body = renderTemplate(source, context);
+    const html = renderTemplate(source, context, { escape: escapeHtml })
+      .split(/\n{2,}/)
+      .map(paragraph => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+      .join('\n');
+
+    return {
+      subject: renderTemplate(template.title, context),
+      text: body,
+      html
+    };
+  },
+
+  async send(message: EmailMessage) {
+    return this.getTransporter().sendMail({
+      from: strapi.plugin('geofences').config('email').from,
+      ...message
+    });
+  },
+
+  // Render now and queue the send; the recipient is resolved when the job runs.
+  // `template` is already localized (notificationTemplate.localizeForUser)
+  async enqueue(template: any, context: Record<string, any>, hitId: number) {
+    return enqueueNotificationJob(pool, {
+      type: STRAPI_GEOFENCE_EMAIL_JOB,
+      provider: 'smtp',
+      idempotencyKey: `strapi-geofence-hit:${hitId}:email`,
+      payload: {
+        hitId,
+        userId: context.user.id,
+        locale: template.locale ?? null,
+        message: this.render(template, context)
+      }
+    });
+  },
+
+  // Notification worker handler for STRAPI_GEOFENCE_EMAIL_JOB; records the status on the hit metadata
+  async deliver(job: NotificationJob) {
+    const { hitId, userId, locale = null, message } = job.payload;
+    const delivery: EmailDelivery = { sent: false, status: 'failed', locale, attempt: job.attempts, at: new Date().toISOString() };
+
+    const to = await this.resolveRecipient(userId);
+    if (!to) {
+      delivery.status = 'no_recipient';
+      delivery.error = `no email address for user ${userId}`;
+    } else {
+      delivery.to = to;
+      try {
+        const info = await this.send({ to, ...message });
+        delivery.sent = true;
+        delivery.status = 'sent';
+        delivery.messageId = info.messageId;
+        delivery.response = info.response;
+      } catch (error) {
+        delivery.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    await strapi.plugin('geofences').service('geofenceEvaluation').recordHitDelivery(hitId, 'email', delivery);
+
+    if (delivery.sent) {
+      return { ok: true as const, result: delivery };
+    }
+    strapi.log.warn(`Email notification not delivered to user ${userId}: ${delivery.error}`, {
+      spec_id: 'F-003',
+      hit_id: hitId,
+      attempt: job.attempts
+    });
+    return { ok: false as const, error: delivery.error!, permanent: delivery.status === 'no_recipient', result: delivery };
+  }
+});
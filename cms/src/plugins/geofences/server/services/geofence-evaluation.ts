@@ -1,8 +1,35 @@
 import { Strapi } from '@strapi/strapi';
+import {
+  GeofenceEventType,
+  GeofenceMembership,
+  OUTSIDE_MEMBERSHIP,
+  nextGeofenceMembership
+} from '../../../../../../server/src/geofence-transitions.js';
+import { pool } from '../../../../../../server/src/db.js';
+import { pushDeliveryOutcome } from '../../../../../../server/src/geofence-notifications.js';
+import { NotificationJob, enqueueNotificationJob } from '../../../../../../server/src/notification-queue.js';
+import { PushDelivery, deliverPushToUser } from '../../../../../../server/src/push-delivery.js';
+import { buildTemplateContext, renderTemplate } from '../../../../../../server/src/notification-templates.js';
+import { pushProviderName } from '../../../../../../server/src/push-providers.js';
+import { deviceLanguage, localizeTemplate, selectLocale } from '../../../../../../server/src/notification-locales.js';
+import { checkNotificationPreferences } from '../../../../../../server/src/notification-preferences.js';
+import { audienceUsesDevices, isInAudience } from '../../../../../../server/src/geofence-audience.js';
+import { GeofenceSchedule, isGeofenceScheduledThroughout } from '../../../../../../server/src/geofence-schedules.js';
+import { getUserDevices } from '../../../../../../server/src/deviceRegistrations.js';
+import {
+  assessLocationAccuracy,
+  isAccuracyRejected,
+  scaledHysteresis
+} from '../../../../../../server/src/location-accuracy.js';
+import { WebhookResult } from '../../../../../../server/src/webhooks.js';
+
+// Notification queue job type for push notifications of hits recorded here
+export const STRAPI_GEOFENCE_PUSH_JOB = 'strapi-geofence-push';
 
 interface LocationPoint {
   latitude: number;
   longitude: number;
+  accuracy?: number; // meters, 68% confidence radius
   user_id: string;
   tenant?: string;
 }
@@ -10,7 +37,7 @@ interface LocationPoint {
 interface GeofenceHit {
   geofence_id: number;
   user_id: string;
-  event_type: 'enter' | 'exit';
+  event_type: GeofenceEventType;
   latitude: number;
   longitude: number;
   distance_from_center?: number;
@@ -20,21 +47,33 @@ interface GeofenceHit {
   suppression_reason?: string;
   tenant: string;
   spec_id: string;
+  metadata?: Record<string, any>;
 }
 
 export default ({ strapi }: { strapi: Strapi }) => ({
   async evaluateUserLocation(location: LocationPoint) {
     try {
       const tenant = location.tenant || 'public';
+      const accuracyConfig = strapi.plugin('geofences').config('accuracy');
+      if (isAccuracyRejected(location.accuracy, accuracyConfig)) {
+        strapi.log.info(`Location skipped: accuracy ${location.accuracy}m above ${accuracyConfig.maxAccuracyMeters}m`, {
+          spec_id: 'F-003',
+          user_id: location.user_id,
+          accuracy: location.accuracy
+        });
+        return [];
+      }
+
       const geofences = await strapi.plugin('geofences').service('geofence').findActiveGeofences(tenant);
       const results = [];
 
       for (const geofence of geofences) {
         const isInside = this.isPointInGeofence(location, geofence);
-        const wasInside = await this.wasUserInGeofence(location.user_id, geofence.id);
+        const schedule = strapi.plugin('geofences').service('geofence').schedule(geofence);
+        const membership = await this.getUserMembership(location.user_id, geofence.id, schedule);
         
-        // Check for entry/exit events with hysteresis
-        const event = this.determineEvent(isInside, wasInside, location, geofence);
+        // Check for entry/exit events with hysteresis, and dwell
+        const event = this.determineEvent(isInside, membership, location, geofence);
         
         if (event) {
           // Check suppression window
@@ -52,22 +91,26 @@ export default ({ strapi }: { strapi: Strapi }) => ({
             suppressed: shouldSuppress.suppress,
             suppression_reason: shouldSuppress.reason,
             tenant,
-            spec_id: 'F-003'
+            spec_id: 'F-003',
+            metadata: { location_confidence: event.confidence }
           };
 
           // Record the hit
           const savedHit = await this.recordGeofenceHit(hit);
           
-          // Send notification if not suppressed
+          // Send notification if not suppressed; queued push notifications are marked when delivered
           if (!shouldSuppress.suppress && geofence.notification_template) {
-            await this.sendNotification(geofence, hit);
-            await this.updateHitNotificationSent(savedHit.id);
+            const sent = await this.sendNotification(geofence, hit, savedHit.id);
+            if (sent) {
+              await this.updateHitNotificationSent(savedHit.id);
+            }
           }
 
           results.push({
             geofence: geofence.name,
             event_type: event.event_type,
             suppressed: shouldSuppress.suppress,
+            location_confidence: event.confidence.decision,
             hit_id: savedHit.id
           });
 
@@ -159,60 +202,77 @@ export default ({ strapi }: { strapi: Strapi }) => ({
     return R * c;
   },
 
-  determineEvent(isInside: boolean, wasInside: boolean, location: LocationPoint, geofence: any) {
-    const hysteresisBuffer = geofence.hysteresis_buffer_meters || 10;
-    
-    if (isInside && !wasInside) {
-      // Entry event
-      const distance = geofence.geometry_type === 'point_radius' 
-        ? this.calculateDistance(location.latitude, location.longitude, geofence.center_latitude, geofence.center_longitude)
-        : 0;
-      
-      return { event_type: 'enter' as const, distance };
-    } else if (!isInside && wasInside) {
-      // Check hysteresis for exit
-      const distance = geofence.geometry_type === 'point_radius' 
-        ? this.calculateDistance(location.latitude, location.longitude, geofence.center_latitude, geofence.center_longitude)
-        : 0;
-      
-      // Only trigger exit if they're beyond the hysteresis buffer
-      if (geofence.geometry_type === 'point_radius' && distance < geofence.radius_meters + hysteresisBuffer) {
-        return null; // Still within hysteresis buffer
-      }
-      
-      return { event_type: 'exit' as const, distance };
-    }
-    
-    return null;
+  determineEvent(isInside: boolean, membership: GeofenceMembership, location: LocationPoint, geofence: any) {
+    const isCircle = geofence.geometry_type === 'point_radius';
+    const hysteresisBuffer = scaledHysteresis(geofence.hysteresis_buffer_meters || 10, location.accuracy);
+    const distance = isCircle
+      ? this.calculateDistance(location.latitude, location.longitude, geofence.center_latitude, geofence.center_longitude)
+      : 0;
+
+    // Exit only once they're beyond the hysteresis buffer, widened by the location's accuracy;
+    // coarse fixes near a circle's edge cannot enter (server/src/location-accuracy.ts)
+    const assessment = assessLocationAccuracy({
+      accuracyMeters: location.accuracy,
+      inside: isInside,
+      withinBuffer: isInside || (isCircle && distance < geofence.radius_meters + hysteresisBuffer),
+      hysteresisMeters: hysteresisBuffer,
+      circle: isCircle ? { distanceMeters: distance, radiusMeters: geofence.radius_meters } : null
+    }, strapi.plugin('geofences').config('accuracy'));
+    if (!assessment) return null;
+
+    // Dwell fires once per stay when dwell_seconds is set
+    const { event } = nextGeofenceMembership(
+      membership,
+      { at: new Date(), inside: assessment.inside, withinBuffer: assessment.withinBuffer },
+      (geofence.dwell_seconds || 0) * 1000
+    );
+
+    return event ? { event_type: event, distance, confidence: assessment.confidence } : null;
   },
 
-  async wasUserInGeofence(userId: string, geofenceId: number): Promise<boolean> {
+  /**
+   * Current membership from the user's latest hit: inside after an `enter`
+   * (dwell pending) or a `dwell` (dwell done), outside after an `exit` or
+   * without hits. The latest hit decides however old it is, so a stay longer
+   * than a day is not taken for a new entry, unless the fence's `schedule` has
+   * been off since: that stay is over and ends without an `exit`.
+   */
+  async getUserMembership(userId: string, geofenceId: number, schedule?: GeofenceSchedule): Promise<GeofenceMembership> {
     try {
-      const recentHits = await strapi.entityService.findMany('plugin::geofences.geofence-hit', {
+      const [lastHit] = await strapi.entityService.findMany('plugin::geofences.geofence-hit', {
         filters: {
           user_id: userId,
-          geofence_id: geofenceId,
-          triggered_at: {
-            $gte: new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
-          }
+          geofence_id: geofenceId
         },
         sort: { triggered_at: 'desc' },
         limit: 1
       });
 
-      if (recentHits.length === 0) return false;
-      return recentHits[0].event_type === 'enter';
+      if (!lastHit || lastHit.event_type === 'exit') return OUTSIDE_MEMBERSHIP;
+
+      const triggeredAt = new Date(lastHit.triggered_at);
+      if (schedule && !isGeofenceScheduledThroughout(schedule, triggeredAt, new Date())) return OUTSIDE_MEMBERSHIP;
+
+      return lastHit.event_type === 'dwell'
+        ? { inside: true, enteredAt: null, dwellAt: triggeredAt, lastSeenAt: null }
+        : { inside: true, enteredAt: triggeredAt, dwellAt: null, lastSeenAt: null };
     } catch (error) {
       strapi.log.error('Error checking user geofence status:', error);
-      return false;
+      return OUTSIDE_MEMBERSHIP;
     }
   },
 
-  async shouldSuppressNotification(userId: string, geofenceId: number, eventType: 'enter' | 'exit') {
+  async shouldSuppressNotification(userId: string, geofenceId: number, eventType: GeofenceEventType) {
     try {
       const geofence = await strapi.plugin('geofences').service('geofence').findOne(geofenceId);
       if (!geofence) return { suppress: true, reason: 'Geofence not found' };
 
+      // Matches outside the geofence's targeting rules are recorded but never notified
+      const devices = audienceUsesDevices(geofence.audience) ? await getUserDevices(userId) : [];
+      if (!isInAudience(geofence.audience, geofence.id, userId, devices)) {
+        return { suppress: true, reason: 'not_in_audience' };
+      }
+
       const suppressionWindow = geofence.suppression_window_seconds || 300; // 5 minutes default
       const cutoffTime = new Date(Date.now() - suppressionWindow * 1000);
 
@@ -235,6 +295,13 @@ export default ({ strapi }: { strapi: Strapi }) => ({
         };
       }
 
+      // The user's quiet hours, daily cap and channel opt-in; webhooks are not sent to the user
+      const channel = geofence.notification_template?.notification_type;
+      if (channel === 'push' || channel === 'email' || channel === 'sms') {
+        const reason = await checkNotificationPreferences(pool, userId, channel);
+        if (reason) return { suppress: true, reason };
+      }
+
       return { suppress: false, reason: null };
     } catch (error) {
       strapi.log.error('Error checking suppression:', error);
@@ -253,12 +320,15 @@ export default ({ strapi }: { strapi: Strapi }) => ({
     }
   },
 
-  async updateHitNotificationSent(hitId: number) {
+  // `delivery` is set for queued notifications: sent only if the provider or endpoint accepted it
+  async updateHitNotificationSent(hitId: number, delivery?: PushDelivery | WebhookResult) {
     try {
+      const sent = delivery ? delivery.sent : true;
       return await strapi.entityService.update('plugin::geofences.geofence-hit', hitId, {
         data: {
-          notification_sent: true,
-          notification_sent_at: new Date()
+          notification_sent: sent,
+          notification_sent_at: sent ? new Date() : null,
+          ...(delivery ? { notification_response: delivery } : {})
         }
       });
     } catch (error) {
@@ -267,82 +337,150 @@ export default ({ strapi }: { strapi: Strapi }) => ({
     }
   },
 
-  async sendNotification(geofence: any, hit: GeofenceHit) {
+  // Store a channel's delivery status in the hit metadata (e.g. `metadata.email`)
+  async recordHitDelivery(hitId: number, channel: string, delivery: { sent: boolean }) {
+    const hit: any = await strapi.entityService.findOne('plugin::geofences.geofence-hit', hitId);
+    if (!hit) return;
+
+    return strapi.entityService.update('plugin::geofences.geofence-hit', hitId, {
+      data: {
+        notification_sent: delivery.sent,
+        notification_sent_at: delivery.sent ? new Date() : null,
+        metadata: { ...(hit.metadata || {}), [channel]: delivery }
+      }
+    });
+  },
+
+  // Returns false when the notification was queued rather than sent
+  async sendNotification(geofence: any, hit: GeofenceHit, hitId: number): Promise<boolean> {
     try {
       const template = geofence.notification_template;
-      if (!template) return;
+      if (!template) return false;
 
+      const context = this.templateContext(template, geofence, hit, hitId);
+      const templates = strapi.plugin('geofences').service('notificationTemplate');
+      let queued = false;
       // Implement different notification types
       switch (template.notification_type) {
         case 'push':
-          await this.sendPushNotification(template, hit);
+          // Localized per device when the job runs
+          await this.queuePushNotification(template, hit, hitId, context);
+          queued = true;
           break;
         case 'email':
-          await this.sendEmailNotification(template, hit);
+          await strapi.plugin('geofences').service('email')
+            .enqueue(await templates.localizeForUser(template, hit.user_id, hit.tenant), context, hitId);
+          queued = true;
           break;
         case 'sms':
-          await this.sendSMSNotification(template, hit);
+          await strapi.plugin('geofences').service('sms')
+            .enqueue(await templates.localizeForUser(template, hit.user_id, hit.tenant), context, hitId, hit.tenant);
+          queued = true;
           break;
         case 'webhook':
-          await this.sendWebhookNotification(template, hit);
+          await this.queueWebhookNotification(await templates.localizeForUser(template, hit.user_id, hit.tenant), hit, hitId, context);
+          queued = true;
           break;
       }
 
-      strapi.log.info(`Notification sent: ${template.notification_type}`, {
+      strapi.log.info(`Notification ${queued ? 'queued' : 'sent'}: ${template.notification_type}`, {
         spec_id: 'F-003',
         template_id: template.id,
-        hit_id: hit.geofence_id,
+        hit_id: hitId,
         user_id: hit.user_id
       });
+      return !queued;
     } catch (error) {
       strapi.log.error('Error sending notification:', error);
       throw error;
     }
   },
 
-  async sendPushNotification(template: any, hit: GeofenceHit) {
-    // Implement push notification logic
-    console.log(`Push notification: ${template.title} - ${template.message}`, {
-      user_id: hit.user_id,
-      priority: template.priority
-    });
+  // Variables for `{{...}}` placeholders in the template, see server/src/notification-templates.ts
+  templateContext(template: any, geofence: any, hit: GeofenceHit, hitId: number) {
+    return buildTemplateContext({
+      id: hitId,
+      userId: hit.user_id,
+      eventType: hit.event_type,
+      geofence: { id: geofence.id, name: geofence.name },
+      latitude: hit.latitude,
+      longitude: hit.longitude,
+      distanceMeters: hit.distance_from_center,
+      triggeredAt: hit.triggered_at
+    }, template.custom_data || {}, strapi.plugin('geofences').config('templates').timezone);
   },
 
-  async sendEmailNotification(template: any, hit: GeofenceHit) {
-    // Implement email notification logic
-    console.log(`Email notification: ${template.title}`, {
-      user_id: hit.user_id,
-      template: template.email_template
+  // Queue delivery to the user's registered devices; the notification worker sends it.
+  // Every locale variant is rendered up front so each device can get its own language.
+  async queuePushNotification(template: any, hit: GeofenceHit, hitId: number, context: Record<string, unknown>) {
+    const fallback = localizeTemplate(
+      template,
+      null,
+      strapi.plugin('geofences').service('notificationTemplate').fallbackLocale(hit.tenant)
+    );
+    const localized = Object.fromEntries(Object.keys(template.locales ?? {}).map(locale => {
+      const variant = localizeTemplate(template, locale);
+      return [locale, { title: renderTemplate(variant.title, context), body: renderTemplate(variant.message, context) }];
+    }));
+
+    await enqueueNotificationJob(pool, {
+      type: STRAPI_GEOFENCE_PUSH_JOB,
+      provider: pushProviderName() ?? 'unconfigured',
+      idempotencyKey: `strapi-geofence-hit:${hitId}:push`,
+      payload: {
+        userId: hit.user_id,
+        hitId,
+        localized,
+        message: {
+          title: renderTemplate(fallback.title, context),
+          body: renderTemplate(fallback.message, context),
+          data: {
+            ...(template.custom_data || {}),
+            geofence_id: hit.geofence_id,
+            event_type: hit.event_type,
+            priority: template.priority
+          }
+        }
+      }
     });
   },
 
-  async sendSMSNotification(template: any, hit: GeofenceHit) {
-    // Implement SMS notification logic
-    console.log(`SMS notification: ${template.sms_template}`, {
-      user_id: hit.user_id
+  // Notification worker handler for STRAPI_GEOFENCE_PUSH_JOB
+  async deliverQueuedPush(job: NotificationJob) {
+    const { message, localized = {} } = job.payload;
+    const delivery = await deliverPushToUser(job.payload.userId, device => {
+      const locale = selectLocale(deviceLanguage(device), Object.keys(localized));
+      return locale ? { ...message, ...localized[locale] } : message;
     });
-  },
+    await this.updateHitNotificationSent(job.payload.hitId, delivery);
 
-  async sendWebhookNotification(template: any, hit: GeofenceHit) {
-    // Implement webhook notification logic
-    try {
-      const payload = {
-        template_id: template.id,
-        user_id: hit.user_id,
-        event_type: hit.event_type,
-        geofence_id: hit.geofence_id,
-        timestamp: hit.triggered_at,
-        title: template.title,
-        message: template.message,
-        custom_data: template.custom_data,
-        spec_id: 'F-003'
-      };
-
-      // In a real implementation, use fetch or axios to send to webhook_url
-      console.log(`Webhook notification to ${template.webhook_url}:`, payload);
-    } catch (error) {
-      strapi.log.error('Error sending webhook notification:', error);
-      throw error;
+    if (!delivery.sent) {
+      strapi.log.warn(`Push notification not delivered to user ${job.payload.userId}`, {
+        spec_id: 'F-003',
+        hit_id: job.payload.hitId,
+        attempt: job.attempts,
+        error: delivery.error ?? delivery.results.map(r => r.error).join('; ')
+      });
     }
+    return pushDeliveryOutcome(delivery);
+  },
+
+  // Queue a signed POST to the template's webhook_url; the webhookDelivery service sends and logs it
+  async queueWebhookNotification(template: any, hit: GeofenceHit, hitId: number, context: Record<string, unknown>) {
+    await strapi.plugin('geofences').service('webhookDelivery').enqueue(template, {
+      template_id: template.id,
+      hit_id: hitId,
+      user_id: hit.user_id,
+      event_type: hit.event_type,
+      geofence_id: hit.geofence_id,
+      latitude: hit.latitude,
+      longitude: hit.longitude,
+      timestamp: hit.triggered_at,
+      title: renderTemplate(template.title, context),
+      message: renderTemplate(template.message, context),
+      locale: template.locale,
+      custom_data: template.custom_data,
+      spec_id: 'F-003'
+    }, { hitId });
   }
-});
\ No newline at end of file
+});
@@ -1,4 +1,6 @@
 import { Strapi } from '@strapi/strapi';
+import { isGeofenceScheduled, validateGeofenceSchedule } from '../../../../../../server/src/geofence-schedules.js';
+import { validateGeofenceAudience } from '../../../../../../server/src/geofence-audience.js';
 
 export default ({ strapi }: { strapi: Strapi }) => ({
   async find(params = {}) {
@@ -29,6 +31,8 @@ export default ({ strapi }: { strapi: Strapi }) => ({
     try {
       // Validate geometry data
       this.validateGeofenceData(data);
+      this.validateSchedule(data);
+      this.validateAudience(data);
       
       return await strapi.entityService.create('plugin::geofences.geofence', {
         data: {
@@ -49,6 +53,11 @@ export default ({ strapi }: { strapi: Strapi }) => ({
       if (data.geometry_type || data.center_latitude || data.center_longitude || data.radius_meters || data.polygon_coordinates) {
         this.validateGeofenceData(data);
       }
+      if (data.starts_at !== undefined || data.ends_at !== undefined || data.schedule_windows !== undefined || data.schedule_timezone !== undefined) {
+        const existing = await strapi.entityService.findOne('plugin::geofences.geofence', id);
+        this.validateSchedule({ ...existing, ...data });
+      }
+      this.validateAudience(data);
       
       return await strapi.entityService.update('plugin::geofences.geofence', id, {
         data,
@@ -108,15 +117,42 @@ export default ({ strapi }: { strapi: Strapi }) => ({
     }
   },
 
-  async findActiveGeofences(tenant = 'public') {
+  // Date range, weekly windows and their time zone (server/src/geofence-schedules.ts)
+  validateSchedule(data: any) {
+    const errors = validateGeofenceSchedule(this.schedule(data));
+    if (errors.length > 0) {
+      throw new Error(`Invalid schedule: ${errors.join('; ')}`);
+    }
+  },
+
+  // Targeting rules (server/src/geofence-audience.ts)
+  validateAudience(data: any) {
+    const errors = validateGeofenceAudience(data.audience);
+    if (errors.length > 0) {
+      throw new Error(`Invalid audience: ${errors.join('; ')}`);
+    }
+  },
+
+  schedule(geofence: any) {
+    return {
+      startsAt: geofence.starts_at,
+      endsAt: geofence.ends_at,
+      windows: geofence.schedule_windows,
+      timezone: geofence.schedule_timezone
+    };
+  },
+
+  // Active geofences that are live at `at` by their schedule
+  async findActiveGeofences(tenant = 'public', at: Date = new Date()) {
     try {
-      return await strapi.entityService.findMany('plugin::geofences.geofence', {
+      const geofences = await strapi.entityService.findMany('plugin::geofences.geofence', {
         filters: {
           is_active: true,
           tenant: tenant
         },
         populate: ['notification_template']
       });
+      return geofences.filter(geofence => isGeofenceScheduled(this.schedule(geofence), at));
     } catch (error) {
       strapi.log.error('Error finding active geofences:', error);
       throw error;
@@ -1,9 +1,15 @@
 import geofence from './geofence';
 import notificationTemplate from './notification-template';
 import geofenceEvaluation from './geofence-evaluation';
+import webhookDelivery from './webhook-delivery';
+import email from './email';
+import sms from './sms';
 
 export default {
   geofence,
   'notification-template': notificationTemplate,
   geofenceEvaluation,
+  webhookDelivery,
+  email,
+  sms,
 };
\ No newline at end of file
@@ -1,4 +1,15 @@
 import { Strapi } from '@strapi/strapi';
+import { buildTemplateContext, renderTemplate, validateTemplate } from '../../../../../../server/src/notification-templates.js';
+import { smsSegments } from '../../../../../../server/src/sms-providers.js';
+import { getUserDevices } from '../../../../../../server/src/deviceRegistrations.js';
+import {
+  localizeTemplate,
+  preferredLanguage,
+  validateTemplateLocales
+} from '../../../../../../server/src/notification-locales.js';
+import { generateWebhookSecret } from '../../../../../../server/src/webhooks.js';
+
+const TEMPLATE_FIELDS = ['title', 'message', 'sms_template', 'email_template'];
 
 export default ({ strapi }: { strapi: Strapi }) => ({
   async find(params = {}) {
@@ -28,6 +39,12 @@ export default ({ strapi }: { strapi: Strapi }) => ({
   async create(data: any) {
     try {
       this.validateTemplateData(data);
+      this.validateTemplateSyntax(data);
+
+      // Webhook requests are always signed; generate a secret unless one is given
+      if (data.notification_type === 'webhook' && !data.webhook_secret) {
+        data = { ...data, webhook_secret: generateWebhookSecret() };
+      }
       
       return await strapi.entityService.create('plugin::geofences.notification-template', {
         data,
@@ -44,6 +61,14 @@ export default ({ strapi }: { strapi: Strapi }) => ({
       if (data.notification_type || data.title || data.message) {
         this.validateTemplateData(data);
       }
+      this.validateTemplateSyntax(data);
+
+      if (data.notification_type === 'webhook' && !data.webhook_secret) {
+        const existing = await strapi.entityService.findOne('plugin::geofences.notification-template', id);
+        if (existing && !existing.webhook_secret) {
+          data = { ...data, webhook_secret: generateWebhookSecret() };
+        }
+      }
       
       return await strapi.entityService.update('plugin::geofences.notification-template', id, {
         data,
@@ -86,6 +111,10 @@ export default ({ strapi }: { strapi: Strapi }) => ({
     if (data.notification_type === 'webhook' && !data.webhook_url) {
       throw new Error('Webhook URL is required for webhook notifications');
     }
+
+    if (data.webhook_url && !/^https?:\/\//i.test(data.webhook_url)) {
+      throw new Error('Webhook URL must be an http(s) URL');
+    }
     
     if (data.notification_type === 'email' && !data.email_template) {
       throw new Error('Email template is required for email notifications');
@@ -94,6 +123,84 @@ export default ({ strapi }: { strapi: Strapi }) => ({
     if (data.notification_type === 'sms' && !data.sms_template) {
       throw new Error('SMS template is required for SMS notifications');
     }
+
+    // The fixed text must fit; rendered messages are truncated to sms.maxSegments
+    const smsTemplates = [
+      ['SMS template', data.sms_template],
+      ...Object.entries(data.locales ?? {}).map(([locale, variant]: [string, any]) => [`SMS template (${locale})`, variant?.sms_template])
+    ];
+    for (const [label, source] of smsTemplates) {
+      if (typeof source !== 'string' || !source) continue;
+      const { encoding, segments } = smsSegments(source.replace(/\{\{[\s\S]*?\}\}/g, ''));
+      const { maxSegments } = strapi.plugin('geofences').config('sms');
+      if (segments > maxSegments) {
+        throw new Error(`${label} needs ${segments} ${encoding} segments; at most ${maxSegments} are allowed`);
+      }
+    }
+  },
+
+  // Parse every template field, including locale variants, so syntax errors and unknown variables are reported on save
+  validateTemplateSyntax(data: any) {
+    const localeErrors = validateTemplateLocales(data.locales);
+    if (localeErrors.length > 0) {
+      throw new Error(`Invalid locales: ${localeErrors.join('; ')}`);
+    }
+
+    const sources: Array<[string, any]> = [
+      ...TEMPLATE_FIELDS.map(field => [field, data[field]] as [string, any]),
+      ...Object.entries(data.locales ?? {}).flatMap(([locale, variant]: [string, any]) =>
+        TEMPLATE_FIELDS.map(field => [`locales.${locale}.${field}`, variant[field]] as [string, any]))
+    ];
+    const errors = sources
+      .filter(([, source]) => typeof source === 'string')
+      .flatMap(([field, source]) => validateTemplate(source).map(error => `${field}: ${error}`));
+    if (errors.length > 0) {
+      throw new Error(`Invalid template: ${errors.join('; ')}`);
+    }
+  },
+
+  // Locale used when the recipient's language has no variant: templates.tenantLocales, then templates.defaultLocale
+  fallbackLocale(tenant?: string): string {
+    const { tenantLocales, defaultLocale } = strapi.plugin('geofences').config('templates');
+    return (tenant && tenantLocales?.[tenant]) || defaultLocale;
+  },
+
+  // The template in the language of the user's most recently updated device
+  async localizeForUser(template: any, userId: string, tenant?: string) {
+    const language = preferredLanguage(await getUserDevices(userId));
+    return localizeTemplate(template, language, this.fallbackLocale(tenant ?? template.tenant));
+  },
+
+  // Render a saved or unsaved template against a sample hit (defaults filled in), in `sample.locale` when given
+  preview(template: any, sample: any = {}) {
+    this.validateTemplateSyntax(template);
+    const localized = localizeTemplate(template, sample.locale, this.fallbackLocale(sample.tenant ?? template.tenant));
+
+    const geofence = template.geofences?.[0];
+    const context = buildTemplateContext({
+      id: sample.id ?? 0,
+      userId: sample.user_id ?? 'sample-user',
+      eventType: sample.event_type ?? 'enter',
+      geofence: {
+        id: sample.geofence?.id ?? geofence?.id ?? 0,
+        name: sample.geofence?.name ?? geofence?.name ?? 'Sample geofence'
+      },
+      latitude: sample.latitude ?? geofence?.center_latitude ?? 0,
+      longitude: sample.longitude ?? geofence?.center_longitude ?? 0,
+      distanceMeters: sample.distance ?? 25,
+      triggeredAt: sample.triggered_at ?? new Date()
+    }, { ...(template.custom_data || {}), ...(sample.custom_data || {}) },
+    sample.timezone ?? strapi.plugin('geofences').config('templates').timezone);
+
+    const sms = localized.sms_template ? strapi.plugin('geofences').service('sms').render(localized, context) : null;
+    return {
+      locale: localized.locale,
+      title: renderTemplate(localized.title ?? '', context),
+      message: renderTemplate(localized.message ?? '', context),
+      sms: sms === null ? null : { body: sms, ...smsSegments(sms) },
+      email: localized.email_template ? strapi.plugin('geofences').service('email').render(localized, context) : null,
+      context
+    };
   },
 
   async findActiveTemplates(tenant = 'public') {
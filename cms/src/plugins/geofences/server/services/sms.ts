@@ -0,0 +1,159 @@
+import { Strapi } from '@strapi/strapi';
+import { pool } from '../../../../../../server/src/db.js';
+import { NotificationJob, enqueueNotificationJob } from '../../../../../../server/src/notification-queue.js';
+import {
+  getSmsSender,
+  normalizePhoneNumber,
+  parseSmsKeyword,
+  smsProviderName,
+  smsSegments,
+  truncateSms
+} from '../../../../../../server/src/sms-providers.js';
+import { renderTemplate } from '../../../../../../server/src/notification-templates.js';
+
+// Notification queue job type for SMS notification templates
+export const STRAPI_GEOFENCE_SMS_JOB = 'strapi-geofence-sms';
+
+export interface SmsDelivery {
+  sent: boolean;
+  status: 'sent' | 'failed' | 'no_recipient' | 'opted_out';
+  to?: string;
+  from: string;
+  encoding: 'GSM-7' | 'UCS-2';
+  segments: number;
+  provider: string;
+  messageId?: string;
+  statusCode?: number;
+  error?: string;
+  locale: string | null; // template locale variant, null for the base fields
+  attempt: number;
+  at: string;
+}
+
+export default ({ strapi }: { strapi: Strapi }) => ({
+  config() {
+    return strapi.plugin('geofences').config('sms');
+  },
+
+  senderIdFor(tenant?: string): string {
+    const { senderIds, defaultSenderId } = this.config();
+    return (tenant && senderIds?.[tenant]) || defaultSenderId;
+  },
+
+  // Look up the user's phone number through the configured profile mapping (sms.recipients)
+  async resolveRecipient(userId: string): Promise<string | null> {
+    const { contentType, userIdField, phoneField } = this.config().recipients;
+    const profile = await strapi.db.query(contentType).findOne({
+      where: { [userIdField]: userId },
+      select: [phoneField]
+    });
+    return (profile?.[phoneField] && normalizePhoneNumber(profile[phoneField])) || null;
+  },
+
+  // `sms_template` (falling back to `message`) rendered for the hit, cut to sms.maxSegments
+  render(template: any, context: Record<string, unknown>): string {
+    const body = renderTemplate(template.sms_template || template.message, context).trim();
+    return truncateSms(body, this.config().maxSegments);
+  },
+
+  async isOptedOut(phoneNumber: string): Promise<boolean> {
+    const optOut = await strapi.db.query('plugin::geofences.sms-opt-out').findOne({
+      where: { phone_number: phoneNumber }
+    });
+    return Boolean(optOut);
+  },
+
+  // Apply STOP/START style keywords from an inbound message; other messages are ignored
+  async handleInbound(from: string, body: string) {
+    const phoneNumber = normalizePhoneNumber(from);
+    const action = parseSmsKeyword(body);
+    if (!phoneNumber || !action) return { action: null };
+
+    const existing = await strapi.db.query('plugin::geofences.sms-opt-out').findOne({
+      where: { phone_number: phoneNumber }
+    });
+    if (action === 'opt_out' && !existing) {
+      await strapi.db.query('plugin::geofences.sms-opt-out').create({
+        data: { phone_number: phoneNumber, keyword: body.trim().split(/\s+/)[0].toUpperCase(), opted_out_at: new Date() }
+      });
+    } else if (action === 'opt_in' && existing) {
+      await strapi.db.query('plugin::geofences.sms-opt-out').delete({ where: { id: existing.id } });
+    }
+
+    strapi.log.info(`SMS ${action === 'opt_out' ? 'opt-out' : 'opt-in'} received`, {
+      spec_id: 'F-003',
+      phone_number: phoneNumber.replace(/\d(?=\d{4})/g, '*')
+    });
+    return { action };
+  },
+
+  // Render now and queue the send; the phone number and opt-out are checked when the job runs.
+  // `template` is already localized (notificationTemplate.localizeForUser)
+  async enqueue(template: any, context: Record<string, any>, hitId: number, tenant?: string) {
+    return enqueueNotificationJob(pool, {
+      type: STRAPI_GEOFENCE_SMS_JOB,
+      provider: `sms-${smsProviderName() ?? 'unconfigured'}`,
+      idempotencyKey: `strapi-geofence-hit:${hitId}:sms`,
+      payload: {
+        hitId,
+        userId: context.user.id,
+        locale: template.locale ?? null,
+        from: this.senderIdFor(tenant),
+        body: this.render(template, context)
+      }
+    });
+  },
+
+  // Notification worker handler for STRAPI_GEOFENCE_SMS_JOB; records the status on the hit metadata
+  async deliver(job: NotificationJob) {
+    const { hitId, userId, from, body, locale = null } = job.payload;
+    const sender = getSmsSender();
+    const { encoding, segments } = smsSegments(body);
+    const delivery: SmsDelivery = {
+      sent: false,
+      status: 'failed',
+      from,
+      encoding,
+      segments,
+      provider: sender.name,
+      locale,
+      attempt: job.attempts,
+      at: new Date().toISOString()
+    };
+
+    const to = await this.resolveRecipient(userId);
+    if (!to) {
+      delivery.status = 'no_recipient';
+      delivery.error = `no phone number for user ${userId}`;
+    } else if (await this.isOptedOut(to)) {
+      delivery.to = to;
+      delivery.status = 'opted_out';
+      delivery.error = 'recipient opted out';
+    } else {
+      delivery.to = to;
+      const result = await sender.send({ to, from, body });
+      delivery.sent = result.success;
+      delivery.status = result.success ? 'sent' : 'failed';
+      delivery.messageId = result.messageId;
+      delivery.statusCode = result.statusCode;
+      delivery.error = result.error;
+    }
+
+    await strapi.plugin('geofences').service('geofenceEvaluation').recordHitDelivery(hitId, 'sms', delivery);
+
+    if (delivery.sent) {
+      return { ok: true as const, result: delivery };
+    }
+    strapi.log.warn(`SMS notification not delivered to user ${userId}: ${delivery.error}`, {
+      spec_id: 'F-003',
+      hit_id: hitId,
+      attempt: job.attempts
+    });
+    return {
+      ok: false as const,
+      error: delivery.error ?? 'SMS delivery failed',
+      permanent: delivery.status === 'no_recipient' || delivery.status === 'opted_out',
+      result: delivery
+    };
+  }
+});
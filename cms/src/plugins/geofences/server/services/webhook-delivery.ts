@@ -0,0 +1,132 @@
+import { Strapi } from '@strapi/strapi';
+import { randomUUID } from 'crypto';
+import { pool } from '../../../../../../server/src/db.js';
+import { NotificationJob, enqueueNotificationJob } from '../../../../../../server/src/notification-queue.js';
+import { sendWebhook } from '../../../../../../server/src/webhooks.js';
+
+// Notification queue job type for webhook notification templates
+export const STRAPI_GEOFENCE_WEBHOOK_JOB = 'strapi-geofence-webhook';
+
+interface WebhookEnqueueOptions {
+  hitId?: number;
+  eventId?: string; // kept on redelivery so receivers can deduplicate
+  redelivery?: boolean;
+}
+
+export default ({ strapi }: { strapi: Strapi }) => ({
+  // Queue a signed POST of `body` to the template's webhook_url; retries follow the notification queue backoff
+  async enqueue(template: any, body: Record<string, unknown>, options: WebhookEnqueueOptions = {}) {
+    const eventId = options.eventId ?? randomUUID();
+    const idempotencyKey = options.redelivery
+      ? `strapi-webhook-redelivery:${eventId}:${randomUUID()}`
+      : `strapi-geofence-hit:${options.hitId ?? eventId}:webhook`;
+
+    return enqueueNotificationJob(pool, {
+      type: STRAPI_GEOFENCE_WEBHOOK_JOB,
+      provider: 'webhook',
+      idempotencyKey,
+      maxAttempts: template.webhook_max_attempts ?? undefined,
+      payload: {
+        templateId: template.id,
+        hitId: options.hitId ?? null,
+        eventId,
+        redelivery: options.redelivery ?? false,
+        body: { ...body, event_id: eventId }
+      }
+    });
+  },
+
+  // Notification worker handler for STRAPI_GEOFENCE_WEBHOOK_JOB; logs every attempt
+  async deliver(job: NotificationJob) {
+    const { templateId, hitId, eventId, redelivery, body } = job.payload;
+    const template = await strapi.entityService.findOne('plugin::geofences.notification-template', templateId);
+    if (!template?.webhook_url) {
+      return { ok: false as const, error: 'template or webhook_url not found', permanent: true };
+    }
+    if (!template.webhook_secret) {
+      return { ok: false as const, error: 'webhook_secret is not set', permanent: true };
+    }
+
+    const requestBody = JSON.stringify(body);
+    const result = await sendWebhook({
+      url: template.webhook_url,
+      secret: template.webhook_secret,
+      eventId,
+      body: requestBody,
+      timeoutMs: template.webhook_timeout_ms ?? undefined
+    });
+
+    await strapi.entityService.create('plugin::geofences.webhook-delivery', {
+      data: {
+        notification_template: templateId,
+        geofence_hit: hitId,
+        event_id: eventId,
+        url: template.webhook_url,
+        attempt: job.attempts,
+        redelivery,
+        success: result.sent,
+        status_code: result.statusCode ?? null,
+        latency_ms: result.latencyMs,
+        error: result.error ?? null,
+        request_body: body,
+        response_body: result.responseBody ?? null,
+        attempted_at: new Date(result.timestamp * 1000)
+      }
+    });
+
+    if (hitId && !redelivery) {
+      await strapi.plugin('geofences').service('geofenceEvaluation').updateHitNotificationSent(hitId, result);
+    }
+
+    if (result.sent) {
+      return { ok: true as const, result };
+    }
+    strapi.log.warn(`Webhook delivery to ${template.webhook_url} failed: ${result.error}`, {
+      spec_id: 'F-003',
+      template_id: templateId,
+      event_id: eventId,
+      attempt: job.attempts,
+      status_code: result.statusCode
+    });
+    return { ok: false as const, error: result.error ?? 'webhook delivery failed', permanent: result.permanent, result };
+  },
+
+  // Send a logged delivery again with the same event id and body, newly signed
+  async redeliver(deliveryId: number) {
+    const delivery: any = await strapi.entityService.findOne('plugin::geofences.webhook-delivery', deliveryId, {
+      populate: ['notification_template', 'geofence_hit']
+    });
+    if (!delivery) return null;
+    if (!delivery.notification_template) {
+      throw new Error('The notification template of this delivery no longer exists');
+    }
+
+    const { event_id: _eventId, ...body } = delivery.request_body ?? {};
+    const jobId = await this.enqueue(delivery.notification_template, body, {
+      hitId: delivery.geofence_hit?.id,
+      eventId: delivery.event_id,
+      redelivery: true
+    });
+
+    strapi.log.info(`Webhook redelivery queued for event ${delivery.event_id}`, {
+      spec_id: 'F-003',
+      delivery_id: deliveryId,
+      job_id: jobId
+    });
+    return { jobId, eventId: delivery.event_id };
+  },
+
+  async find(params: any = {}) {
+    return strapi.entityService.findMany('plugin::geofences.webhook-delivery', {
+      sort: { attempted_at: 'desc' },
+      ...params,
+      populate: { notification_template: { fields: ['name', 'webhook_url'] } }
+    });
+  },
+
+  async findOne(id: number) {
+    return strapi.entityService.findOne('plugin::geofences.webhook-delivery', id, {
+      populate: { notification_template: { fields: ['name', 'webhook_url'] }, geofence_hit: true }
+    });
+  }
+});
@@ -0,0 +1,91 @@
+import { vi } from 'vitest';
+import { setupStrapi, cleanupStrapi } from '../../../../test/helpers/strapi';
+
+describe('Geofences email notifications', () => {
+  let email;
+  let recordHitDelivery;
+
+  const job = (payload) => ({
+    id: 'job-1',
+    type: 'strapi-geofence-email',
+    provider: 'smtp',
+    idempotencyKey: `strapi-geofence-hit:${payload.hitId}:email`,
+    payload,
+    attempts: 1,
+    maxAttempts: 5,
+    geofenceHitId: null
+  });
+  const message = { subject: 'Welcome', text: 'Hi', html: '<p>Hi</p>' };
+
+  beforeAll(async () => {
+    await setupStrapi();
+    email = global.strapi.plugin('geofences').service('email');
+  });
+
+  afterAll(async () => {
+    await cleanupStrapi();
+  });
+
+  beforeEach(() => {
+    recordHitDelivery = vi
+      .spyOn(global.strapi.plugin('geofences').service('geofenceEvaluation'), 'recordHitDelivery')
+      .mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('renders the subject, text and escaped HTML paragraphs', () => {
+    const rendered = email.render(
+      { title: 'Welcome to {{geofence.name}}', email_template: 'Hi {{user.id}},\n\nSee you at {{geofence.name}}.' },
+      { user: { id: 'ann' }, geofence: { name: 'Fish & <Chips>' } }
+    );
+
+    expect(rendered).toEqual({
+      subject: 'Welcome to Fish & <Chips>',
+      text: 'Hi ann,\n\nSee you at Fish & <Chips>.',
+      html: '<p>Hi ann,</p>\n<p>See you at Fish &amp; &lt;Chips&gt;.</p>'
+    });
+  });
+
+  test('sends to the resolved address and records the delivery on the hit', async () => {
+    vi.spyOn(email, 'resolveRecipient').mockResolvedValue('ann@example.com');
+    const send = vi.spyOn(email, 'send').mockResolvedValue({ messageId: '<m-1@example.com>', response: '250 OK' });
+
+    const outcome = await email.deliver(job({ hitId: 7, userId: 'ann', locale: 'de', message }));
+
+    expect(send).toHaveBeenCalledWith({ to: 'ann@example.com', ...message });
+    expect(outcome).toMatchObject({ ok: true });
+    expect(recordHitDelivery).toHaveBeenCalledWith(7, 'email', expect.objectContaining({
+      sent: true,
+      status: 'sent',
+      to: 'ann@example.com',
+      messageId: '<m-1@example.com>',
+      response: '250 OK',
+      locale: 'de',
+      attempt: 1
+    }));
+  });
+
+  test('fails for good without an address', async () => {
+    vi.spyOn(email, 'resolveRecipient').mockResolvedValue(null);
+    const send = vi.spyOn(email, 'send');
+
+    const outcome = await email.deliver(job({ hitId: 8, userId: 'bob', message }));
+
+    expect(send).not.toHaveBeenCalled();
+    expect(outcome).toMatchObject({ ok: false, permanent: true, error: 'no email address for user bob' });
+    expect(recordHitDelivery).toHaveBeenCalledWith(8, 'email', expect.objectContaining({ sent: false, status: 'no_recipient' }));
+  });
+
+  test('leaves SMTP errors to be retried', async () => {
+    vi.spyOn(email, 'resolveRecipient').mockResolvedValue('ann@example.com');
+    vi.spyOn(email, 'send').mockRejectedValue(new Error('connect ECONNREFUSED 127.0.0.1:1025'));
+
+    const outcome = await email.deliver(job({ hitId: 9, userId: 'ann', message }));
+
+    expect(outcome).toMatchObject({ ok: false, permanent: false, error: 'connect ECONNREFUSED 127.0.0.1:1025' });
+    expect(recordHitDelivery).toHaveBeenCalledWith(9, 'email', expect.objectContaining({ status: 'failed', to: 'ann@example.com' }));
+  });
+});
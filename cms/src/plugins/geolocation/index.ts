@@ -1,3 +1,5 @@
+import { poolConfigError } from '../../../../server/src/db.js';
+import { pushConfigError } from '../../../../server/src/push-providers.js';
 import cronTasks from './server/cron-tasks';
 import server from './server';
 
@@ -7,13 +9,24 @@ export default {
   },
 
   bootstrap({ strapi }) {
+    // The catch-up evaluation and notification worker use the server's database
+    const poolError = poolConfigError();
+    if (poolError) {
+      throw new Error(`Geolocation plugin: ${poolError}; set DATABASE_URL (and DATABASE_SSL) to the server's Postgres, see cms/.env.example`);
+    }
+    // Queued pushes need a sender; fail here rather than on every job
+    const pushError = pushConfigError();
+    if (pushError) {
+      throw new Error(`Geolocation plugin: ${pushError}; see cms/.env.example`);
+    }
+
     // Start cron tasks when Strapi boots up
     cronTasks.start(strapi);
   },
 
-  destroy({ strapi }) {
-    // Cleanup when Strapi shuts down
-    cronTasks.stop(strapi);
+  async destroy({ strapi }) {
+    // Cleanup when Strapi shuts down; waits for notifications being sent
+    await cronTasks.stop(strapi);
   },
 
   server,
@@ -1,4 +1,33 @@
+import { MAX_BULK_EVENTS } from '../../../../../server/src/event-upsert.js';
+
 export default {
-  default: {},
-  validator() {},
-};
\ No newline at end of file
+  default: {
+    // Cache-Control max-age for vector tiles served by /events/tiles/:z/:x/:y.mvt
+    tileCacheMaxAgeSeconds: 60,
+    // How often expired events are moved to events_archive; 0 disables the purge job
+    eventPurgeIntervalMinutes: 15,
+    // Rows archived per transaction by the purge job
+    eventPurgeBatchSize: 1000,
+    // Rows per createBulk call when importing files through /events/import
+    importChunkSize: 500,
+    // Run a notification queue worker in this Strapi process
+    notificationWorkerEnabled: true,
+  },
+  validator(config) {
+    if (config.tileCacheMaxAgeSeconds !== undefined && !(Number.isInteger(config.tileCacheMaxAgeSeconds) && config.tileCacheMaxAgeSeconds >= 0)) {
+      throw new Error('tileCacheMaxAgeSeconds must be a non-negative integer');
+    }
+    if (config.eventPurgeIntervalMinutes !== undefined && !(Number.isInteger(config.eventPurgeIntervalMinutes) && config.eventPurgeIntervalMinutes >= 0)) {
+      throw new Error('eventPurgeIntervalMinutes must be a non-negative integer');
+    }
+    if (config.eventPurgeBatchSize !== undefined && !(Number.isInteger(config.eventPurgeBatchSize) && config.eventPurgeBatchSize > 0)) {
+      throw new Error('eventPurgeBatchSize must be a positive integer');
+    }
+    if (config.importChunkSize !== undefined && !(Number.isInteger(config.importChunkSize) && config.importChunkSize > 0 && config.importChunkSize <= MAX_BULK_EVENTS)) {
+      throw new Error(`importChunkSize must be an integer between 1 and ${MAX_BULK_EVENTS}`);
+    }
+    if (config.notificationWorkerEnabled !== undefined && typeof config.notificationWorkerEnabled !== 'boolean') {
+      throw new Error('notificationWorkerEnabled must be a boolean');
+    }
+  },
+};
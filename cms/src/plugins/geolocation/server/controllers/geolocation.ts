@@ -1,21 +1,113 @@
+import { createHash } from 'crypto';
+import { unlink } from 'fs/promises';
 import { factories } from '@strapi/strapi';
+import { EventListQuerySchema } from '../../../../../../server/src/event-pagination.js';
+import { GEOJSON_MEDIA_TYPE, FeatureCollectionOptions, toEventFeatureCollection, wantsGeoJson } from '../../../../../../server/src/geojson.js';
+import { PolygonGeometrySchema, PolygonSearchSchema } from '../../../../../../server/src/polygon.js';
+import { EventValidityWindowSchema, VALIDITY_WINDOW_CONSTRAINT, validityWindowError } from '../../../../../../server/src/event-validity.js';
+import { DryRunFlagSchema, MAX_BULK_EVENTS } from '../../../../../../server/src/event-upsert.js';
+import { IMPORT_FORMATS, ImportFormatError, detectImportFormat } from '../services/event-import';
+import { EXPORT_FORMATS, EXPORT_MEDIA_TYPES } from '../services/export';
+
+// Respond with event rows, or an RFC 7946 FeatureCollection when the client asks for GeoJSON
+function respondWithEvents(ctx, rows, options?: FeatureCollectionOptions) {
+  if (wantsGeoJson(ctx.query.format, ctx.get('accept'))) {
+    ctx.body = toEventFeatureCollection(rows, options);
+    ctx.type = GEOJSON_MEDIA_TYPE;
+    return;
+  }
+  ctx.body = rows;
+}
+
+// `includeExpired=true` turns off the default filter to currently valid events
+function parseIncludeExpired(value) {
+  return value === 'true' || value === '1';
+}
+
+// Error message for an invalid starts_at/expires_at pair in a request body, or null
+function checkValidityWindow(body) {
+  const parsed = EventValidityWindowSchema.safeParse(body);
+  if (!parsed.success) {
+    return 'starts_at and expires_at must be ISO 8601 timestamps with offset, or null';
+  }
+  return validityWindowError(parsed.data.starts_at, parsed.data.expires_at);
+}
+
+/**
+ * Parse the filters shared by the export endpoints: bbox (`w,s,e,n`), polygon
+ * (GeoJSON text), payload, since/until and sinceHours. Returns `{ error }` for
+ * invalid input.
+ */
+async function parseExportFilters(strapi, query) {
+  const filters: any = { payload: query.payload, since: query.since, until: query.until };
+
+  if (query.bbox !== undefined) {
+    const [w, s, e, n] = String(query.bbox).split(',').map(Number);
+    const valid = [w, s, e, n].every(v => !isNaN(v)) && Math.abs(w) <= 180 && Math.abs(e) <= 180 && Math.abs(s) <= 90 && Math.abs(n) <= 90;
+    if (!valid) {
+      return { error: 'bbox must be w,s,e,n in degrees' };
+    }
+    filters.bbox = { w, s, e, n };
+  }
+
+  if (query.polygon !== undefined) {
+    let geometry;
+    try {
+      geometry = JSON.parse(query.polygon);
+    } catch {
+      return { error: 'polygon must be GeoJSON text' };
+    }
+    const parsed = PolygonGeometrySchema.safeParse(geometry);
+    if (!parsed.success) {
+      return { error: parsed.error.issues.map(issue => issue.message).join('; ') };
+    }
+    const reason = await strapi.plugin('geolocation').service('geolocation').validatePolygon(parsed.data);
+    if (reason) {
+      return { error: `Invalid polygon: ${reason}` };
+    }
+    filters.polygon = parsed.data;
+  }
+
+  if (query.sinceHours !== undefined) {
+    filters.sinceHours = parseInt(query.sinceHours);
+    if (isNaN(filters.sinceHours) || filters.sinceHours <= 0 || filters.sinceHours > 24 * 365) {
+      return { error: 'Invalid sinceHours' };
+    }
+  }
+  if ((filters.since && isNaN(Date.parse(filters.since))) || (filters.until && isNaN(Date.parse(filters.until)))) {
+    return { error: 'since and until must be ISO 8601 timestamps' };
+  }
+
+  return { filters };
+}
+
+// Stream an export as a download named `<name>-<timestamp>.<ext>`
+function sendExport(ctx, stream, name: string, format: string) {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  ctx.set('Content-Disposition', `attachment; filename="${name}-${timestamp}.${format}"`);
+  ctx.type = EXPORT_MEDIA_TYPES[format];
+  ctx.body = stream;
+}
 
 export default factories.createCoreController('plugin::geolocation.event', ({ strapi }) => ({
   
   async findMany(ctx) {
-    const { query } = ctx;
-    
-    // Validate query parameters similar to Express endpoint
-    const limit = Math.min(parseInt(query.limit) || 100, 1000);
-    const sinceHours = query.sinceHours ? parseInt(query.sinceHours) : undefined;
-    const payload = query.payload;
+    // Validate query parameters with the contract shared with the Express endpoint
+    const parsed = EventListQuerySchema.safeParse(ctx.query);
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid query parameters', parsed.error.flatten());
+    }
 
     try {
       const result = await strapi
         .plugin('geolocation')
         .service('geolocation')
-        .findMany({ limit, sinceHours, payload });
+        .findMany(parsed.data);
 
+      if (wantsGeoJson(ctx.query.format, ctx.get('accept'))) {
+        const { data, ...members } = result;
+        return respondWithEvents(ctx, data, { members });
+      }
       ctx.body = result;
     } catch (error) {
       ctx.throw(500, error.message);
@@ -30,6 +122,7 @@ export default factories.createCoreController('plugin::geolocation.event', ({ st
     const lon = parseFloat(query.lon);
     const meters = parseFloat(query.meters);
     const payload = query.payload;
+    const includeExpired = parseIncludeExpired(query.includeExpired);
 
     if (isNaN(lat) || lat < -90 || lat > 90) {
       return ctx.badRequest('Invalid latitude');
@@ -45,9 +138,9 @@ export default factories.createCoreController('plugin::geolocation.event', ({ st
       const result = await strapi
         .plugin('geolocation')
         .service('geolocation')
-        .findByRadius({ lat, lon, meters, payload });
+        .findByRadius({ lat, lon, meters, payload, includeExpired });
 
-      ctx.body = result;
+      respondWithEvents(ctx, result, { distanceColumn: 'meters' });
     } catch (error) {
       ctx.throw(500, error.message);
     }
@@ -60,6 +153,7 @@ export default factories.createCoreController('plugin::geolocation.event', ({ st
     const lon = parseFloat(query.lon);
     const limit = Math.min(parseInt(query.limit) || 20, 500);
     const payload = query.payload;
+    const includeExpired = parseIncludeExpired(query.includeExpired);
 
     if (isNaN(lat) || lat < -90 || lat > 90) {
       return ctx.badRequest('Invalid latitude');
@@ -72,41 +166,83 @@ export default factories.createCoreController('plugin::geolocation.event', ({ st
       const result = await strapi
         .plugin('geolocation')
         .service('geolocation')
-        .findNearest({ lat, lon, limit, payload });
+        .findNearest({ lat, lon, limit, payload, includeExpired });
 
-      ctx.body = result;
+      respondWithEvents(ctx, result, { distanceColumn: 'dist' });
     } catch (error) {
       ctx.throw(500, error.message);
     }
   },
 
   async findByPolygon(ctx) {
-    const { body } = ctx.request;
+    // Structure (type, closed rings, vertex limit, buffer) is checked with the shared schema
+    const parsed = PolygonSearchSchema.safeParse(ctx.request.body ?? {});
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid polygon', parsed.error.flatten());
+    }
+
+    try {
+      const service = strapi.plugin('geolocation').service('geolocation');
+
+      const reason = await service.validatePolygon(parsed.data.polygon);
+      if (reason) {
+        return ctx.badRequest('Invalid polygon', { reason });
+      }
+
+      const result = await service.findByPolygon(parsed.data);
+
+      respondWithEvents(ctx, result);
+    } catch (error) {
+      ctx.throw(500, error.message);
+    }
+  },
+
+  async findByBbox(ctx) {
+    const { query } = ctx;
     
-    if (!body.polygon) {
-      return ctx.badRequest('Polygon is required');
+    const w = parseFloat(query.w);
+    const s = parseFloat(query.s);
+    const e = parseFloat(query.e);
+    const n = parseFloat(query.n);
+    const payload = query.payload;
+    const includeExpired = parseIncludeExpired(query.includeExpired);
+
+    if (isNaN(w) || w < -180 || w > 180) {
+      return ctx.badRequest('Invalid west longitude');
+    }
+    if (isNaN(s) || s < -90 || s > 90) {
+      return ctx.badRequest('Invalid south latitude');
+    }
+    if (isNaN(e) || e < -180 || e > 180) {
+      return ctx.badRequest('Invalid east longitude');
+    }
+    if (isNaN(n) || n < -90 || n > 90) {
+      return ctx.badRequest('Invalid north latitude');
     }
 
     try {
       const result = await strapi
         .plugin('geolocation')
         .service('geolocation')
-        .findByPolygon({ polygon: body.polygon, payload: body.payload });
+        .findByBbox({ w, s, e, n, payload, includeExpired });
 
-      ctx.body = result;
+      respondWithEvents(ctx, result);
     } catch (error) {
       ctx.throw(500, error.message);
     }
   },
 
-  async findByBbox(ctx) {
+  async findClusters(ctx) {
     const { query } = ctx;
     
     const w = parseFloat(query.w);
     const s = parseFloat(query.s);
     const e = parseFloat(query.e);
     const n = parseFloat(query.n);
+    const zoom = Number(query.zoom);
+    const gridSize = query.gridSize !== undefined ? Number(query.gridSize) : 64;
     const payload = query.payload;
+    const includeExpired = parseIncludeExpired(query.includeExpired);
 
     if (isNaN(w) || w < -180 || w > 180) {
       return ctx.badRequest('Invalid west longitude');
@@ -120,12 +256,18 @@ export default factories.createCoreController('plugin::geolocation.event', ({ st
     if (isNaN(n) || n < -90 || n > 90) {
       return ctx.badRequest('Invalid north latitude');
     }
+    if (!Number.isInteger(zoom) || zoom < 0 || zoom > 24) {
+      return ctx.badRequest('Invalid zoom level');
+    }
+    if (!Number.isInteger(gridSize) || gridSize < 8 || gridSize > 256) {
+      return ctx.badRequest('gridSize must be an integer between 8 and 256 pixels');
+    }
 
     try {
       const result = await strapi
         .plugin('geolocation')
         .service('geolocation')
-        .findByBbox({ w, s, e, n, payload });
+        .findClusters({ w, s, e, n, zoom, gridSize, payload, includeExpired });
 
       ctx.body = result;
     } catch (error) {
@@ -133,6 +275,104 @@ export default factories.createCoreController('plugin::geolocation.event', ({ st
     }
   },
 
+  async findTile(ctx) {
+    const { query } = ctx;
+
+    const z = Number(ctx.params.z);
+    const x = Number(ctx.params.x);
+    const y = Number(ctx.params.y);
+    const sinceHours = query.sinceHours ? parseInt(query.sinceHours) : undefined;
+    const { since, until, payload } = query;
+    const includeExpired = parseIncludeExpired(query.includeExpired);
+
+    if (!Number.isInteger(z) || z < 0 || z > 24) {
+      return ctx.badRequest('Invalid zoom level');
+    }
+    const tileCount = 2 ** z;
+    if (!Number.isInteger(x) || x < 0 || x >= tileCount || !Number.isInteger(y) || y < 0 || y >= tileCount) {
+      return ctx.badRequest('Invalid tile coordinates');
+    }
+    if (sinceHours !== undefined && (isNaN(sinceHours) || sinceHours <= 0 || sinceHours > 24 * 365)) {
+      return ctx.badRequest('Invalid sinceHours');
+    }
+    if ((since && isNaN(Date.parse(since))) || (until && isNaN(Date.parse(until)))) {
+      return ctx.badRequest('since and until must be ISO 8601 timestamps');
+    }
+
+    try {
+      const tile: Buffer = await strapi
+        .plugin('geolocation')
+        .service('geolocation')
+        .findTile({ z, x, y, payload, since, until, sinceHours, includeExpired });
+
+      const maxAge = strapi.plugin('geolocation').config('tileCacheMaxAgeSeconds') ?? 60;
+      ctx.set('Cache-Control', `public, max-age=${maxAge}`);
+      ctx.set('Vary', 'Accept-Encoding');
+      ctx.etag = createHash('sha1').update(tile).digest('hex');
+
+      if (tile.length === 0) {
+        ctx.status = 204;
+        return;
+      }
+
+      ctx.status = 200;
+      if (ctx.fresh) {
+        ctx.status = 304;
+        return;
+      }
+      ctx.type = 'application/vnd.mapbox-vector-tile';
+      ctx.body = tile;
+    } catch (error) {
+      ctx.throw(500, error.message);
+    }
+  },
+
+  async exportEvents(ctx) {
+    const format = ctx.query.format ?? 'ndjson';
+    if (!EXPORT_FORMATS.includes(format)) {
+      return ctx.badRequest(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    try {
+      const { filters, error } = await parseExportFilters(strapi, ctx.query);
+      if (error) {
+        return ctx.badRequest(error);
+      }
+      filters.includeExpired = parseIncludeExpired(ctx.query.includeExpired);
+
+      const stream = strapi.plugin('geolocation').service('export').exportEvents(filters, format);
+      sendExport(ctx, stream, 'events', format);
+    } catch (error) {
+      ctx.throw(500, error.message);
+    }
+  },
+
+  async exportGeofenceHits(ctx) {
+    const format = ctx.query.format ?? 'ndjson';
+    if (!EXPORT_FORMATS.includes(format)) {
+      return ctx.badRequest(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    const { geofenceId, userId } = ctx.query;
+    if (geofenceId !== undefined && !uuidRegex.test(geofenceId)) {
+      return ctx.badRequest('Invalid geofenceId format');
+    }
+
+    try {
+      const { filters, error } = await parseExportFilters(strapi, ctx.query);
+      if (error) {
+        return ctx.badRequest(error);
+      }
+      Object.assign(filters, { geofenceId, userId });
+
+      const stream = strapi.plugin('geolocation').service('export').exportGeofenceHits(filters, format);
+      sendExport(ctx, stream, 'geofence-hits', format);
+    } catch (error) {
+      ctx.throw(500, error.message);
+    }
+  },
+
   async findOne(ctx) {
     const { id } = ctx.params;
     
@@ -175,6 +415,10 @@ export default factories.createCoreController('plugin::geolocation.event', ({ st
     if (isNaN(lon) || lon < -180 || lon > 180) {
       return ctx.badRequest('Invalid longitude');
     }
+    const windowError = checkValidityWindow(body);
+    if (windowError) {
+      return ctx.badRequest(windowError);
+    }
 
     try {
       const result = await strapi
@@ -185,7 +429,9 @@ export default factories.createCoreController('plugin::geolocation.event', ({ st
           title: body.title,
           payload: body.payload,
           lon,
-          lat
+          lat,
+          starts_at: body.starts_at,
+          expires_at: body.expires_at
         });
 
       ctx.status = 201;
@@ -198,37 +444,85 @@ export default factories.createCoreController('plugin::geolocation.event', ({ st
   async createBulk(ctx) {
     const { body } = ctx.request;
     
-    if (!Array.isArray(body) || body.length === 0 || body.length > 1000) {
-      return ctx.badRequest('Body must be an array of 1-1000 items');
+    if (!Array.isArray(body) || body.length === 0 || body.length > MAX_BULK_EVENTS) {
+      return ctx.badRequest(`Body must be an array of 1-${MAX_BULK_EVENTS} items`);
+    }
+    const dryRun = DryRunFlagSchema.safeParse(ctx.query.dryRun);
+    if (!dryRun.success) {
+      return ctx.badRequest('dryRun must be true or false');
     }
 
-    // Validate each item
-    for (const item of body) {
-      if (!item.title || typeof item.title !== 'string' || item.title.length < 1 || item.title.length > 200) {
-        return ctx.badRequest('Each item must have a title (1-200 characters)');
-      }
-      
-      const lon = parseFloat(item.lon);
-      const lat = parseFloat(item.lat);
-      
-      if (isNaN(lat) || lat < -90 || lat > 90) {
-        return ctx.badRequest('Each item must have valid latitude');
+    // Items are validated one by one; invalid items come back with status "error"
+    try {
+      const result = await strapi
+        .plugin('geolocation')
+        .service('geolocation')
+        .createBulk(body, { dryRun: !!dryRun.data });
+
+      ctx.status = result.created > 0 && !result.dryRun ? 201 : 200;
+      ctx.body = result;
+    } catch (error) {
+      ctx.throw(500, error.message);
+    }
+  },
+
+  async importEvents(ctx) {
+    // Multipart upload: `file` plus optional `format`, `mapping` (JSON), `source` and `delimiter` fields
+    const upload = ctx.request.files?.file;
+    const file = Array.isArray(upload) ? upload[0] : upload;
+    if (!file) {
+      return ctx.badRequest('A file upload named "file" is required');
+    }
+
+    const fields = ctx.request.body ?? {};
+    const format = fields.format ?? detectImportFormat(file.originalFilename ?? file.name, file.mimetype ?? file.type);
+    if (!IMPORT_FORMATS.includes(format)) {
+      return ctx.badRequest(`format must be one of ${IMPORT_FORMATS.join(', ')}`);
+    }
+
+    let mapping = {};
+    if (fields.mapping) {
+      try {
+        mapping = typeof fields.mapping === 'string' ? JSON.parse(fields.mapping) : fields.mapping;
+      } catch {
+        return ctx.badRequest('mapping must be a JSON object');
       }
-      if (isNaN(lon) || lon < -180 || lon > 180) {
-        return ctx.badRequest('Each item must have valid longitude');
+      if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+        return ctx.badRequest('mapping must be a JSON object');
       }
     }
 
+    const delimiter = fields.delimiter === 'tab' ? '\t' : fields.delimiter ?? ',';
+    if (![',', ';', '\t', '|'].includes(delimiter)) {
+      return ctx.badRequest('delimiter must be one of , ; | or tab');
+    }
+    const dryRun = DryRunFlagSchema.safeParse(ctx.query.dryRun);
+    if (!dryRun.success) {
+      return ctx.badRequest('dryRun must be true or false');
+    }
+
     try {
       const result = await strapi
         .plugin('geolocation')
-        .service('geolocation')
-        .createBulk(body);
+        .service('event-import')
+        .importFile({
+          filepath: file.filepath ?? file.path,
+          format,
+          mapping,
+          source: fields.source || undefined,
+          delimiter,
+          dryRun: !!dryRun.data
+        });
 
-      ctx.status = 201;
       ctx.body = result;
     } catch (error) {
+      // The file as a whole is unreadable; rows already imported are kept
+      if (error instanceof ImportFormatError) {
+        return ctx.badRequest(error.message);
+      }
       ctx.throw(500, error.message);
+    } finally {
+      await unlink(file.filepath ?? file.path).catch(() => {});
     }
   },
 
@@ -256,6 +550,11 @@ export default factories.createCoreController('plugin::geolocation.event', ({ st
       }
     }
 
+    const windowError = checkValidityWindow(body);
+    if (windowError) {
+      return ctx.badRequest(windowError);
+    }
+
     try {
       const result = await strapi
         .plugin('geolocation')
@@ -270,6 +569,9 @@ export default factories.createCoreController('plugin::geolocation.event', ({ st
       if (error.message === 'No fields to update') {
         return ctx.badRequest('No fields to update');
       }
+      if (error.constraint === VALIDITY_WINDOW_CONSTRAINT) {
+        return ctx.badRequest('starts_at must be before expires_at');
+      }
       ctx.throw(500, error.message);
     }
   },
@@ -1,4 +1,6 @@
+import { GEOFENCE_PUSH_JOB, geofencePushHandler } from '../../../../../server/src/geofence-notifications.js';
 import { GeofenceEvaluationService } from '../../../../../server/src/geofence-service.js';
+import { NotificationJobHandler, NotificationWorker } from '../../../../../server/src/notification-queue.js';
 
 let cronInterval: NodeJS.Timeout | null = null;
 let isRunning = false;
@@ -8,6 +10,17 @@ let lastError: string | null = null;
 
 const CRON_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
 
+// Expired event purge, scheduled from the plugin config (eventPurgeIntervalMinutes)
+let purgeInterval: NodeJS.Timeout | null = null;
+let isPurging = false;
+let lastPurgeTime: Date | null = null;
+let lastPurgeStatus: 'success' | 'error' | 'running' = 'success';
+let lastPurgeError: string | null = null;
+let lastPurgeArchived = 0;
+
+// Sends queued catch-up push notifications, enabled by the plugin config (notificationWorkerEnabled)
+let notificationWorker: NotificationWorker | null = null;
+
 export default {
   start(strapi: any) {
     if (cronInterval) {
@@ -26,14 +39,38 @@ export default {
     }, CRON_INTERVAL_MS);
 
     strapi.log.info(`[Geolocation Plugin] Cron task scheduled every ${CRON_INTERVAL_MS / 1000} seconds`);
+
+    const purgeIntervalMs = getPurgeIntervalMs(strapi);
+    if (purgeIntervalMs > 0) {
+      runEventPurge(strapi);
+      purgeInterval = setInterval(() => {
+        runEventPurge(strapi);
+      }, purgeIntervalMs);
+      strapi.log.info(`[Geolocation Plugin] Expired event purge scheduled every ${purgeIntervalMs / 1000} seconds`);
+    }
+
+    if (strapi.plugin('geolocation').config('notificationWorkerEnabled') ?? true) {
+      notificationWorker = createNotificationWorker(strapi);
+      notificationWorker.start();
+    }
   },
 
-  stop(strapi: any) {
+  async stop(strapi: any) {
     if (cronInterval) {
       clearInterval(cronInterval);
       cronInterval = null;
       strapi.log.info('[Geolocation Plugin] Cron task stopped');
     }
+    if (purgeInterval) {
+      clearInterval(purgeInterval);
+      purgeInterval = null;
+      strapi.log.info('[Geolocation Plugin] Expired event purge stopped');
+    }
+    if (notificationWorker) {
+      const worker = notificationWorker;
+      notificationWorker = null;
+      await worker.stop();
+    }
   },
 
   getStatus() {
@@ -43,7 +80,19 @@ export default {
       lastRunStatus,
       lastError,
       intervalMs: CRON_INTERVAL_MS,
-      nextRunTime: lastRunTime ? new Date(lastRunTime.getTime() + CRON_INTERVAL_MS) : null
+      nextRunTime: lastRunTime ? new Date(lastRunTime.getTime() + CRON_INTERVAL_MS) : null,
+      eventPurge: {
+        enabled: purgeInterval !== null,
+        isRunning: isPurging,
+        lastRunTime: lastPurgeTime,
+        lastRunStatus: lastPurgeStatus,
+        lastError: lastPurgeError,
+        lastArchived: lastPurgeArchived
+      },
+      notificationWorker: {
+        enabled: notificationWorker !== null,
+        ...(notificationWorker?.stats ?? {})
+      }
     };
   },
 
@@ -88,4 +137,54 @@ async function runGeofenceEvaluation(strapi: any) {
   } finally {
     isRunning = false;
   }
-}
\ No newline at end of file
+}
+
+function getPurgeIntervalMs(strapi: any): number {
+  const minutes = strapi.plugin('geolocation').config('eventPurgeIntervalMinutes') ?? 15;
+  return minutes * 60 * 1000;
+}
+
+async function runEventPurge(strapi: any) {
+  if (isPurging) {
+    strapi.log.warn('[Geolocation Plugin] Expired event purge already running, skipping');
+    return;
+  }
+
+  isPurging = true;
+  lastPurgeTime = new Date();
+  lastPurgeStatus = 'running';
+  lastPurgeError = null;
+
+  try {
+    const { archived } = await strapi
+      .plugin('geolocation')
+      .service('geolocation')
+      .archiveExpired({ batchSize: strapi.plugin('geolocation').config('eventPurgeBatchSize') ?? 1000 });
+
+    lastPurgeArchived = archived;
+    lastPurgeStatus = 'success';
+    if (archived > 0) {
+      strapi.log.info(`[Geolocation Plugin] Archived ${archived} expired event(s)`);
+    }
+  } catch (error) {
+    lastPurgeStatus = 'error';
+    lastPurgeError = error instanceof Error ? error.message : String(error);
+    strapi.log.error('[Geolocation Plugin] Expired event purge failed:', error);
+  } finally {
+    isPurging = false;
+  }
+}
+
+function createNotificationWorker(strapi: any): NotificationWorker {
+  // Catch-up hits; the geofences plugin runs its own worker for its jobs
+  const handlers: Record<string, NotificationJobHandler> = {
+    [GEOFENCE_PUSH_JOB]: geofencePushHandler
+  };
+
+  return new NotificationWorker({
+    handlers,
+    log: (message, metadata = {}, level = 'info') => {
+      strapi.log[level](`[Geolocation Plugin] ${message}`, metadata);
+    }
+  });
+}
@@ -40,6 +40,30 @@ export default [
       policies: [],
     },
   },
+  {
+    method: 'GET',
+    path: '/events/clusters',
+    handler: 'geolocation.findClusters',
+    config: {
+      policies: [],
+    },
+  },
+  {
+    method: 'GET',
+    path: '/events/tiles/:z/:x/:y.mvt',
+    handler: 'geolocation.findTile',
+    config: {
+      policies: [],
+    },
+  },
+  {
+    method: 'GET',
+    path: '/events/export',
+    handler: 'geolocation.exportEvents',
+    config: {
+      policies: [],
+    },
+  },
   {
     method: 'GET',
     path: '/events/:id',
@@ -64,6 +88,14 @@ export default [
       policies: [],
     },
   },
+  {
+    method: 'POST',
+    path: '/events/import',
+    handler: 'geolocation.importEvents',
+    config: {
+      policies: [],
+    },
+  },
   {
     method: 'PATCH',
     path: '/events/:id',
@@ -80,6 +112,14 @@ export default [
       policies: [],
     },
   },
+  {
+    method: 'GET',
+    path: '/geofence-hits/export',
+    handler: 'geolocation.exportGeofenceHits',
+    config: {
+      policies: [],
+    },
+  },
   // Geofence evaluation endpoints
   {
     method: 'POST',
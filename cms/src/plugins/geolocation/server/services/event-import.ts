@@ -0,0 +1,468 @@
+import { createReadStream } from 'fs';
+
+/**
+ * Event import from uploaded CSV, GeoJSON and KML files.
+ *
+ * Files are read as a stream and parsed record by record, so datasets larger
+ * than the 1000-item `/events/bulk` limit never sit in memory at once. Records
+ * are mapped to bulk items, validated and upserted in chunks through the
+ * geolocation service's `createBulk`.
+ */
+
+export type ImportFormat = 'csv' | 'geojson' | 'kml';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'geojson', 'kml'];
+
+// Per-row errors returned in the response; the counts always cover every row
+const MAX_REPORTED_ERRORS = 1000;
+
+const DEFAULT_COLUMNS = {
+  lat: ['lat', 'latitude', 'y'],
+  lon: ['lon', 'lng', 'long', 'longitude', 'x'],
+  title: ['title', 'name']
+};
+
+export interface ImportMapping {
+  lat?: string;
+  lon?: string;
+  title?: string;
+  /** Column names copied into the payload object, or one column holding JSON */
+  payload?: string | string[];
+  externalId?: string;
+  starts_at?: string;
+  expires_at?: string;
+}
+
+/**
+ * The file as a whole cannot be parsed (as opposed to a single bad row)
+ */
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+interface ImportRecord {
+  row: number;
+  properties: Record<string, unknown>;
+  coordinates?: [number, number];
+  error?: string;
+}
+
+interface ImportRowError {
+  row: number;
+  error: string;
+  externalId?: string;
+}
+
+/**
+ * Guess the format from the file name or MIME type of an upload
+ */
+export function detectImportFormat(filename = '', mimetype = ''): ImportFormat | null {
+  const name = filename.toLowerCase();
+  if (name.endsWith('.csv') || mimetype === 'text/csv') return 'csv';
+  if (name.endsWith('.geojson') || name.endsWith('.json') || mimetype === 'application/geo+json') return 'geojson';
+  if (name.endsWith('.kml') || mimetype === 'application/vnd.google-earth.kml+xml') return 'kml';
+  return null;
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain delimiters, newlines and "" escapes
+ */
+async function* parseCsvRecords(chunks: AsyncIterable<string>, delimiter: string): AsyncGenerator<string[]> {
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  let quoteSeen = false; // a quote inside a quoted field: either an escape or the closing quote
+  let fieldStarted = false;
+
+  for await (const chunk of chunks) {
+    for (const c of chunk) {
+      if (inQuotes) {
+        if (quoteSeen) {
+          quoteSeen = false;
+          if (c === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        } else if (c === '"') {
+          quoteSeen = true;
+          continue;
+        } else {
+          field += c;
+          continue;
+        }
+      }
+
+      if (c === '"' && !fieldStarted) {
+        inQuotes = true;
+        fieldStarted = true;
+      } else if (c === delimiter) {
+        record.push(field);
+        field = '';
+        fieldStarted = false;
+      } else if (c === '\n') {
+        record.push(field);
+        yield record;
+        record = [];
+        field = '';
+        fieldStarted = false;
+      } else if (c !== '\r') {
+        field += c;
+        fieldStarted = true;
+      }
+    }
+  }
+
+  if (inQuotes && !quoteSeen) {
+    throw new ImportFormatError('CSV ends inside a quoted field');
+  }
+  if (fieldStarted || record.length > 0) {
+    record.push(field);
+    yield record;
+  }
+}
+
+async function* readCsv(chunks: AsyncIterable<string>, delimiter: string): AsyncGenerator<ImportRecord> {
+  let header: string[] | null = null;
+  let row = 0;
+
+  for await (const values of parseCsvRecords(chunks, delimiter)) {
+    if (values.length === 1 && values[0].trim() === '') continue;
+    if (!header) {
+      header = values.map((name, i) => (i === 0 ? name.replace(/^\uFEFF/, '') : name).trim());
+      continue;
+    }
+    row++;
+    if (values.length !== header.length) {
+      yield { row, properties: {}, error: `Expected ${header.length} columns, found ${values.length}` };
+      continue;
+    }
+    const properties: Record<string, unknown> = {};
+    header.forEach((name, i) => {
+      properties[name] = values[i];
+    });
+    yield { row, properties };
+  }
+}
+
+function toGeoJsonRecord(row: number, feature: any): ImportRecord {
+  if (!feature || feature.type !== 'Feature') {
+    return { row, properties: {}, error: 'Expected a GeoJSON Feature' };
+  }
+  const properties = { ...(feature.properties ?? {}) };
+  const { geometry } = feature;
+  if (!geometry) {
+    return { row, properties };
+  }
+  if (geometry.type !== 'Point' || !Array.isArray(geometry.coordinates)) {
+    return { row, properties, error: `Unsupported geometry type ${geometry.type}; events are points` };
+  }
+  const [lon, lat] = geometry.coordinates;
+  return { row, properties, coordinates: [lon, lat] };
+}
+
+/**
+ * Features of a FeatureCollection are cut out of the stream one at a time by
+ * tracking JSON nesting, so only the current feature is buffered. A file of
+ * newline-delimited Features (GeoJSONSeq) is read the same way.
+ */
+async function* readGeoJson(chunks: AsyncIterable<string>): AsyncGenerator<ImportRecord> {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let keyBuffer = '';
+  let lastString = '';
+  let currentKey = '';
+  let featuresDepth = -1; // nesting depth inside the root "features" array
+  let feature = '';
+  let root: string | null = '';
+  let row = 0;
+
+  for await (const chunk of chunks) {
+    for (const c of chunk) {
+      if (root !== null && depth > 0) root += c;
+      if (feature) feature += c;
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (c === '\\') {
+          escaped = true;
+        } else if (c === '"') {
+          inString = false;
+          lastString = keyBuffer;
+        } else if (depth === 1 && keyBuffer.length < 64) {
+          keyBuffer += c;
+        }
+        continue;
+      }
+
+      switch (c) {
+        case '"':
+          inString = true;
+          keyBuffer = '';
+          break;
+        case ':':
+          if (depth === 1) currentKey = lastString;
+          break;
+        case '{':
+        case '[':
+          if (depth === 0) {
+            root = c;
+          } else if (c === '{' && depth === featuresDepth && !feature) {
+            feature = c;
+          } else if (c === '[' && depth === 1 && currentKey === 'features') {
+            featuresDepth = 2;
+            root = null;
+          }
+          depth++;
+          break;
+        case '}':
+        case ']':
+          depth--;
+          if (feature && depth === featuresDepth) {
+            row++;
+            let record: ImportRecord;
+            try {
+              record = toGeoJsonRecord(row, JSON.parse(feature));
+            } catch {
+              record = { row, properties: {}, error: 'Malformed GeoJSON feature' };
+            }
+            feature = '';
+            yield record;
+          } else if (depth === 0) {
+            if (root !== null) {
+              let parsed;
+              try {
+                parsed = JSON.parse(root);
+              } catch {
+                throw new ImportFormatError('Malformed GeoJSON');
+              }
+              if (parsed.type === 'Feature') {
+                row++;
+                yield toGeoJsonRecord(row, parsed);
+              } else if (parsed.type !== 'FeatureCollection') {
+                throw new ImportFormatError(`Expected a FeatureCollection or Features, found ${parsed.type}`);
+              }
+            }
+            featuresDepth = -1;
+            currentKey = '';
+            root = '';
+          }
+          break;
+        case ',':
+          if (depth === 1) currentKey = '';
+          break;
+      }
+    }
+  }
+
+  if (depth !== 0 || inString) {
+    throw new ImportFormatError('GeoJSON ends unexpectedly');
+  }
+}
+
+function decodeXmlText(text: string): string {
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/.exec(text);
+  if (cdata) return cdata[1];
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function toKmlRecord(row: number, placemark: string): ImportRecord {
+  const properties: Record<string, unknown> = {};
+  const name = /<name>([\s\S]*?)<\/name>/.exec(placemark);
+  if (name) properties.name = decodeXmlText(name[1]);
+  const description = /<description>([\s\S]*?)<\/description>/.exec(placemark);
+  if (description) properties.description = decodeXmlText(description[1]);
+
+  for (const [, key, value] of placemark.matchAll(/<Data\s+name="([^"]*)"[^>]*>[\s\S]*?<value>([\s\S]*?)<\/value>/g)) {
+    properties[key] = decodeXmlText(value);
+  }
+  for (const [, key, value] of placemark.matchAll(/<SimpleData\s+name="([^"]*)"[^>]*>([\s\S]*?)<\/SimpleData>/g)) {
+    properties[key] = decodeXmlText(value);
+  }
+
+  const point = /<Point[\s>][\s\S]*?<coordinates>([\s\S]*?)<\/coordinates>/.exec(placemark);
+  if (!point) {
+    return { row, properties, error: 'Only Point placemarks are supported' };
+  }
+  const [lon, lat] = point[1].trim().split(',').map(Number);
+  return { row, properties, coordinates: [lon, lat] };
+}
+
+/**
+ * Placemarks are cut out of the stream one at a time; nothing outside the
+ * current placemark is kept.
+ */
+async function* readKml(chunks: AsyncIterable<string>): AsyncGenerator<ImportRecord> {
+  const open = /<Placemark[\s>]/g;
+  const close = /<\/Placemark>/g;
+  let buffer = '';
+  let row = 0;
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    while (true) {
+      open.lastIndex = 0;
+      const start = open.exec(buffer);
+      if (!start) {
+        // Keep enough of the tail to match a tag split across chunks
+        buffer = buffer.slice(-'<Placemark'.length);
+        break;
+      }
+      close.lastIndex = start.index;
+      const end = close.exec(buffer);
+      if (!end) {
+        buffer = buffer.slice(start.index);
+        break;
+      }
+      row++;
+      yield toKmlRecord(row, buffer.slice(start.index, end.index + end[0].length));
+      buffer = buffer.slice(end.index + end[0].length);
+    }
+  }
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return typeof value === 'number' ? value : Number(String(value).trim());
+}
+
+function optionalText(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return String(value);
+}
+
+function pickColumn(properties: Record<string, unknown>, mapped: string | undefined, defaults: string[]): string | undefined {
+  if (mapped) return mapped;
+  return defaults.find(name => properties[name] !== undefined);
+}
+
+/**
+ * Map a parsed record to a `/events/bulk` item. Throws on values the bulk
+ * schema cannot describe (e.g. a payload column that is not JSON).
+ */
+function toBulkItem(record: ImportRecord, mapping: ImportMapping, source?: string) {
+  const { properties } = record;
+  const latColumn = pickColumn(properties, mapping.lat, record.coordinates ? [] : DEFAULT_COLUMNS.lat);
+  const lonColumn = pickColumn(properties, mapping.lon, record.coordinates ? [] : DEFAULT_COLUMNS.lon);
+  const titleColumn = pickColumn(properties, mapping.title, DEFAULT_COLUMNS.title);
+  const used = new Set([latColumn, lonColumn, titleColumn, mapping.externalId, mapping.starts_at, mapping.expires_at]);
+
+  let payload: unknown;
+  if (Array.isArray(mapping.payload)) {
+    payload = Object.fromEntries(mapping.payload.filter(name => name in properties).map(name => [name, properties[name]]));
+  } else if (mapping.payload) {
+    const raw = properties[mapping.payload];
+    try {
+      payload = typeof raw === 'string' ? (raw === '' ? {} : JSON.parse(raw)) : raw ?? {};
+    } catch {
+      throw new Error(`Column ${mapping.payload} does not contain valid JSON`);
+    }
+  } else {
+    // Default: every column not mapped to another field
+    payload = Object.fromEntries(Object.entries(properties).filter(([name]) => !used.has(name)));
+  }
+
+  const item: Record<string, unknown> = {
+    title: titleColumn ? optionalText(properties[titleColumn]) : undefined,
+    payload,
+    lon: lonColumn ? toNumber(properties[lonColumn]) : record.coordinates?.[0],
+    lat: latColumn ? toNumber(properties[latColumn]) : record.coordinates?.[1],
+    starts_at: mapping.starts_at ? optionalText(properties[mapping.starts_at]) : undefined,
+    expires_at: mapping.expires_at ? optionalText(properties[mapping.expires_at]) : undefined
+  };
+  if (source) item.source = source;
+  if (mapping.externalId) item.externalId = optionalText(properties[mapping.externalId]);
+  return item;
+}
+
+export default ({ strapi }) => ({
+  /**
+   * Import an uploaded file. Returns row counts by outcome and the per-row
+   * errors (up to MAX_REPORTED_ERRORS).
+   */
+  async importFile({ filepath, format, mapping = {}, source, delimiter = ',', dryRun = false }: {
+    filepath: string;
+    format: ImportFormat;
+    mapping?: ImportMapping;
+    source?: string;
+    delimiter?: string;
+    dryRun?: boolean;
+  }) {
+    const chunkSize = strapi.plugin('geolocation').config('importChunkSize') ?? 500;
+    const geolocation = strapi.plugin('geolocation').service('geolocation');
+    const summary = {
+      format,
+      dryRun,
+      rows: 0,
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      failed: 0,
+      errors: [] as ImportRowError[],
+      errorsTruncated: false
+    };
+
+    const reportError = (error: ImportRowError) => {
+      summary.failed++;
+      if (summary.errors.length < MAX_REPORTED_ERRORS) {
+        summary.errors.push(error);
+      } else {
+        summary.errorsTruncated = true;
+      }
+    };
+
+    let items: Record<string, unknown>[] = [];
+    let rows: number[] = [];
+    const flush = async () => {
+      if (items.length === 0) return;
+      const result = await geolocation.createBulk(items, { dryRun });
+      summary.created += result.created;
+      summary.updated += result.updated;
+      summary.unchanged += result.unchanged;
+      for (const r of result.results) {
+        if (r.status === 'error') {
+          reportError({ row: rows[r.index], error: r.error, ...(r.externalId !== undefined && { externalId: r.externalId }) });
+        }
+      }
+      items = [];
+      rows = [];
+    };
+
+    const chunks = createReadStream(filepath, { encoding: 'utf8' }) as AsyncIterable<string>;
+    const records = format === 'csv' ? readCsv(chunks, delimiter) : format === 'geojson' ? readGeoJson(chunks) : readKml(chunks);
+
+    for await (const record of records) {
+      summary.rows++;
+      if (record.error) {
+        reportError({ row: record.row, error: record.error });
+        continue;
+      }
+      try {
+        items.push(toBulkItem(record, mapping, source));
+        rows.push(record.row);
+      } catch (error) {
+        reportError({ row: record.row, error: error instanceof Error ? error.message : String(error) });
+      }
+      if (items.length >= chunkSize) {
+        await flush();
+      }
+    }
+    await flush();
+
+    strapi.log.info(`[Geolocation Plugin] Imported ${format} file: ${summary.rows} rows, ${summary.created} created, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.failed} failed${dryRun ? ' (dry run)' : ''}`);
+    return summary;
+  }
+});
@@ -0,0 +1,182 @@
+import { Readable } from 'stream';
+import { EventRow, GEOJSON_MEDIA_TYPE, toEventFeature } from '../../../../../../server/src/geojson.js';
+import { currentEventCondition } from '../../../../../../server/src/event-validity.js';
+
+/**
+ * Streaming export of events and geofence hits.
+ *
+ * Rows are read through a server-side Postgres cursor in a read-only
+ * transaction and serialized as they arrive, so an export never holds more
+ * than one fetch of rows in memory regardless of its size.
+ */
+
+export type ExportFormat = 'csv' | 'geojson' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'geojson', 'ndjson'];
+
+export const EXPORT_MEDIA_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  geojson: GEOJSON_MEDIA_TYPE,
+  ndjson: 'application/x-ndjson'
+};
+
+// Rows per FETCH from the cursor
+const FETCH_SIZE = 1000;
+
+const EVENT_CSV_COLUMNS = ['id', 'title', 'lon', 'lat', 'created_at', 'starts_at', 'expires_at', 'source', 'external_id', 'payload'];
+
+const HIT_CSV_COLUMNS = [
+  'id', 'geofence_id', 'geofence_name', 'user_id', 'device_id', 'detection_type', 'distance_meters',
+  'lon', 'lat', 'accuracy_meters', 'notification_sent', 'notification_suppressed', 'suppression_reason',
+  'created_at', 'metadata'
+];
+
+export interface ExportFilters {
+  bbox?: { w: number; s: number; e: number; n: number };
+  polygon?: unknown; // validated GeoJSON Polygon or MultiPolygon
+  payload?: string;
+  since?: string;
+  until?: string;
+  sinceHours?: number;
+  includeExpired?: boolean;
+  geofenceId?: string;
+  userId?: string;
+}
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: unknown[]): string {
+  return values.map(csvValue).join(',') + '\r\n';
+}
+
+/**
+ * Spatial and time filters shared by both exports. `geog` and `createdAt` name
+ * the columns to filter on.
+ */
+function applyExportFilters(query, filters: ExportFilters, geog: string, createdAt: string) {
+  const { bbox, polygon, since, until, sinceHours } = filters;
+  if (bbox) {
+    query.whereRaw(`ST_Intersects(${geog}, ST_SetSRID(ST_MakeEnvelope(?, ?, ?, ?, 4326), 4326)::geography)`, [bbox.w, bbox.s, bbox.e, bbox.n]);
+  }
+  if (polygon) {
+    query.whereRaw(`ST_Intersects(${geog}, ST_SetSRID(ST_GeomFromGeoJSON(?), 4326)::geography)`, [JSON.stringify(polygon)]);
+  }
+  if (sinceHours) {
+    query.whereRaw(`${createdAt} >= now() - (?::int || ' hours')::interval`, [sinceHours]);
+  }
+  if (since) {
+    query.whereRaw(`${createdAt} >= ?::timestamptz`, [since]);
+  }
+  if (until) {
+    query.whereRaw(`${createdAt} < ?::timestamptz`, [until]);
+  }
+  return query;
+}
+
+export default ({ strapi }) => {
+  /**
+   * Yield the rows of `query` through a cursor. Breaking out of the loop (e.g.
+   * the client disconnects) rolls the transaction back and closes the cursor.
+   */
+  async function* cursorRows(query) {
+    const knex = strapi.db.connection;
+    const { sql, bindings } = query.toSQL();
+    const trx = await knex.transaction({ readOnly: true });
+    try {
+      await trx.raw(`DECLARE export_cursor NO SCROLL CURSOR FOR ${sql}`, bindings);
+      while (true) {
+        const { rows } = await trx.raw(`FETCH ${FETCH_SIZE} FROM export_cursor`);
+        if (rows.length === 0) break;
+        yield* rows;
+      }
+      await trx.commit();
+    } finally {
+      if (!trx.isCompleted()) await trx.rollback().catch(() => {});
+    }
+  }
+
+  async function* serialize(rows: AsyncIterable<any>, format: ExportFormat, csvColumns: string[], toFeature: (row) => object) {
+    if (format === 'csv') {
+      yield csvLine(csvColumns);
+      for await (const row of rows) yield csvLine(csvColumns.map(column => row[column]));
+    } else if (format === 'ndjson') {
+      for await (const row of rows) {
+        const { geojson, ...rest } = row;
+        yield JSON.stringify(rest) + '\n';
+      }
+    } else {
+      yield '{"type":"FeatureCollection","features":[';
+      let first = true;
+      for await (const row of rows) {
+        yield (first ? '\n' : ',\n') + JSON.stringify(toFeature(row));
+        first = false;
+      }
+      yield '\n]}\n';
+    }
+  }
+
+  return {
+    exportEvents(filters: ExportFilters, format: ExportFormat): Readable {
+      const knex = strapi.db.connection;
+      const query = knex('events')
+        .select('id', 'title', 'payload', 'created_at', 'starts_at', 'expires_at', 'source', 'external_id')
+        .select(knex.raw('ST_X(geog::geometry) AS lon, ST_Y(geog::geometry) AS lat'))
+        .select(knex.raw('ST_AsGeoJSON(geog::geometry) AS geojson'))
+        .orderBy([{ column: 'created_at' }, { column: 'id' }]);
+
+      applyExportFilters(query, filters, 'geog', 'created_at');
+      if (filters.payload) {
+        query.whereRaw('payload @> ?::jsonb', [filters.payload]);
+      }
+      if (!filters.includeExpired) {
+        query.whereRaw(currentEventCondition());
+      }
+
+      const toFeature = (row: EventRow) => {
+        const feature = toEventFeature(row);
+        Object.assign(feature.properties, { source: row.source, external_id: row.external_id });
+        return feature;
+      };
+      return Readable.from(serialize(cursorRows(query), format, EVENT_CSV_COLUMNS, toFeature));
+    },
+
+    exportGeofenceHits(filters: ExportFilters, format: ExportFormat): Readable {
+      const knex = strapi.db.connection;
+      const query = knex('geofence_hits as h')
+        .join('user_locations as l', 'l.id', 'h.user_location_id')
+        .leftJoin('geofences as g', 'g.id', 'h.geofence_id')
+        .select(
+          'h.id', 'h.geofence_id', 'g.name as geofence_name', 'h.user_id', 'h.device_id', 'h.detection_type',
+          'h.distance_meters', 'l.accuracy_meters', 'h.notification_sent', 'h.notification_suppressed',
+          'h.suppression_reason', 'h.metadata', 'h.created_at'
+        )
+        .select(knex.raw('ST_X(l.geog::geometry) AS lon, ST_Y(l.geog::geometry) AS lat'))
+        .orderBy([{ column: 'h.created_at' }, { column: 'h.id' }]);
+
+      applyExportFilters(query, filters, 'l.geog', 'h.created_at');
+      if (filters.payload) {
+        query.whereRaw('h.metadata @> ?::jsonb', [filters.payload]);
+      }
+      if (filters.geofenceId) {
+        query.where('h.geofence_id', filters.geofenceId);
+      }
+      if (filters.userId) {
+        query.where('h.user_id', filters.userId);
+      }
+
+      const toFeature = ({ id, lon, lat, ...properties }) => ({
+        type: 'Feature',
+        id,
+        geometry: { type: 'Point', coordinates: [lon, lat] },
+        properties
+      });
+      return Readable.from(serialize(cursorRows(query), format, HIT_CSV_COLUMNS, toFeature));
+    }
+  };
+};
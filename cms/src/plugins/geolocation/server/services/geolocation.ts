@@ -1,35 +1,74 @@
 import { factories } from '@strapi/strapi';
+import { EventListQuery, toEventPage } from '../../../../../../server/src/event-pagination.js';
+import { buildPolygonValidityQuery } from '../../../../../../server/src/polygon.js';
+import { currentEventCondition } from '../../../../../../server/src/event-validity.js';
+import { buildBulkUpsert, prepareBulkItems, toBulkUpsertResult } from '../../../../../../server/src/event-upsert.js';
+
+const WEB_MERCATOR_WORLD_METERS = 40075016.68557849;
+const WEB_MERCATOR_MAX_LATITUDE = 85.0511287798066;
+
+// Longitude/latitude box of a Web Mercator tile grown by `margin` tiles on each
+// side, clamped to the world: compared in plain degrees, it holds at any zoom
+function tileBounds(z: number, x: number, y: number, margin: number): [number, number, number, number] {
+  const tiles = 2 ** z;
+  const clamp = (value: number) => Math.min(Math.max(value, 0), tiles);
+  const lon = (tx: number) => (clamp(tx) / tiles) * 360 - 180;
+  const lat = (ty: number) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * clamp(ty)) / tiles))) * 180) / Math.PI;
+  return [lon(x - margin), lat(y + 1 + margin), lon(x + 1 + margin), lat(y - margin)];
+}
 
 export default factories.createCoreService('plugin::geolocation.event', ({ strapi }) => ({
   
-  async findMany(params = {}) {
-    const { limit = 100, sinceHours, payload } = params;
+  // `params` is EventListQuerySchema's output, as parsed by the controller
+  async findMany(params: EventListQuery) {
+    const { limit, cursor, since, until, sinceHours, payload, count } = params;
     
-    // Build the query parameters similar to the Express endpoint
+    // Same filters, ordering and page shape as the Express endpoint (see event-pagination)
     const knex = strapi.db.connection;
-    let query = knex('events')
-      .select('id', 'title', 'payload', 'created_at')
+    const applyFilters = (query) => {
+      if (sinceHours) {
+        query.whereRaw(`created_at >= now() - (?::int || ' hours')::interval`, [sinceHours]);
+      }
+      if (since) {
+        query.whereRaw('created_at >= ?::timestamptz', [since]);
+      }
+      if (until) {
+        query.whereRaw('created_at < ?::timestamptz', [until]);
+      }
+      if (payload) {
+        query.whereRaw('payload @> ?::jsonb', [payload]);
+      }
+      return query;
+    };
+
+    const query = applyFilters(knex('events'))
+      .select('id', 'title', 'payload', 'created_at', 'starts_at', 'expires_at')
+      .addSelect(knex.raw('created_at::text AS cursor_created_at'))
       .addSelect(knex.raw('ST_AsGeoJSON(geog::geometry) AS geojson'))
-      .orderBy('created_at', 'desc')
-      .limit(limit);
+      .orderBy([{ column: 'created_at', order: 'desc' }, { column: 'id', order: 'desc' }])
+      .limit(limit + 1);
 
-    if (sinceHours) {
-      query = query.whereRaw(`created_at >= now() - (?::int || ' hours')::interval`, [sinceHours]);
+    if (cursor) {
+      query.whereRaw('(created_at, id) < (?::timestamptz, ?::uuid)', [cursor.createdAt, cursor.id]);
     }
 
-    if (payload) {
-      query = query.whereRaw('payload @> ?::jsonb', [payload]);
+    const rows = await query;
+    let totalCount;
+    if (count) {
+      const result = await applyFilters(knex('events')).count({ count: '*' }).first();
+      totalCount = Number(result.count);
     }
 
-    return await query;
+    return toEventPage(rows, limit, totalCount);
   },
 
   async findByRadius(params) {
-    const { lat, lon, meters, payload } = params;
+    const { lat, lon, meters, payload, includeExpired } = params;
     
     const knex = strapi.db.connection;
     let query = knex('events')
-      .select('id', 'title', 'payload', 'created_at')
+      .select('id', 'title', 'payload', 'created_at', 'starts_at', 'expires_at')
+      .addSelect(knex.raw('ST_AsGeoJSON(geog::geometry) AS geojson'))
       .addSelect(knex.raw('ST_Distance(geog, ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography) AS meters', [lon, lat]))
       .whereRaw('ST_DWithin(geog, ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography, ?)', [lon, lat, meters])
       .orderByRaw('ST_Distance(geog, ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography) ASC', [lon, lat])
@@ -38,16 +77,20 @@ export default factories.createCoreService('plugin::geolocation.event', ({ strap
     if (payload) {
       query = query.whereRaw('payload @> ?::jsonb', [payload]);
     }
+    if (!includeExpired) {
+      query = query.whereRaw(currentEventCondition());
+    }
 
     return await query;
   },
 
   async findNearest(params) {
-    const { lat, lon, limit = 20, payload } = params;
+    const { lat, lon, limit = 20, payload, includeExpired } = params;
     
     const knex = strapi.db.connection;
     let query = knex('events')
-      .select('id', 'title', 'payload', 'created_at')
+      .select('id', 'title', 'payload', 'created_at', 'starts_at', 'expires_at')
+      .addSelect(knex.raw('ST_AsGeoJSON(geog::geometry) AS geojson'))
       .addSelect(knex.raw('geog <-> ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography AS dist', [lon, lat]))
       .orderByRaw('geog <-> ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography ASC', [lon, lat])
       .limit(limit);
@@ -55,46 +98,159 @@ export default factories.createCoreService('plugin::geolocation.event', ({ strap
     if (payload) {
       query = query.whereRaw('payload @> ?::jsonb', [payload]);
     }
+    if (!includeExpired) {
+      query = query.whereRaw(currentEventCondition());
+    }
 
     return await query;
   },
 
+  /**
+   * Check polygon topology in PostGIS. Returns the ST_IsValidReason text when
+   * the polygon is invalid (e.g. self-intersecting), null when it is valid.
+   */
+  async validatePolygon(polygon) {
+    const knex = strapi.db.connection;
+    const { sql, params } = buildPolygonValidityQuery(polygon, () => '?');
+    const result = await knex.raw(sql, params);
+    const [row] = result.rows;
+    return row.valid ? null : row.reason;
+  },
+
   async findByPolygon(params) {
-    const { polygon, payload } = params;
+    const { polygon, payload, buffer, includeExpired } = params;
     
     const knex = strapi.db.connection;
+    const area = buffer
+      ? knex.raw('ST_Buffer(ST_SetSRID(ST_GeomFromGeoJSON(?), 4326)::geography, ?)', [JSON.stringify(polygon), buffer])
+      : knex.raw('ST_SetSRID(ST_GeomFromGeoJSON(?), 4326)::geography', [JSON.stringify(polygon)]);
     let query = knex('events')
-      .select('id', 'title', 'payload', 'created_at')
-      .whereRaw('ST_Intersects(geog, ST_SetSRID(ST_GeomFromGeoJSON(?), 4326)::geography)', [JSON.stringify(polygon)])
+      .select('id', 'title', 'payload', 'created_at', 'starts_at', 'expires_at')
+      .addSelect(knex.raw('ST_AsGeoJSON(geog::geometry) AS geojson'))
+      .whereRaw('ST_Intersects(geog, ?)', [area])
       .limit(500);
 
     if (payload) {
       query = query.whereRaw('payload @> ?::jsonb', [payload]);
     }
+    if (!includeExpired) {
+      query = query.whereRaw(currentEventCondition());
+    }
 
     return await query;
   },
 
   async findByBbox(params) {
-    const { w, s, e, n, payload } = params;
+    const { w, s, e, n, payload, includeExpired } = params;
     
     const knex = strapi.db.connection;
     let query = knex('events')
-      .select('id', 'title', 'payload', 'created_at')
+      .select('id', 'title', 'payload', 'created_at', 'starts_at', 'expires_at')
+      .addSelect(knex.raw('ST_AsGeoJSON(geog::geometry) AS geojson'))
       .whereRaw('ST_Intersects(geog, ST_SetSRID(ST_MakeEnvelope(?, ?, ?, ?, 4326), 4326)::geography)', [w, s, e, n])
       .limit(1000);
 
     if (payload) {
       query = query.whereRaw('payload @> ?::jsonb', [payload]);
     }
+    if (!includeExpired) {
+      query = query.whereRaw(currentEventCondition());
+    }
 
     return await query;
   },
 
+  async findClusters(params) {
+    const { w, s, e, n, zoom, gridSize = 64, payload, includeExpired } = params;
+
+    // Grid cell edge in Web Mercator meters: `gridSize` pixels of a 256px tile at this zoom
+    const cellMeters = (WEB_MERCATOR_WORLD_METERS / 2 ** zoom) * (gridSize / 256);
+    const south = Math.max(s, -WEB_MERCATOR_MAX_LATITUDE);
+    const north = Math.min(n, WEB_MERCATOR_MAX_LATITUDE);
+
+    const knex = strapi.db.connection;
+    const events = knex('events')
+      .select(knex.raw('geog::geometry AS geom'))
+      .select(knex.raw('ST_SnapToGrid(ST_Transform(geog::geometry, 3857), ?) AS cell', [cellMeters]))
+      // In planar degrees (idx_events_geom): as geography, a viewport 180° wide or more degenerates
+      .whereRaw('geog::geometry && ST_MakeEnvelope(?, ?, ?, ?, 4326)', [w, south, e, north]);
+
+    if (payload) {
+      events.whereRaw('payload @> ?::jsonb', [payload]);
+    }
+    if (!includeExpired) {
+      events.whereRaw(currentEventCondition());
+    }
+
+    const rows = await knex
+      .from(events.as('e'))
+      .select(knex.raw('count(*)::int AS count'))
+      .select(knex.raw('ST_X(ST_Centroid(ST_Collect(geom))) AS longitude'))
+      .select(knex.raw('ST_Y(ST_Centroid(ST_Collect(geom))) AS latitude'))
+      .select(knex.raw('ST_XMin(ST_Extent(geom)) AS w, ST_YMin(ST_Extent(geom)) AS s'))
+      .select(knex.raw('ST_XMax(ST_Extent(geom)) AS e, ST_YMax(ST_Extent(geom)) AS n'))
+      .groupBy('cell')
+      .orderBy('count', 'desc');
+
+    return rows.map(row => ({
+      count: row.count,
+      longitude: row.longitude,
+      latitude: row.latitude,
+      bounds: [row.w, row.s, row.e, row.n]
+    }));
+  },
+
+  async findTile(params) {
+    const { z, x, y, payload, since, until, sinceHours, includeExpired } = params;
+
+    // Tile envelope in Web Mercator, expanded by the 64px buffer so symbols
+    // near the edge are not clipped between neighbouring tiles. Events are
+    // selected in planar degrees (idx_events_geom): as geography, a low-zoom
+    // tile's edges would be great circles, or wrap the wrong way round
+    const knex = strapi.db.connection;
+    const bindings: any[] = [z, x, y, ...tileBounds(z, x, y, 64 / 4096)];
+    const where: string[] = ['e.geog::geometry && ST_MakeEnvelope(?, ?, ?, ?, 4326)'];
+    if (sinceHours) {
+      where.push(`e.created_at >= now() - (?::int || ' hours')::interval`);
+      bindings.push(sinceHours);
+    }
+    if (since) {
+      where.push('e.created_at >= ?::timestamptz');
+      bindings.push(since);
+    }
+    if (until) {
+      where.push('e.created_at < ?::timestamptz');
+      bindings.push(until);
+    }
+    if (payload) {
+      where.push('e.payload @> ?::jsonb');
+      bindings.push(payload);
+    }
+    if (!includeExpired) {
+      where.push(currentEventCondition('e'));
+    }
+
+    const result = await knex.raw(`
+      WITH bounds AS (
+        SELECT ST_TileEnvelope(z, x, y) AS geom
+        FROM (SELECT ?::int AS z, ?::int AS x, ?::int AS y) t
+      ),
+      mvtgeom AS (
+        SELECT ST_AsMVTGeom(ST_Transform(e.geog::geometry, 3857), bounds.geom, 4096, 64, true) AS geom,
+               e.id::text AS id, e.title, e.payload::text AS payload, e.created_at::text AS created_at
+        FROM events e, bounds
+        WHERE ${where.join(' AND ')}
+      )
+      SELECT ST_AsMVT(mvtgeom.*, 'events', 4096, 'geom') AS tile FROM mvtgeom
+    `, bindings);
+
+    return result.rows[0]?.tile ?? Buffer.alloc(0);
+  },
+
   async findOne(id) {
     const knex = strapi.db.connection;
     const result = await knex('events')
-      .select('id', 'title', 'payload', 'created_at')
+      .select('id', 'title', 'payload', 'created_at', 'starts_at', 'expires_at', 'source', 'external_id')
       .addSelect(knex.raw('ST_AsGeoJSON(geog::geometry) AS geojson'))
       .where('id', id)
       .first();
@@ -103,7 +259,7 @@ export default factories.createCoreService('plugin::geolocation.event', ({ strap
   },
 
   async create(data) {
-    const { title, payload = {}, lon, lat, id } = data;
+    const { title, payload = {}, lon, lat, id, starts_at = null, expires_at = null } = data;
     
     const knex = strapi.db.connection;
     const result = await knex('events')
@@ -111,34 +267,52 @@ export default factories.createCoreService('plugin::geolocation.event', ({ strap
         id: id || knex.raw('gen_random_uuid()'),
         title,
         payload: JSON.stringify(payload),
-        geog: knex.raw('ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography', [lon, lat])
+        geog: knex.raw('ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography', [lon, lat]),
+        starts_at,
+        expires_at
       })
       .returning('id');
 
     return { id: result[0].id };
   },
 
-  async createBulk(items) {
+  /**
+   * Upsert events on their source/externalId pair. Returns one result per item
+   * (created, updated, unchanged or error); with `dryRun` the transaction is
+   * rolled back after computing them.
+   */
+  async createBulk(input, { dryRun = false } = {}) {
     const knex = strapi.db.connection;
-    
-    const insertData = items.map(item => ({
-      id: knex.raw('gen_random_uuid()'),
-      title: item.title,
-      payload: JSON.stringify(item.payload || {}),
-      geog: knex.raw('ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography', [item.lon, item.lat])
-    }));
+    const { items, errors } = prepareBulkItems(input);
 
-    const result = await knex('events').insert(insertData);
-    return { inserted: result.length };
+    const trx = await knex.transaction();
+    try {
+      let rows = [];
+      if (items.length > 0) {
+        const { sql, params } = buildBulkUpsert(items, () => '?');
+        rows = (await trx.raw(sql, params)).rows;
+      }
+      if (dryRun) {
+        await trx.rollback();
+      } else {
+        await trx.commit();
+      }
+      return toBulkUpsertResult(items, rows, errors, dryRun);
+    } catch (error) {
+      if (!trx.isCompleted()) await trx.rollback();
+      throw error;
+    }
   },
 
   async update(id, data) {
-    const { title, payload, lon, lat } = data;
+    const { title, payload, lon, lat, starts_at, expires_at } = data;
     const knex = strapi.db.connection;
     
     const updateData: any = {};
     if (title !== undefined) updateData.title = title;
     if (payload !== undefined) updateData.payload = JSON.stringify(payload);
+    if (starts_at !== undefined) updateData.starts_at = starts_at;
+    if (expires_at !== undefined) updateData.expires_at = expires_at;
     if (lon !== undefined && lat !== undefined) {
       updateData.geog = knex.raw('ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography', [lon, lat]);
     }
@@ -159,6 +333,44 @@ export default factories.createCoreService('plugin::geolocation.event', ({ strap
     return { id };
   },
 
+  /**
+   * Move events whose `expires_at` has passed into `events_archive`, in batches
+   * so a large backlog does not hold one long transaction. Returns the number
+   * of archived events.
+   */
+  async archiveExpired({ batchSize = 1000 } = {}) {
+    const knex = strapi.db.connection;
+    let archived = 0;
+
+    while (true) {
+      const result = await knex.raw(`
+        WITH expired AS (
+          DELETE FROM events
+          WHERE id IN (
+            SELECT id FROM events
+            WHERE expires_at <= now()
+            ORDER BY expires_at
+            LIMIT ?
+            FOR UPDATE SKIP LOCKED
+          )
+          RETURNING id, title, payload, geog, created_at, starts_at, expires_at, source, external_id
+        ),
+        inserted AS (
+          INSERT INTO events_archive (id, title, payload, geog, created_at, starts_at, expires_at, source, external_id)
+          SELECT id, title, payload, geog, created_at, starts_at, expires_at, source, external_id FROM expired
+          ON CONFLICT (id) DO NOTHING
+        )
+        SELECT count(*)::int AS count FROM expired
+      `, [batchSize]);
+
+      const { count } = result.rows[0];
+      archived += count;
+      if (count < batchSize) break;
+    }
+
+    return { archived };
+  },
+
   async delete(id) {
     const knex = strapi.db.connection;
     const result = await knex('events')
@@ -1,5 +1,9 @@
 import geolocation from './geolocation';
+import eventImport from './event-import';
+import exportService from './export';
 
 export default {
   geolocation,
+  'event-import': eventImport,
+  export: exportService,
 };
\ No newline at end of file
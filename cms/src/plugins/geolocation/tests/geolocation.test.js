@@ -84,6 +84,265 @@ describe('Geolocation Plugin', () => {
     });
   });
 
+  describe('Clustering', () => {
+    test('should group events in the bounding box into clusters', async () => {
+      const strapi = global.strapi;
+      const service = strapi.plugin('geolocation').service('geolocation');
+
+      await service.createBulk([
+        { title: 'Cluster Event 1', payload: { cluster: 'test' }, lon: -122.4194, lat: 37.7749 },
+        { title: 'Cluster Event 2', payload: { cluster: 'test' }, lon: -122.4195, lat: 37.7750 }
+      ]);
+
+      const clusters = await service.findClusters({
+        w: -122.5,
+        s: 37.7,
+        e: -122.3,
+        n: 37.8,
+        zoom: 10,
+        payload: JSON.stringify({ cluster: 'test' })
+      });
+
+      expect(Array.isArray(clusters)).toBe(true);
+      expect(clusters.reduce((sum, c) => sum + c.count, 0)).toBeGreaterThanOrEqual(2);
+      expect(clusters[0]).toHaveProperty('bounds');
+      expect(clusters[0].bounds).toHaveLength(4);
+    });
+  });
+
+  describe('World Clustering', () => {
+    test('should cluster events in a world-wide viewport', async () => {
+      const strapi = global.strapi;
+      const service = strapi.plugin('geolocation').service('geolocation');
+
+      await service.createBulk([
+        { title: 'World Event West', payload: { cluster: 'world' }, lon: -122.4194, lat: 37.7749 },
+        { title: 'World Event East', payload: { cluster: 'world' }, lon: 139.6917, lat: 35.6895 }
+      ]);
+
+      const clusters = await service.findClusters({
+        w: -180,
+        s: -85,
+        e: 180,
+        n: 85,
+        zoom: 0,
+        payload: JSON.stringify({ cluster: 'world' })
+      });
+
+      expect(clusters.reduce((sum, c) => sum + c.count, 0)).toBe(2);
+    });
+  });
+
+  describe('Polygon Search', () => {
+    test('should report why a self-intersecting polygon is invalid', async () => {
+      const strapi = global.strapi;
+      const service = strapi.plugin('geolocation').service('geolocation');
+
+      // Bow-tie: edges cross at (0.5, 0.5)
+      const reason = await service.validatePolygon({
+        type: 'Polygon',
+        coordinates: [[[0, 0], [1, 1], [1, 0], [0, 1], [0, 0]]]
+      });
+      expect(reason).toMatch(/Self-intersection/);
+    });
+
+    test('should accept a polygon crossing the antimeridian', async () => {
+      const strapi = global.strapi;
+      const service = strapi.plugin('geolocation').service('geolocation');
+
+      const polygon = {
+        type: 'Polygon',
+        coordinates: [[[170, -10], [-170, -10], [-170, 10], [170, 10], [170, -10]]]
+      };
+      expect(await service.validatePolygon(polygon)).toBeNull();
+
+      await service.create({ title: 'Dateline Event', payload: { dateline: true }, lon: 179.5, lat: 0 });
+      const results = await service.findByPolygon({ polygon, payload: JSON.stringify({ dateline: true }) });
+      expect(results.some(e => e.title === 'Dateline Event')).toBe(true);
+    });
+  });
+
+  describe('Event Expiry', () => {
+    test('should hide expired events unless includeExpired is set', async () => {
+      const strapi = global.strapi;
+      const service = strapi.plugin('geolocation').service('geolocation');
+      const payload = JSON.stringify({ expiry: 'test' });
+
+      await service.createBulk([
+        { title: 'Current Event', payload: { expiry: 'test' }, lon: 12.5683, lat: 55.6761, expires_at: new Date(Date.now() + 3600000).toISOString() },
+        { title: 'Expired Event', payload: { expiry: 'test' }, lon: 12.5683, lat: 55.6761, expires_at: new Date(Date.now() - 3600000).toISOString() },
+        { title: 'Future Event', payload: { expiry: 'test' }, lon: 12.5683, lat: 55.6761, starts_at: new Date(Date.now() + 3600000).toISOString() }
+      ]);
+
+      const current = await service.findByRadius({ lat: 55.6761, lon: 12.5683, meters: 100, payload });
+      expect(current.map(e => e.title)).toEqual(['Current Event']);
+
+      const all = await service.findByRadius({ lat: 55.6761, lon: 12.5683, meters: 100, payload, includeExpired: true });
+      expect(all).toHaveLength(3);
+    });
+
+    test('should archive expired events', async () => {
+      const strapi = global.strapi;
+      const service = strapi.plugin('geolocation').service('geolocation');
+
+      const { id } = await service.create({
+        title: 'Archive Me',
+        lon: 12.5683,
+        lat: 55.6761,
+        expires_at: new Date(Date.now() - 60000).toISOString()
+      });
+
+      const { archived } = await service.archiveExpired();
+      expect(archived).toBeGreaterThanOrEqual(1);
+      expect(await service.findOne(id)).toBeUndefined();
+
+      const row = await strapi.db.connection('events_archive').where('id', id).first();
+      expect(row.title).toBe('Archive Me');
+    });
+  });
+
+  describe('Bulk Upsert', () => {
+    test('should upsert events on source and externalId', async () => {
+      const strapi = global.strapi;
+      const service = strapi.plugin('geolocation').service('geolocation');
+      const items = [
+        { title: 'Imported 1', lon: 12.5683, lat: 55.6761, source: 'bulk-test', externalId: 'a' },
+        { title: 'Imported 2', lon: 12.5683, lat: 55.6761, source: 'bulk-test', externalId: 'b' }
+      ];
+
+      const first = await service.createBulk(items);
+      expect(first.results.map(r => r.status)).toEqual(['created', 'created']);
+
+      const dryRun = await service.createBulk([{ ...items[0], title: 'Renamed' }, items[1]], { dryRun: true });
+      expect(dryRun.results.map(r => r.status)).toEqual(['updated', 'unchanged']);
+      expect((await service.findOne(first.results[0].id)).title).toBe('Imported 1');
+
+      const second = await service.createBulk([{ ...items[0], title: 'Renamed' }, items[1], { title: '' }]);
+      expect(second.results.map(r => r.status)).toEqual(['updated', 'unchanged', 'error']);
+      expect(second.results[0].id).toBe(first.results[0].id);
+      expect(second.results[2].error).toMatch(/title/);
+    });
+  });
+
+  describe('File Import', () => {
+    test('should import CSV rows and report row errors', async () => {
+      const strapi = global.strapi;
+      const { writeFile } = await import('fs/promises');
+      const { join } = await import('path');
+      const { tmpdir } = await import('os');
+
+      const filepath = join(tmpdir(), `import-test-${Date.now()}.csv`);
+      await writeFile(filepath, 'poi_id,label,latitude,longitude,category\n1,"Cafe, Nord",55.68,12.57,food\n2,Broken,north,12.57,food\n');
+
+      const result = await strapi
+        .plugin('geolocation')
+        .service('event-import')
+        .importFile({ filepath, format: 'csv', source: 'import-test', mapping: { externalId: 'poi_id', title: 'label' } });
+
+      expect(result.rows).toBe(2);
+      expect(result.created + result.updated + result.unchanged).toBe(1);
+      expect(result.failed).toBe(1);
+      expect(result.errors[0].row).toBe(2);
+    });
+  });
+
+  describe('Export', () => {
+    test('should stream filtered events as NDJSON and CSV', async () => {
+      const strapi = global.strapi;
+      await strapi.plugin('geolocation').service('geolocation').createBulk([
+        { title: 'Export Event 1', payload: { export: 'test' }, lon: 12.5683, lat: 55.6761 },
+        { title: 'Export Event 2', payload: { export: 'test' }, lon: 12.5684, lat: 55.6762 }
+      ]);
+
+      const exporter = strapi.plugin('geolocation').service('export');
+      const filters = { payload: JSON.stringify({ export: 'test' }), bbox: { w: 12.5, s: 55.6, e: 12.6, n: 55.7 } };
+      const read = async stream => {
+        let text = '';
+        for await (const chunk of stream) text += chunk;
+        return text;
+      };
+
+      const ndjson = (await read(exporter.exportEvents(filters, 'ndjson'))).trim().split('\n').map(line => JSON.parse(line));
+      // Rows from one insert share created_at, so their order is not defined
+      expect(ndjson.map(e => e.title).sort()).toEqual(['Export Event 1', 'Export Event 2']);
+
+      const csv = (await read(exporter.exportEvents(filters, 'csv'))).trim().split('\r\n');
+      expect(csv[0]).toMatch(/^id,title,lon,lat/);
+      expect(csv).toHaveLength(3);
+    });
+  });
+
+  describe('Vector Tiles', () => {
+    test('should include events in low-zoom tiles', async () => {
+      const strapi = global.strapi;
+      const service = strapi.plugin('geolocation').service('geolocation');
+      const payload = JSON.stringify({ tile: 'test' });
+
+      await service.create({ title: 'Tile Event', payload: { tile: 'test' }, lon: 12.5683, lat: 55.6761 });
+
+      // The world tile, and at z1 only the north-eastern quarter
+      expect((await service.findTile({ z: 0, x: 0, y: 0, payload })).length).toBeGreaterThan(0);
+      expect((await service.findTile({ z: 1, x: 1, y: 0, payload })).length).toBeGreaterThan(0);
+      expect((await service.findTile({ z: 1, x: 0, y: 0, payload })).length).toBe(0);
+    });
+
+    test('should send cache headers and answer 304 for a matching ETag', async () => {
+      const strapi = global.strapi;
+      const { createServer } = await import('http');
+
+      const publicRole = await strapi.db.query('plugin::users-permissions.role').findOne({ where: { type: 'public' } });
+      await strapi.db.query('plugin::users-permissions.permission').create({
+        data: { action: 'plugin::geolocation.geolocation.findTile', role: publicRole.id }
+      });
+      await strapi.plugin('geolocation').service('geolocation').create({
+        title: 'Tile Header Event', payload: { tile: 'headers' }, lon: 12.5683, lat: 55.6761
+      });
+
+      const server = createServer(strapi.server.app.callback());
+      await new Promise(resolve => server.listen(0, resolve));
+      try {
+        const url = `http://127.0.0.1:${server.address().port}/api/geolocation/events/tiles/0/0/0.mvt?payload=${encodeURIComponent(JSON.stringify({ tile: 'headers' }))}`;
+        const first = await fetch(url);
+        expect(first.status).toBe(200);
+        expect(first.headers.get('content-type')).toBe('application/vnd.mapbox-vector-tile');
+        expect(first.headers.get('cache-control')).toMatch(/^public, max-age=\d+$/);
+        const etag = first.headers.get('etag');
+        expect(etag).toBeTruthy();
+        expect((await first.arrayBuffer()).byteLength).toBeGreaterThan(0);
+
+        const second = await fetch(url, { headers: { 'If-None-Match': etag } });
+        expect(second.status).toBe(304);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
+
+  describe('Event Listing', () => {
+    test('should page through events with a cursor', async () => {
+      const strapi = global.strapi;
+      const service = strapi.plugin('geolocation').service('geolocation');
+
+      await service.createBulk([
+        { title: 'Page Event 1', payload: { page: 'test' }, lon: 12.5683, lat: 55.6761 },
+        { title: 'Page Event 2', payload: { page: 'test' }, lon: 12.5683, lat: 55.6761 },
+        { title: 'Page Event 3', payload: { page: 'test' }, lon: 12.5683, lat: 55.6761 }
+      ]);
+
+      const payload = JSON.stringify({ page: 'test' });
+      const first = await service.findMany({ limit: 2, payload, count: true });
+      expect(first.data).toHaveLength(2);
+      expect(first.totalCount).toBeGreaterThanOrEqual(3);
+      expect(typeof first.nextCursor).toBe('string');
+
+      const { decodeEventCursor } = await import('../../../../../server/src/event-pagination.js');
+      const second = await service.findMany({ limit: 2, payload, cursor: decodeEventCursor(first.nextCursor) });
+      const firstIds = first.data.map(e => e.id);
+      expect(second.data.length).toBeGreaterThan(0);
+      expect(second.data.some(e => firstIds.includes(e.id))).toBe(false);
+    });
+  });
+
   describe('CRUD Operations', () => {
     test('should create, read, update, and delete events', async () => {
       const strapi = global.strapi;
@@ -0,0 +1,23 @@
+import { compileStrapi, createStrapi } from '@strapi/strapi';
+
+let instance;
+
+/**
+ * Load the app once per test file. Strapi registers itself as `global.strapi`.
+ * The geolocation plugin needs PostGIS, so point DATABASE_CLIENT and
+ * DATABASE_URL at a Postgres test database.
+ */
+export async function setupStrapi() {
+  if (!instance) {
+    const appContext = await compileStrapi();
+    instance = await createStrapi(appContext).load();
+    instance.server.mount();
+  }
+  return instance;
+}
+
+export async function cleanupStrapi() {
+  if (!instance) return;
+  await instance.destroy();
+  instance = undefined;
+}
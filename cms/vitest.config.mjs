@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'node',
+    include: ['src/plugins/**/tests/**/*.test.{js,ts}'],
+    // Test files share one database
+    fileParallelism: false,
+    hookTimeout: 120000,
+    testTimeout: 30000,
+  },
+});
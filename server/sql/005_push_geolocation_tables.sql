@@ -0,0 +1,145 @@
+-- Migration: Push Notification and Geolocation extensions
+-- Extends device_registrations (003) and the geofence tables (004) with the
+-- columns used for device-level location tracking and notification suppression.
+-- Tables are only altered here, never redefined, so the resulting schema does
+-- not depend on which migration created them.
+
+-- Device registrations: OS version for compatibility targeting
+ALTER TABLE device_registrations
+  ADD COLUMN IF NOT EXISTS os_version TEXT;
+
+-- User locations: device linkage and motion data from the mobile client
+ALTER TABLE user_locations
+  ADD COLUMN IF NOT EXISTS device_id TEXT,
+  ADD COLUMN IF NOT EXISTS speed_mps FLOAT, -- Speed in meters per second
+  ADD COLUMN IF NOT EXISTS heading_degrees FLOAT CHECK (heading_degrees >= 0 AND heading_degrees < 360), -- Compass heading
+  ADD COLUMN IF NOT EXISTS altitude_meters FLOAT, -- Altitude above sea level
+  ADD COLUMN IF NOT EXISTS recorded_at TIMESTAMPTZ, -- When location was recorded on the device
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT; -- For preventing duplicate location entries
+
+-- Index for device-specific location history
+CREATE INDEX IF NOT EXISTS idx_user_locations_device_recorded_at
+ON user_locations (device_id, recorded_at DESC) WHERE device_id IS NOT NULL;
+
+-- Unique index for idempotency (prevent duplicate entries)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_locations_idempotency
+ON user_locations (device_id, idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+-- Geofences: notification content and suppression settings
+ALTER TABLE geofences
+  ADD COLUMN IF NOT EXISTS notification_title TEXT,
+  ADD COLUMN IF NOT EXISTS notification_body TEXT,
+  ADD COLUMN IF NOT EXISTS notification_data JSONB DEFAULT '{}', -- Additional notification payload
+  ADD COLUMN IF NOT EXISTS created_by TEXT, -- User who created the geofence
+  ADD COLUMN IF NOT EXISTS entry_notification_enabled BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS exit_notification_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS suppression_duration_minutes INTEGER DEFAULT 60, -- Minimum time between notifications
+  ADD COLUMN IF NOT EXISTS max_daily_notifications INTEGER DEFAULT 10; -- Limit notifications per day
+
+-- Index for creator-specific queries
+CREATE INDEX IF NOT EXISTS idx_geofences_created_by
+ON geofences (created_by, is_active) WHERE created_by IS NOT NULL;
+
+-- JSONB index for notification data queries
+CREATE INDEX IF NOT EXISTS idx_geofences_notification_data_gin
+ON geofences USING GIN (notification_data);
+
+-- Geofence hits: device linkage and suppression tracking
+ALTER TABLE geofence_hits
+  ADD COLUMN IF NOT EXISTS device_id TEXT,
+  ADD COLUMN IF NOT EXISTS notification_suppressed BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS suppression_reason TEXT; -- Why notification was suppressed (rate limit, duplicate, etc.)
+
+-- Index for device-specific hit history
+CREATE INDEX IF NOT EXISTS idx_geofence_hits_device_id
+ON geofence_hits (device_id, created_at DESC) WHERE device_id IS NOT NULL;
+
+-- Index for notification status queries
+CREATE INDEX IF NOT EXISTS idx_geofence_hits_notification_status
+ON geofence_hits (notification_sent, notification_suppressed, created_at DESC);
+
+-- Index for suppression window queries
+CREATE INDEX IF NOT EXISTS idx_geofence_hits_suppression_window
+ON geofence_hits (geofence_id, user_id, created_at DESC)
+WHERE notification_sent = true OR notification_suppressed = true;
+
+-- Create helpful views for common queries
+
+-- View for active device registrations without encrypted token data
+CREATE OR REPLACE VIEW active_device_registrations AS
+SELECT
+  id,
+  user_id,
+  device_id,
+  platform,
+  app_version,
+  os_version,
+  created_at,
+  updated_at,
+  last_used_at
+FROM device_registrations
+WHERE is_active = true;
+
+-- View for active geofences with metadata
+CREATE OR REPLACE VIEW active_geofences AS
+SELECT
+  id,
+  name,
+  description,
+  geog,
+  radius_meters,
+  notification_title,
+  notification_body,
+  notification_data,
+  created_by,
+  entry_notification_enabled,
+  exit_notification_enabled,
+  suppression_duration_minutes,
+  max_daily_notifications,
+  metadata,
+  created_at,
+  updated_at
+FROM geofences
+WHERE is_active = true;
+
+-- Function to check if a point intersects with any active geofences
+CREATE OR REPLACE FUNCTION get_intersecting_geofences(
+  check_point GEOGRAPHY(Point, 4326)
+) RETURNS TABLE (
+  geofence_id UUID,
+  name TEXT,
+  notification_title TEXT,
+  notification_body TEXT,
+  notification_data JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    g.id,
+    g.name,
+    g.notification_title,
+    g.notification_body,
+    g.notification_data
+  FROM geofences g
+  WHERE g.is_active = true
+    AND (
+      -- Point geofence with radius
+      (ST_GeometryType(g.geog::geometry) = 'ST_Point' AND g.radius_meters IS NOT NULL
+       AND ST_DWithin(g.geog, check_point, g.radius_meters))
+      OR
+      -- Polygon geofence (convert to geometry for ST_Contains)
+      (ST_GeometryType(g.geog::geometry) IN ('ST_Polygon', 'ST_MultiPolygon')
+       AND ST_Contains(g.geog::geometry, check_point::geometry))
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Comments for documentation
+COMMENT ON TABLE device_registrations IS 'Stores device registration tokens for push notifications with encryption support';
+COMMENT ON TABLE user_locations IS 'Stores periodic user location data with accuracy and speed information';
+COMMENT ON TABLE geofences IS 'Defines geographic boundaries (points with radius or polygons) for location-based notifications';
+COMMENT ON TABLE geofence_hits IS 'Tracks when devices enter/exit geofences with deduplication and suppression logic';
+
+COMMENT ON COLUMN user_locations.idempotency_key IS 'Prevents duplicate location entries from the same device';
+COMMENT ON COLUMN geofences.suppression_duration_minutes IS 'Minimum time between notifications for the same geofence';
+COMMENT ON COLUMN geofence_hits.suppression_reason IS 'Explains why a notification was suppressed (rate limit, duplicate, etc.)';
@@ -0,0 +1,2 @@
+-- Composite index backing keyset pagination of events on (created_at, id)
+CREATE INDEX IF NOT EXISTS idx_events_created_at_id ON events (created_at DESC, id DESC);
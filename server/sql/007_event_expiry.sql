@@ -0,0 +1,32 @@
+-- Event validity window and archive for expired events
+-- Both bounds are optional: an event is current from starts_at (inclusive)
+-- until expires_at (exclusive). Spatial queries filter on them by default.
+
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS starts_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+ALTER TABLE events
+  ADD CONSTRAINT events_validity_window_check
+  CHECK (starts_at IS NULL OR expires_at IS NULL OR starts_at < expires_at);
+
+-- Supports the purge job scanning for expired rows
+CREATE INDEX IF NOT EXISTS idx_events_expires_at
+ON events (expires_at) WHERE expires_at IS NOT NULL;
+
+-- Expired events moved out of the hot table by the geolocation plugin purge job
+CREATE TABLE IF NOT EXISTS events_archive (
+  id UUID PRIMARY KEY,
+  title TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  geog GEOGRAPHY(Point, 4326) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL,
+  starts_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_archive_archived_at ON events_archive (archived_at DESC);
+
+COMMENT ON TABLE events_archive IS 'Expired events archived by the geolocation plugin purge job';
+COMMENT ON COLUMN events.expires_at IS 'Event stops appearing in spatial queries at this time and is later archived';
@@ -0,0 +1,23 @@
+-- External identifiers for idempotent bulk imports
+-- Importers tag events with their system (source) and that system's id
+-- (external_id); POST /events/bulk upserts on the pair instead of duplicating.
+
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS source TEXT,
+  ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+-- NULLs are distinct, so events created without an external id never conflict
+ALTER TABLE events
+  ADD CONSTRAINT events_source_external_id_key UNIQUE (source, external_id);
+
+-- An external id is only meaningful within its source
+ALTER TABLE events
+  ADD CONSTRAINT events_external_id_source_check
+  CHECK (external_id IS NULL OR source IS NOT NULL);
+
+-- Keep the identifiers when expired events are archived
+ALTER TABLE events_archive
+  ADD COLUMN IF NOT EXISTS source TEXT,
+  ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+COMMENT ON COLUMN events.external_id IS 'Identifier of the event in the importing system named by source';
@@ -0,0 +1,41 @@
+-- Polygon and multipolygon geofences
+-- geofences.geog widens from a Point to any geometry: a Point fence matches
+-- within radius_meters of its center, a Polygon or MultiPolygon fence (holes
+-- included) matches points inside its area and has no radius.
+
+-- The view selects geog and would block the type change
+DROP VIEW IF EXISTS active_geofences;
+
+ALTER TABLE geofences
+  ALTER COLUMN geog TYPE GEOGRAPHY(Geometry, 4326) USING geog::geography(Geometry, 4326),
+  ALTER COLUMN radius_meters DROP NOT NULL;
+
+ALTER TABLE geofences
+  ADD CONSTRAINT geofences_shape_check
+  CHECK (
+    (ST_GeometryType(geog::geometry) = 'ST_Point' AND radius_meters IS NOT NULL)
+    OR (ST_GeometryType(geog::geometry) IN ('ST_Polygon', 'ST_MultiPolygon') AND radius_meters IS NULL)
+  );
+
+CREATE OR REPLACE VIEW active_geofences AS
+SELECT
+  id,
+  name,
+  description,
+  geog,
+  radius_meters,
+  notification_title,
+  notification_body,
+  notification_data,
+  created_by,
+  entry_notification_enabled,
+  exit_notification_enabled,
+  suppression_duration_minutes,
+  max_daily_notifications,
+  metadata,
+  created_at,
+  updated_at
+FROM geofences
+WHERE is_active = true;
+
+COMMENT ON COLUMN geofences.geog IS 'Point center (with radius_meters) or Polygon/MultiPolygon area';
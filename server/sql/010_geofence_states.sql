@@ -0,0 +1,32 @@
+-- Geofence membership states for enter/exit/dwell transitions
+-- The catch-up evaluator keeps one row per user and geofence and emits an
+-- event only when the membership changes (see src/geofence-transitions.ts).
+
+ALTER TABLE geofences
+  ADD COLUMN IF NOT EXISTS hysteresis_buffer_meters INTEGER NOT NULL DEFAULT 10 CHECK (hysteresis_buffer_meters >= 0),
+  ADD COLUMN IF NOT EXISTS dwell_seconds INTEGER CHECK (dwell_seconds >= 0); -- NULL uses GEOFENCE_DWELL_MINUTES, 0 disables dwell
+
+CREATE TABLE IF NOT EXISTS geofence_states (
+  user_id TEXT NOT NULL,
+  geofence_id UUID NOT NULL REFERENCES geofences(id) ON DELETE CASCADE,
+  inside BOOLEAN NOT NULL,
+  entered_at TIMESTAMPTZ, -- start of the current stay
+  dwell_at TIMESTAMPTZ, -- when dwell fired during the current stay
+  last_seen_at TIMESTAMPTZ NOT NULL, -- time of the last location applied
+  last_location_id UUID REFERENCES user_locations(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, geofence_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofence_states_geofence_id ON geofence_states (geofence_id);
+
+-- Stays waiting for their dwell event
+CREATE INDEX IF NOT EXISTS idx_geofence_states_dwell_pending
+ON geofence_states (entered_at) WHERE inside AND dwell_at IS NULL;
+
+-- Hits record which transition they are; earlier hits were all entries
+ALTER TABLE geofence_hits
+  ADD COLUMN IF NOT EXISTS event_type TEXT NOT NULL DEFAULT 'enter'
+  CHECK (event_type IN ('enter', 'exit', 'dwell'));
+
+COMMENT ON TABLE geofence_states IS 'Per user and geofence membership for enter/exit/dwell detection';
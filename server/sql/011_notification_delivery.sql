@@ -0,0 +1,9 @@
+-- Push delivery results on geofence hits
+-- notification_response holds the per-device provider results of the send
+-- (see src/push-delivery.ts).
+
+ALTER TABLE geofence_hits
+  ADD COLUMN IF NOT EXISTS notification_sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS notification_response JSONB;
+
+COMMENT ON COLUMN geofence_hits.notification_response IS 'Push provider results per device for this hit';
@@ -0,0 +1,36 @@
+-- Durable outbound notification queue (see src/notification-queue.ts)
+-- queued → sending → sent; failed jobs are retried at run_at with exponential
+-- backoff until max_attempts, then dead.
+
+CREATE TABLE IF NOT EXISTS notification_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  idempotency_key TEXT NOT NULL UNIQUE,
+  type TEXT NOT NULL, -- selects the worker handler, e.g. geofence-push
+  provider TEXT NOT NULL, -- concurrency bucket, e.g. azure or expo
+  payload JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8 CHECK (max_attempts > 0),
+  run_at TIMESTAMPTZ NOT NULL DEFAULT now(), -- not before; the next retry for failed jobs
+  locked_at TIMESTAMPTZ,
+  locked_by TEXT,
+  last_error TEXT,
+  result JSONB, -- provider response of the last attempt
+  geofence_hit_id UUID REFERENCES geofence_hits(id) ON DELETE SET NULL,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Due jobs, in claim order
+CREATE INDEX IF NOT EXISTS idx_notification_jobs_due
+ON notification_jobs (run_at, created_at) WHERE status IN ('queued', 'failed');
+
+-- In-flight jobs per provider, for concurrency limits and stale job recovery
+CREATE INDEX IF NOT EXISTS idx_notification_jobs_sending
+ON notification_jobs (provider, locked_at) WHERE status = 'sending';
+
+CREATE INDEX IF NOT EXISTS idx_notification_jobs_geofence_hit_id
+ON notification_jobs (geofence_hit_id) WHERE geofence_hit_id IS NOT NULL;
+
+COMMENT ON TABLE notification_jobs IS 'Outbound notifications with retry state, one row per idempotency key';
@@ -0,0 +1,23 @@
+-- Per-user notification preferences (see src/notification-preferences.ts):
+-- quiet hours in the user's time zone, a daily cap and per-channel opt-in.
+-- Users without a row get the defaults: no quiet hours, no cap, all channels on.
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id TEXT PRIMARY KEY,
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA zone for quiet hours and the daily cap
+  quiet_hours_start TIME, -- start > end wraps past midnight, e.g. 22:00–07:00
+  quiet_hours_end TIME,
+  max_daily_notifications INTEGER CHECK (max_daily_notifications > 0), -- NULL: no cap
+  push_enabled BOOLEAN NOT NULL DEFAULT true,
+  email_enabled BOOLEAN NOT NULL DEFAULT true,
+  sms_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+-- Daily cap: notifications queued per user since local midnight
+CREATE INDEX IF NOT EXISTS idx_notification_jobs_user_created_at
+ON notification_jobs ((payload->>'userId'), created_at) WHERE payload ? 'userId';
+
+COMMENT ON TABLE notification_preferences IS 'Quiet hours, daily notification cap and channel opt-in per user (F-003 AC-003)';
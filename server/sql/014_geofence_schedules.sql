@@ -0,0 +1,38 @@
+-- Geofence schedules: a date range and weekly windows in which a fence is live
+-- (see src/geofence-schedules.ts). Evaluation ignores fences outside them.
+
+ALTER TABLE geofences
+  ADD COLUMN IF NOT EXISTS starts_at TIMESTAMPTZ, -- NULL: no start
+  ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ, -- NULL: no end; exclusive
+  ADD COLUMN IF NOT EXISTS schedule_windows JSONB, -- [{ "days": ["mon", ...], "start": "09:00", "end": "18:00" }], NULL: all day
+  ADD COLUMN IF NOT EXISTS schedule_timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA zone of the windows
+  ADD CONSTRAINT geofences_schedule_range CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at);
+
+-- Whether a fence with this schedule is live at check_time. A window whose end
+-- is not after its start runs past midnight into the next day.
+CREATE OR REPLACE FUNCTION geofence_is_scheduled(
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  windows JSONB,
+  timezone TEXT,
+  check_time TIMESTAMPTZ
+) RETURNS BOOLEAN
+LANGUAGE sql STABLE AS $$
+  SELECT (starts_at IS NULL OR check_time >= starts_at)
+     AND (ends_at IS NULL OR check_time < ends_at)
+     AND (windows IS NULL OR jsonb_array_length(windows) = 0 OR EXISTS (
+       SELECT 1
+       FROM jsonb_array_elements(windows) w,
+            LATERAL (SELECT check_time AT TIME ZONE COALESCE(timezone, 'UTC') AS local) l
+       WHERE CASE
+         WHEN (w->>'start')::time < (w->>'end')::time THEN
+           w->'days' ? to_char(l.local, 'dy')
+           AND l.local::time >= (w->>'start')::time AND l.local::time < (w->>'end')::time
+         ELSE
+           (w->'days' ? to_char(l.local, 'dy') AND l.local::time >= (w->>'start')::time)
+           OR (w->'days' ? to_char(l.local - INTERVAL '1 day', 'dy') AND l.local::time < (w->>'end')::time)
+       END
+     ))
+$$;
+
+COMMENT ON FUNCTION geofence_is_scheduled IS 'Whether a geofence schedule (date range, weekly windows) is live at a time';
@@ -0,0 +1,8 @@
+-- Geofence audience targeting (see src/geofence-audience.ts): user id lists,
+-- device segments and a percentage rollout. Hits of users outside the audience
+-- are recorded with suppression_reason 'not_in_audience'.
+
+ALTER TABLE geofences
+  ADD COLUMN IF NOT EXISTS audience JSONB; -- NULL: every user
+
+COMMENT ON COLUMN geofences.audience IS 'Targeting rules: include_user_ids, exclude_user_ids, segments, rollout_percentage';
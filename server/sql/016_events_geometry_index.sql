@@ -0,0 +1,3 @@
+-- Planar index for viewport filters in degrees (vector tiles, clusters), which
+-- compare geog::geometry so boxes 180° wide or more keep their meaning
+CREATE INDEX IF NOT EXISTS idx_events_geom ON events USING GIST ((geog::geometry));
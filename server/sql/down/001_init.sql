@@ -0,0 +1,3 @@
+-- Revert 001_init.sql
+-- Extensions are left installed; other database objects may depend on them.
+DROP TABLE IF EXISTS events;
@@ -0,0 +1,3 @@
+-- Revert 002_create_cms_schema.sql
+-- Intentionally without CASCADE: fails if Strapi has already created tables.
+DROP SCHEMA IF EXISTS cms;
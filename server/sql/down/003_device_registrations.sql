@@ -0,0 +1,6 @@
+-- Revert 003_device_registrations.sql
+DROP VIEW IF EXISTS device_registrations_safe;
+DROP FUNCTION IF EXISTS cleanup_expired_device_registrations();
+DROP TRIGGER IF EXISTS update_device_registrations_updated_at ON device_registrations;
+DROP FUNCTION IF EXISTS update_device_registrations_updated_at();
+DROP TABLE IF EXISTS device_registrations;
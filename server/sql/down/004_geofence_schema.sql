@@ -0,0 +1,6 @@
+-- Revert 004_geofence_schema.sql
+DROP TRIGGER IF EXISTS update_geofences_updated_at ON geofences;
+DROP FUNCTION IF EXISTS update_updated_at_column();
+DROP TABLE IF EXISTS geofence_hits;
+DROP TABLE IF EXISTS user_locations;
+DROP TABLE IF EXISTS geofences;
@@ -0,0 +1,37 @@
+-- Revert 005_push_geolocation_tables.sql
+DROP FUNCTION IF EXISTS get_intersecting_geofences(GEOGRAPHY);
+DROP VIEW IF EXISTS active_geofences;
+DROP VIEW IF EXISTS active_device_registrations;
+
+DROP INDEX IF EXISTS idx_geofence_hits_suppression_window;
+DROP INDEX IF EXISTS idx_geofence_hits_notification_status;
+DROP INDEX IF EXISTS idx_geofence_hits_device_id;
+ALTER TABLE geofence_hits
+  DROP COLUMN IF EXISTS suppression_reason,
+  DROP COLUMN IF EXISTS notification_suppressed,
+  DROP COLUMN IF EXISTS device_id;
+
+DROP INDEX IF EXISTS idx_geofences_notification_data_gin;
+DROP INDEX IF EXISTS idx_geofences_created_by;
+ALTER TABLE geofences
+  DROP COLUMN IF EXISTS max_daily_notifications,
+  DROP COLUMN IF EXISTS suppression_duration_minutes,
+  DROP COLUMN IF EXISTS exit_notification_enabled,
+  DROP COLUMN IF EXISTS entry_notification_enabled,
+  DROP COLUMN IF EXISTS created_by,
+  DROP COLUMN IF EXISTS notification_data,
+  DROP COLUMN IF EXISTS notification_body,
+  DROP COLUMN IF EXISTS notification_title;
+
+DROP INDEX IF EXISTS idx_user_locations_idempotency;
+DROP INDEX IF EXISTS idx_user_locations_device_recorded_at;
+ALTER TABLE user_locations
+  DROP COLUMN IF EXISTS idempotency_key,
+  DROP COLUMN IF EXISTS recorded_at,
+  DROP COLUMN IF EXISTS altitude_meters,
+  DROP COLUMN IF EXISTS heading_degrees,
+  DROP COLUMN IF EXISTS speed_mps,
+  DROP COLUMN IF EXISTS device_id;
+
+ALTER TABLE device_registrations
+  DROP COLUMN IF EXISTS os_version;
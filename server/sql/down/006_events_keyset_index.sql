@@ -0,0 +1,2 @@
+-- Revert 006_events_keyset_index.sql
+DROP INDEX IF EXISTS idx_events_created_at_id;
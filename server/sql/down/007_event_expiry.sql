@@ -0,0 +1,8 @@
+-- Revert 007_event_expiry.sql
+-- Archived events are dropped with the archive table.
+DROP TABLE IF EXISTS events_archive;
+DROP INDEX IF EXISTS idx_events_expires_at;
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_validity_window_check;
+ALTER TABLE events
+  DROP COLUMN IF EXISTS starts_at,
+  DROP COLUMN IF EXISTS expires_at;
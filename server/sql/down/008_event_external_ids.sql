@@ -0,0 +1,9 @@
+-- Revert 008_event_external_ids.sql
+ALTER TABLE events_archive
+  DROP COLUMN IF EXISTS source,
+  DROP COLUMN IF EXISTS external_id;
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_external_id_source_check;
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_source_external_id_key;
+ALTER TABLE events
+  DROP COLUMN IF EXISTS source,
+  DROP COLUMN IF EXISTS external_id;
@@ -0,0 +1,29 @@
+-- Revert 009_geofence_polygons.sql
+-- Polygon fences cannot be stored as points and are deleted.
+DROP VIEW IF EXISTS active_geofences;
+ALTER TABLE geofences DROP CONSTRAINT IF EXISTS geofences_shape_check;
+DELETE FROM geofences WHERE ST_GeometryType(geog::geometry) <> 'ST_Point';
+ALTER TABLE geofences
+  ALTER COLUMN geog TYPE GEOGRAPHY(Point, 4326) USING geog::geography(Point, 4326),
+  ALTER COLUMN radius_meters SET NOT NULL;
+
+CREATE OR REPLACE VIEW active_geofences AS
+SELECT
+  id,
+  name,
+  description,
+  geog,
+  radius_meters,
+  notification_title,
+  notification_body,
+  notification_data,
+  created_by,
+  entry_notification_enabled,
+  exit_notification_enabled,
+  suppression_duration_minutes,
+  max_daily_notifications,
+  metadata,
+  created_at,
+  updated_at
+FROM geofences
+WHERE is_active = true;
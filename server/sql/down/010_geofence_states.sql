@@ -0,0 +1,6 @@
+-- Revert 010_geofence_states.sql
+ALTER TABLE geofence_hits DROP COLUMN IF EXISTS event_type;
+DROP TABLE IF EXISTS geofence_states;
+ALTER TABLE geofences
+  DROP COLUMN IF EXISTS hysteresis_buffer_meters,
+  DROP COLUMN IF EXISTS dwell_seconds;
@@ -0,0 +1,4 @@
+-- Revert 011_notification_delivery.sql
+ALTER TABLE geofence_hits
+  DROP COLUMN IF EXISTS notification_sent_at,
+  DROP COLUMN IF EXISTS notification_response;
@@ -0,0 +1,3 @@
+-- Revert 012_notification_jobs.sql
+-- Pending notifications are dropped with the table.
+DROP TABLE IF EXISTS notification_jobs;
@@ -0,0 +1,3 @@
+-- Revert 013_notification_preferences.sql
+DROP INDEX IF EXISTS idx_notification_jobs_user_created_at;
+DROP TABLE IF EXISTS notification_preferences;
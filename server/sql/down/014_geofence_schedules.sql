@@ -0,0 +1,8 @@
+-- Revert 014_geofence_schedules.sql
+DROP FUNCTION IF EXISTS geofence_is_scheduled(TIMESTAMPTZ, TIMESTAMPTZ, JSONB, TEXT, TIMESTAMPTZ);
+ALTER TABLE geofences
+  DROP CONSTRAINT IF EXISTS geofences_schedule_range,
+  DROP COLUMN IF EXISTS starts_at,
+  DROP COLUMN IF EXISTS ends_at,
+  DROP COLUMN IF EXISTS schedule_windows,
+  DROP COLUMN IF EXISTS schedule_timezone;
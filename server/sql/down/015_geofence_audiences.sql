@@ -0,0 +1,2 @@
+-- Revert 015_geofence_audiences.sql
+ALTER TABLE geofences DROP COLUMN IF EXISTS audience;
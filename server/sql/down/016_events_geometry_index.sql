@@ -0,0 +1,2 @@
+-- Revert 016_events_geometry_index.sql
+DROP INDEX IF EXISTS idx_events_geom;
@@ -1,12 +1,30 @@
 import 'dotenv/config';
 import { Pool, QueryConfig, QueryResult, QueryResultRow } from 'pg';
 
-const useSsl = (process.env.DATABASE_SSL || '').toLowerCase() === 'require';
+// `require` as in libpq, `true` as in the Strapi database config
+const SSL_ON = ['require', 'true'];
+const SSL_OFF = ['', 'disable', 'false'];
+
+const useSsl = SSL_ON.includes((process.env.DATABASE_SSL || '').toLowerCase());
 export const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
   ssl: useSsl ? { rejectUnauthorized: false } : undefined
 });
 
+/**
+ * Why `pool` cannot connect with this environment, or null. Strapi plugins
+ * reach the server's tables through `pool` even when Strapi itself runs on
+ * another database, so they check this on bootstrap.
+ */
+export function poolConfigError(env: NodeJS.ProcessEnv = process.env): string | null {
+  if (!env.DATABASE_URL) return 'DATABASE_URL is not set';
+  const ssl = (env.DATABASE_SSL || '').toLowerCase();
+  if (![...SSL_ON, ...SSL_OFF].includes(ssl)) {
+    return `DATABASE_SSL must be true, require, false or disable, got "${env.DATABASE_SSL}"`;
+  }
+  return null;
+}
+
 export async function ping() {
   const r = await pool.query('select 1 as ok');
   // Check PostGIS extension presence
@@ -0,0 +1,96 @@
+import { z } from 'zod';
+
+/**
+ * Shared contract for listing events with keyset pagination.
+ *
+ * Used by `GET /events` in the Express server and by `findMany` in the Strapi
+ * geolocation plugin so both return identical pages and accept each other's
+ * cursors. Events are ordered by `(created_at DESC, id DESC)`; the cursor is an
+ * opaque base64url token identifying the last row of the previous page.
+ */
+
+export const DEFAULT_EVENT_PAGE_SIZE = 100;
+export const MAX_EVENT_PAGE_SIZE = 1000;
+
+export interface EventCursor {
+  createdAt: string; // full-precision timestamptz text, as returned by Postgres
+  id: string;
+}
+
+export interface EventPage<T> {
+  data: T[];
+  nextCursor: string | null;
+  totalCount?: number;
+}
+
+export function encodeEventCursor(cursor: EventCursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id]), 'utf8').toString('base64url');
+}
+
+export function decodeEventCursor(token: string): EventCursor {
+  const decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== 2 ||
+    typeof decoded[0] !== 'string' ||
+    Number.isNaN(Date.parse(decoded[0])) ||
+    !z.string().uuid().safeParse(decoded[1]).success
+  ) {
+    throw new Error('Malformed cursor');
+  }
+  return { createdAt: decoded[0], id: decoded[1] };
+}
+
+export const EventListQuerySchema = z
+  .object({
+    limit: z.coerce.number().int().positive().max(MAX_EVENT_PAGE_SIZE).default(DEFAULT_EVENT_PAGE_SIZE),
+    cursor: z
+      .string()
+      .transform((token, ctx) => {
+        try {
+          return decodeEventCursor(token);
+        } catch {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+          return z.NEVER;
+        }
+      })
+      .optional(),
+    since: z.string().datetime({ offset: true }).optional(),
+    until: z.string().datetime({ offset: true }).optional(),
+    sinceHours: z.coerce.number().int().positive().max(24 * 365).optional(),
+    payload: z.string().optional(),
+    count: z
+      .enum(['true', 'false', '1', '0'])
+      .transform(v => v === 'true' || v === '1')
+      .optional()
+  })
+  .refine(q => !q.since || !q.until || Date.parse(q.since) < Date.parse(q.until), {
+    message: 'since must be before until',
+    path: ['since']
+  });
+
+export type EventListQuery = z.infer<typeof EventListQuerySchema>;
+
+// `cursor_created_at` is `created_at::text`, exact to the microsecond
+export type EventPageRow = { id: string; cursor_created_at: string };
+
+/**
+ * Build a page from rows fetched with `LIMIT limit + 1`. Rows must include a
+ * `cursor_created_at` column (`created_at::text`); it is stripped from the output.
+ */
+export function toEventPage<R extends EventPageRow>(
+  rows: R[],
+  limit: number,
+  totalCount?: number
+): EventPage<Omit<R, 'cursor_created_at'>> {
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  const page: EventPage<Omit<R, 'cursor_created_at'>> = {
+    data: pageRows.map(({ cursor_created_at, ...row }) => row),
+    nextCursor: hasMore && last ? encodeEventCursor({ createdAt: last.cursor_created_at, id: last.id }) : null
+  };
+  if (totalCount !== undefined) page.totalCount = totalCount;
+  return page;
+}
@@ -0,0 +1,200 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { EventValidityFields, validityWindowError } from './event-validity.js';
+
+/**
+ * Idempotent bulk upsert of events.
+ *
+ * Shared by `POST /events/bulk` in the Express server and `createBulk` in the
+ * Strapi geolocation plugin. Items carrying an `externalId`/`source` pair are
+ * upserted on the `events_source_external_id_key` unique constraint, so re-running
+ * an import updates rows instead of duplicating them; items without one are
+ * always created. Every item gets a result in request order.
+ */
+
+export const MAX_BULK_EVENTS = 1000;
+
+/** Query-string flag, `dryRun=true` validates and reports without writing */
+export const DryRunFlagSchema = z
+  .enum(['true', 'false', '1', '0'])
+  .transform(v => v === 'true' || v === '1')
+  .optional();
+
+export const BulkEventItemSchema = z
+  .object({
+    title: z.string().min(1).max(200),
+    payload: z.any().optional(),
+    lon: z.number().min(-180).max(180),
+    lat: z.number().min(-90).max(90),
+    externalId: z.string().min(1).max(200).optional(),
+    source: z.string().min(1).max(100).optional(),
+    ...EventValidityFields
+  })
+  .refine(it => it.externalId === undefined || it.source !== undefined, {
+    message: 'externalId requires source',
+    path: ['source']
+  })
+  .refine(it => !validityWindowError(it.starts_at, it.expires_at), {
+    message: 'starts_at must be before expires_at',
+    path: ['starts_at']
+  });
+
+export type BulkEventItem = z.infer<typeof BulkEventItemSchema>;
+
+export type BulkItemStatus = 'created' | 'updated' | 'unchanged' | 'error';
+
+export interface BulkItemResult {
+  index: number;
+  status: BulkItemStatus;
+  id?: string;
+  externalId?: string;
+  error?: string;
+}
+
+export interface BulkUpsertResult {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+export interface PreparedBulkItem extends BulkEventItem {
+  index: number;
+  id: string; // used only when the item is inserted
+}
+
+/**
+ * Validate items one by one. Invalid items and repeated `source`/`externalId`
+ * pairs (which a single upsert statement cannot touch twice) become error
+ * results; the rest are returned for the upsert.
+ */
+export function prepareBulkItems(input: unknown[]): { items: PreparedBulkItem[]; errors: BulkItemResult[] } {
+  const items: PreparedBulkItem[] = [];
+  const errors: BulkItemResult[] = [];
+  const seen = new Map<string, number>();
+
+  input.forEach((raw, index) => {
+    const parsed = BulkEventItemSchema.safeParse(raw);
+    if (!parsed.success) {
+      const error = parsed.error.issues
+        .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+        .join('; ');
+      errors.push({ index, status: 'error', error });
+      return;
+    }
+
+    const item = parsed.data;
+    if (item.externalId !== undefined) {
+      const key = JSON.stringify([item.source, item.externalId]);
+      const first = seen.get(key);
+      if (first !== undefined) {
+        errors.push({ index, status: 'error', externalId: item.externalId, error: `duplicate of item ${first} in this request` });
+        return;
+      }
+      seen.set(key, index);
+    }
+    items.push({ ...item, index, id: randomUUID() });
+  });
+
+  return { items, errors };
+}
+
+/**
+ * Build the upsert as one statement. `placeholder(n)` renders the n-th (1-based)
+ * bind parameter, `$n` for pg and `?` for knex.
+ *
+ * Rows whose stored values already match are left alone and reported as
+ * `unchanged`; `existing` reads the pre-statement snapshot to find their ids.
+ */
+export function buildBulkUpsert(
+  items: PreparedBulkItem[],
+  placeholder: (n: number) => string
+): { sql: string; params: unknown[] } {
+  const params: unknown[] = [];
+  const bind = (value: unknown, type: string) => {
+    params.push(value);
+    return `${placeholder(params.length)}::${type}`;
+  };
+
+  const values = items.map(it => `(${[
+    bind(it.index, 'int'),
+    bind(it.id, 'uuid'),
+    bind(it.title, 'text'),
+    bind(JSON.stringify(it.payload ?? {}), 'jsonb'),
+    bind(it.lon, 'float8'),
+    bind(it.lat, 'float8'),
+    bind(it.starts_at ?? null, 'timestamptz'),
+    bind(it.expires_at ?? null, 'timestamptz'),
+    bind(it.source ?? null, 'text'),
+    bind(it.externalId ?? null, 'text')
+  ].join(', ')})`);
+
+  const sql = `
+    WITH input (ord, id, title, payload, lon, lat, starts_at, expires_at, source, external_id) AS (
+      VALUES ${values.join(',\n             ')}
+    ),
+    existing AS (
+      SELECT e.id, e.source, e.external_id
+      FROM events e
+      JOIN input i ON i.source = e.source AND i.external_id = e.external_id
+    ),
+    upserted AS (
+      INSERT INTO events (id, title, payload, geog, starts_at, expires_at, source, external_id)
+      SELECT id, title, payload, ST_SetSRID(ST_MakePoint(lon, lat), 4326)::geography,
+             starts_at, expires_at, source, external_id
+      FROM input
+      ORDER BY ord
+      ON CONFLICT (source, external_id) DO UPDATE SET
+        title = EXCLUDED.title,
+        payload = EXCLUDED.payload,
+        geog = EXCLUDED.geog,
+        starts_at = EXCLUDED.starts_at,
+        expires_at = EXCLUDED.expires_at
+      WHERE (events.title, events.payload, ST_AsBinary(events.geog), events.starts_at, events.expires_at)
+        IS DISTINCT FROM (EXCLUDED.title, EXCLUDED.payload, ST_AsBinary(EXCLUDED.geog), EXCLUDED.starts_at, EXCLUDED.expires_at)
+      RETURNING id, source, external_id, (xmax = 0) AS inserted
+    )
+    SELECT i.ord,
+           COALESCE(u.id, x.id) AS id,
+           CASE WHEN u.id IS NULL THEN 'unchanged' WHEN u.inserted THEN 'created' ELSE 'updated' END AS status
+    FROM input i
+    LEFT JOIN upserted u ON u.id = i.id OR (u.source = i.source AND u.external_id = i.external_id)
+    LEFT JOIN existing x ON x.source = i.source AND x.external_id = i.external_id
+    ORDER BY i.ord
+  `;
+
+  return { sql, params };
+}
+
+/**
+ * Merge upsert rows with validation errors into the response, in request order
+ */
+export function toBulkUpsertResult(
+  items: PreparedBulkItem[],
+  rows: Array<{ ord: number; id: string; status: BulkItemStatus }>,
+  errors: BulkItemResult[],
+  dryRun: boolean
+): BulkUpsertResult {
+  const byIndex = new Map(items.map(it => [it.index, it]));
+  const results: BulkItemResult[] = [
+    ...rows.map(row => {
+      const result: BulkItemResult = { index: row.ord, status: row.status, id: row.id };
+      const externalId = byIndex.get(row.ord)?.externalId;
+      if (externalId !== undefined) result.externalId = externalId;
+      return result;
+    }),
+    ...errors
+  ].sort((a, b) => a.index - b.index);
+
+  const count = (status: BulkItemStatus) => results.filter(r => r.status === status).length;
+  return {
+    dryRun,
+    created: count('created'),
+    updated: count('updated'),
+    unchanged: count('unchanged'),
+    failed: count('error'),
+    results
+  };
+}
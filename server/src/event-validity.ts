@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+/**
+ * Event validity window (`starts_at`/`expires_at`).
+ *
+ * Shared by the Express server and the Strapi geolocation plugin. Both bounds
+ * are optional; an event is current from `starts_at` (inclusive) until
+ * `expires_at` (exclusive). Spatial queries only return current events unless
+ * the caller passes `includeExpired`.
+ */
+
+const Timestamp = z.string().datetime({ offset: true });
+
+/** Optional window fields for create, update and bulk bodies; `null` clears a bound */
+export const EventValidityFields = {
+  starts_at: Timestamp.nullable().optional(),
+  expires_at: Timestamp.nullable().optional()
+};
+
+export const EventValidityWindowSchema = z.object(EventValidityFields);
+
+/** Query-string flag, `includeExpired=true` */
+export const IncludeExpiredSchema = z
+  .enum(['true', 'false', '1', '0'])
+  .transform(v => v === 'true' || v === '1')
+  .optional();
+
+/**
+ * SQL condition matching currently valid events. `alias` qualifies the columns
+ * (e.g. `e`) when the query joins other tables.
+ */
+export function currentEventCondition(alias?: string): string {
+  const col = (name: string) => (alias ? `${alias}.${name}` : name);
+  return `(${col('starts_at')} IS NULL OR ${col('starts_at')} <= now()) AND (${col('expires_at')} IS NULL OR ${col('expires_at')} > now())`;
+}
+
+/**
+ * Returns an error message when both bounds are given and do not form a window
+ */
+export function validityWindowError(startsAt?: string | null, expiresAt?: string | null): string | null {
+  if (startsAt && expiresAt && Date.parse(startsAt) >= Date.parse(expiresAt)) {
+    return 'starts_at must be before expires_at';
+  }
+  return null;
+}
+
+// CHECK constraint from 007_event_expiry.sql; a partial update can still violate it
+export const VALIDITY_WINDOW_CONSTRAINT = 'events_validity_window_check';
@@ -0,0 +1,156 @@
+import { createHash } from 'crypto';
+import { DeviceRegistrationRecord } from './deviceRegistrations.js';
+import { deviceLanguage, isValidLocale, selectLocale } from './notification-locales.js';
+
+/**
+ * Geofence audience targeting
+ *
+ * A fence's `audience` limits who it notifies. Every rule that is set must
+ * hold:
+ *
+ *   {
+ *     "include_user_ids": ["u1", "u2"],   only these users
+ *     "exclude_user_ids": ["u3"],         never these users
+ *     "segments": [                       at least one active device matches one segment
+ *       { "platforms": ["ios"], "min_app_version": "2.4.0", "languages": ["de"] }
+ *     ],
+ *     "rollout_percentage": 25            a stable 25% of the remaining users
+ *   }
+ *
+ * Segment fields are optional and all must match the same device: `platforms`
+ * against the registration's platform, `min_app_version`/`max_app_version`
+ * (inclusive, compared numerically per dot-separated part) against its app
+ * version, `languages` against `deviceMetadata.language` (`de` matches
+ * `de-AT`). Rollout buckets hash the fence and user id, so raising the
+ * percentage only adds users.
+ *
+ * Matches outside the audience are still recorded, with `suppression_reason`
+ * `not_in_audience`.
+ */
+
+export interface AudienceSegment {
+  platforms?: string[];
+  min_app_version?: string;
+  max_app_version?: string;
+  languages?: string[];
+}
+
+export interface GeofenceAudience {
+  include_user_ids?: string[];
+  exclude_user_ids?: string[];
+  segments?: AudienceSegment[];
+  rollout_percentage?: number;
+}
+
+type AudienceDevice = Pick<DeviceRegistrationRecord, 'platform' | 'appVersion' | 'deviceMetadata'>;
+
+const PLATFORMS = ['ios', 'android', 'web'];
+const VERSION = /^\d+(\.\d+)*$/;
+
+/**
+ * Compare dot-separated numeric versions: negative if `a` is older than `b`
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Stable position of a user in a fence's rollout, in [0, 100)
+ */
+export function rolloutBucket(geofenceId: string | number, userId: string): number {
+  const digest = createHash('sha256').update(`${geofenceId}:${userId}`).digest();
+  return (digest.readUInt32BE(0) / 2 ** 32) * 100;
+}
+
+/**
+ * Problems with an `audience` value; empty when valid
+ */
+export function validateGeofenceAudience(audience: unknown): string[] {
+  if (audience === null || audience === undefined) return [];
+  if (typeof audience !== 'object' || Array.isArray(audience)) return ['audience must be an object'];
+
+  const errors: string[] = [];
+  const { include_user_ids, exclude_user_ids, segments, rollout_percentage } = audience as Record<string, any>;
+  for (const [key, ids] of [['include_user_ids', include_user_ids], ['exclude_user_ids', exclude_user_ids]]) {
+    if (ids !== undefined && !(Array.isArray(ids) && ids.every(id => typeof id === 'string' && id.length > 0))) {
+      errors.push(`audience.${key} must be an array of user ids`);
+    }
+  }
+  if (rollout_percentage !== undefined && !(typeof rollout_percentage === 'number' && rollout_percentage >= 0 && rollout_percentage <= 100)) {
+    errors.push('audience.rollout_percentage must be a number from 0 to 100');
+  }
+  if (segments === undefined) return errors;
+  if (!Array.isArray(segments)) return [...errors, 'audience.segments must be an array'];
+
+  segments.forEach((segment: any, i) => {
+    const path = `audience.segments[${i}]`;
+    if (!segment || typeof segment !== 'object' || Array.isArray(segment)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (segment.platforms !== undefined && !(Array.isArray(segment.platforms) && segment.platforms.every((p: any) => PLATFORMS.includes(p)))) {
+      errors.push(`${path}.platforms must list platforms from ${PLATFORMS.join(', ')}`);
+    }
+    if (segment.languages !== undefined && !(Array.isArray(segment.languages) && segment.languages.every((l: any) => typeof l === 'string' && isValidLocale(l)))) {
+      errors.push(`${path}.languages must list locale codes such as de or pt-BR`);
+    }
+    for (const key of ['min_app_version', 'max_app_version']) {
+      if (segment[key] !== undefined && !(typeof segment[key] === 'string' && VERSION.test(segment[key]))) {
+        errors.push(`${path}.${key} must be a version such as 2.4.0`);
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Whether the audience has segments, i.e. needs the user's devices
+ */
+export function audienceUsesDevices(audience: GeofenceAudience | null | undefined): boolean {
+  return Boolean(audience?.segments?.length);
+}
+
+function deviceMatches(segment: AudienceSegment, device: AudienceDevice): boolean {
+  if (segment.platforms?.length && !segment.platforms.includes(device.platform)) return false;
+
+  const appVersion = device.appVersion ?? device.deviceMetadata?.appVersion;
+  if (segment.min_app_version || segment.max_app_version) {
+    if (typeof appVersion !== 'string' || !VERSION.test(appVersion)) return false;
+    if (segment.min_app_version && compareVersions(appVersion, segment.min_app_version) < 0) return false;
+    if (segment.max_app_version && compareVersions(appVersion, segment.max_app_version) > 0) return false;
+  }
+
+  if (segment.languages?.length) {
+    const language = deviceLanguage(device);
+    // A segment for `de` takes `de-AT` devices, one for `de-AT` does not take `de`
+    if (!language || !selectLocale(language, segment.languages)) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a user is targeted by a fence's audience; no audience targets everyone
+ */
+export function isInAudience(
+  audience: GeofenceAudience | null | undefined,
+  geofenceId: string | number,
+  userId: string,
+  devices: AudienceDevice[] = []
+): boolean {
+  if (!audience) return true;
+  if (audience.exclude_user_ids?.includes(userId)) return false;
+  if (audience.include_user_ids?.length && !audience.include_user_ids.includes(userId)) return false;
+  if (audience.segments?.length && !audience.segments.some(segment => devices.some(device => deviceMatches(segment, device)))) {
+    return false;
+  }
+  if (audience.rollout_percentage !== undefined && rolloutBucket(geofenceId, userId) >= audience.rollout_percentage) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,175 @@
+import { PoolClient } from 'pg';
+import { pool } from './db.js';
+import { getUserDevices } from './deviceRegistrations.js';
+import { audienceUsesDevices, isInAudience } from './geofence-audience.js';
+import { GeofenceEventType } from './geofence-transitions.js';
+import { NotificationJobHandler, NotificationJobOutcome, enqueueNotificationJob } from './notification-queue.js';
+import { checkNotificationPreferences, getNotificationPreferences, startOfLocalDay } from './notification-preferences.js';
+import { PushDelivery, deliverPushToUser } from './push-delivery.js';
+import { PushMessage, pushProviderName } from './push-providers.js';
+
+/**
+ * Push notifications for geofence hits, delivered through the notification queue
+ *
+ * The catch-up evaluator enqueues one `geofence-push` job per stored hit in the
+ * transaction that stores the hit; `geofencePushHandler` sends it and records
+ * the outcome on the hit.
+ */
+
+export const GEOFENCE_PUSH_JOB = 'geofence-push';
+
+export interface NotifiableHit {
+  id?: string;
+  geofenceId: string;
+  userId: string;
+  eventType: GeofenceEventType;
+}
+
+/**
+ * Enqueue a push job per hit. Hits are marked suppressed instead when the
+ * geofence has notifications disabled for the transition, the user is outside
+ * its audience (see geofence-audience.ts), the user's preferences rule it out
+ * (see notification-preferences.ts) or the user reached the geofence's
+ * `max_daily_notifications` today. `provider` only names the jobs'
+ * concurrency bucket; the sender is built when a job is sent.
+ */
+export async function enqueueGeofenceNotifications(
+  client: PoolClient,
+  hits: NotifiableHit[],
+  provider: string = pushProviderName() ?? 'unconfigured'
+): Promise<number> {
+  const stored = hits.filter(hit => hit.id);
+  if (stored.length === 0) return 0;
+
+  const result = await client.query(`
+    SELECT id, name, notification_title, notification_body, notification_data,
+           entry_notification_enabled, exit_notification_enabled, max_daily_notifications, audience
+    FROM geofences
+    WHERE id = ANY($1::uuid[])
+  `, [[...new Set(stored.map(hit => hit.geofenceId))]]);
+  const geofences = new Map(result.rows.map(row => [row.id, row]));
+
+  let enqueued = 0;
+  for (const hit of stored) {
+    const geofence = geofences.get(hit.geofenceId);
+    if (!geofence) continue;
+
+    const disabled = (hit.eventType === 'enter' && !geofence.entry_notification_enabled) ||
+      (hit.eventType === 'exit' && !geofence.exit_notification_enabled);
+    if (disabled) {
+      await recordNotificationOutcome(client, hit.id!, null, `${hit.eventType} notifications disabled`);
+      continue;
+    }
+
+    const devices = audienceUsesDevices(geofence.audience) ? await getUserDevices(hit.userId) : [];
+    if (!isInAudience(geofence.audience, hit.geofenceId, hit.userId, devices)) {
+      await recordNotificationOutcome(client, hit.id!, null, 'not_in_audience');
+      continue;
+    }
+
+    const reason = await checkNotificationPreferences(client, hit.userId, 'push') ??
+      (await geofenceLimitReached(client, hit, geofence.max_daily_notifications) ? 'geofence_daily_limit' : null);
+    if (reason) {
+      await recordNotificationOutcome(client, hit.id!, null, reason);
+      continue;
+    }
+
+    const jobId = await enqueueNotificationJob(client, {
+      type: GEOFENCE_PUSH_JOB,
+      provider,
+      idempotencyKey: `geofence-hit:${hit.id}:push`,
+      payload: { userId: hit.userId, message: buildPushMessage(hit, geofence) },
+      geofenceHitId: hit.id
+    });
+    if (jobId) enqueued++;
+  }
+  return enqueued;
+}
+
+/**
+ * Whether the user already got `limit` notifications for this geofence
+ * since local midnight in their time zone
+ */
+async function geofenceLimitReached(client: PoolClient, hit: NotifiableHit, limit: number | null): Promise<boolean> {
+  if (!limit) return false;
+  const { timezone } = await getNotificationPreferences(client, hit.userId);
+  const result = await client.query(`
+    SELECT count(*)::int AS count
+    FROM notification_jobs j
+    JOIN geofence_hits h ON h.id = j.geofence_hit_id
+    WHERE h.geofence_id = $1 AND h.user_id = $2 AND j.created_at >= $3 AND j.status <> 'dead'
+  `, [hit.geofenceId, hit.userId, startOfLocalDay(new Date(), timezone)]);
+  return result.rows[0].count >= limit;
+}
+
+/**
+ * Notification content from the geofence, with a default per transition
+ */
+export function buildPushMessage(hit: NotifiableHit, geofence: any): PushMessage {
+  const defaultBody = {
+    enter: `You have arrived at ${geofence.name}`,
+    exit: `You have left ${geofence.name}`,
+    dwell: `You are at ${geofence.name}`
+  }[hit.eventType];
+
+  return {
+    title: geofence.notification_title || geofence.name,
+    body: geofence.notification_body || defaultBody,
+    data: {
+      ...(geofence.notification_data || {}),
+      geofenceId: hit.geofenceId,
+      eventType: hit.eventType,
+      hitId: hit.id
+    }
+  };
+}
+
+/**
+ * Send a queued geofence push and record the outcome on the hit
+ */
+export const geofencePushHandler: NotificationJobHandler = async job => {
+  const delivery = await deliverPushToUser(job.payload.userId, job.payload.message);
+  if (job.geofenceHitId) {
+    await recordNotificationOutcome(pool, job.geofenceHitId, delivery);
+  }
+  return pushDeliveryOutcome(delivery);
+};
+
+/**
+ * Job outcome of a push delivery: sent if any device accepted it, permanent
+ * failure without devices or when every token was rejected for good
+ */
+export function pushDeliveryOutcome(delivery: PushDelivery): NotificationJobOutcome {
+  if (delivery.sent) {
+    return { ok: true, result: delivery };
+  }
+  const permanent = delivery.results.length === 0 || delivery.results.every(r => r.invalidToken);
+  const error = delivery.error ?? delivery.results.map(r => `${r.deviceId}: ${r.error}`).join('; ');
+  return { ok: false, error, permanent, result: delivery };
+}
+
+/**
+ * Record the delivery (or why it was suppressed) on the hit
+ */
+async function recordNotificationOutcome(
+  db: Pick<PoolClient, 'query'>,
+  hitId: string,
+  delivery: PushDelivery | null,
+  suppressionReason?: string
+): Promise<void> {
+  await db.query(`
+    UPDATE geofence_hits
+    SET notification_sent = $2,
+        notification_sent_at = CASE WHEN $2 THEN now() END,
+        notification_suppressed = $3,
+        suppression_reason = $4,
+        notification_response = $5::jsonb
+    WHERE id = $1
+  `, [
+    hitId,
+    delivery?.sent ?? false,
+    suppressionReason !== undefined,
+    suppressionReason ?? null,
+    delivery ? JSON.stringify(delivery) : null
+  ]);
+}
@@ -0,0 +1,172 @@
+import { isValidTimezone } from './notification-templates.js';
+
+/**
+ * Geofence schedules: when a fence is live
+ *
+ * A fence is live from `startsAt` (inclusive) until `endsAt` (exclusive),
+ * either of which may be open, and, when it has weekly windows, only inside
+ * one of them. Windows are wall-clock times in the fence's `timezone`:
+ *
+ *   [{ "days": ["mon", "tue", "wed", "thu", "fri"], "start": "09:00", "end": "18:00" },
+ *    { "days": ["sat"], "start": "22:00", "end": "02:00" }]
+ *
+ * A window whose end is not after its start runs past midnight into the next
+ * day, so the second one covers Saturday 22:00 to Sunday 02:00; equal start
+ * and end cover 24 hours. Fences without windows are live all day.
+ *
+ * `sql/014_geofence_schedules.sql` implements the same rules as
+ * `geofence_is_scheduled()` for the catch-up evaluator.
+ *
+ * A stay does not outlive its fence's schedule: once a fence has been off
+ * since a user's last location inside it (`isGeofenceScheduledThroughout`),
+ * both evaluators treat the user as outside without an `exit`, so the next
+ * live window starts fresh instead of ending or dwelling on a stale stay.
+ */
+
+export const SCHEDULE_DAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+
+export type ScheduleDay = typeof SCHEDULE_DAYS[number];
+
+export interface ScheduleWindow {
+  days: ScheduleDay[];
+  start: string; // HH:mm
+  end: string;
+}
+
+export interface GeofenceSchedule {
+  startsAt?: Date | string | null;
+  endsAt?: Date | string | null;
+  windows?: ScheduleWindow[] | null;
+  timezone?: string | null; // IANA, default UTC
+}
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toMinutes = (value: string) => Number(value.slice(0, 2)) * 60 + Number(value.slice(3, 5));
+
+/**
+ * Problems with a schedule; empty when valid
+ */
+export function validateGeofenceSchedule(schedule: GeofenceSchedule): string[] {
+  const errors: string[] = [];
+  const startsAt = schedule.startsAt ? new Date(schedule.startsAt) : null;
+  const endsAt = schedule.endsAt ? new Date(schedule.endsAt) : null;
+  if (startsAt && isNaN(startsAt.getTime())) errors.push('starts_at is not a valid date');
+  if (endsAt && isNaN(endsAt.getTime())) errors.push('ends_at is not a valid date');
+  if (startsAt && endsAt && startsAt >= endsAt) errors.push('ends_at must be after starts_at');
+
+  if (schedule.timezone && !isValidTimezone(schedule.timezone)) {
+    errors.push(`"${schedule.timezone}" is not an IANA time zone such as Europe/Berlin`);
+  }
+
+  const windows: unknown = schedule.windows;
+  if (windows === null || windows === undefined) return errors;
+  if (!Array.isArray(windows)) return [...errors, 'schedule_windows must be an array'];
+
+  windows.forEach((window: any, i) => {
+    if (!window || typeof window !== 'object') {
+      errors.push(`schedule_windows[${i}] must be an object`);
+      return;
+    }
+    if (!Array.isArray(window.days) || window.days.length === 0 || window.days.some((day: any) => !SCHEDULE_DAYS.includes(day))) {
+      errors.push(`schedule_windows[${i}].days must list days from ${SCHEDULE_DAYS.join(', ')}`);
+    }
+    for (const key of ['start', 'end']) {
+      if (typeof window[key] !== 'string' || !TIME_OF_DAY.test(window[key])) {
+        errors.push(`schedule_windows[${i}].${key} must be a time as HH:mm`);
+      }
+    }
+  });
+  return errors;
+}
+
+// Weekday and minutes since midnight of `at` in `timezone`
+function localDayTime(at: Date, timezone: string): { day: ScheduleDay; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short', hour: 'numeric', minute: 'numeric', hourCycle: 'h23' })
+      .formatToParts(at)
+      .map(part => [part.type, part.value])
+  );
+  return { day: parts.weekday.toLowerCase() as ScheduleDay, minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+}
+
+/**
+ * Whether the fence is live at `at`
+ */
+export function isGeofenceScheduled(schedule: GeofenceSchedule, at: Date = new Date()): boolean {
+  if (schedule.startsAt && at < new Date(schedule.startsAt)) return false;
+  if (schedule.endsAt && at >= new Date(schedule.endsAt)) return false;
+  if (!schedule.windows || schedule.windows.length === 0) return true;
+
+  const { day, minutes } = localDayTime(at, schedule.timezone || 'UTC');
+  const previousDay = SCHEDULE_DAYS[(SCHEDULE_DAYS.indexOf(day) + 6) % 7];
+  return schedule.windows.some(window => {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    if (start < end) {
+      return window.days.includes(day) && minutes >= start && minutes < end;
+    }
+    return (window.days.includes(day) && minutes >= start) || (window.days.includes(previousDay) && minutes < end);
+  });
+}
+
+// Wall clock date and time of `at` in `timezone`, as if it were UTC
+function wallClock(at: Date, timezone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone, year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric', hourCycle: 'h23'
+    })
+      .formatToParts(at)
+      .map(part => [part.type, Number(part.value)])
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+// Instant at which the wall clock of `timezone` reads `wall`
+function fromWallClock(wall: number, timezone: string): Date {
+  const guess = wall - (wallClock(new Date(wall), timezone) - wall);
+  return new Date(wall - (wallClock(new Date(guess), timezone) - guess));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the fence is live at every moment from `from` to `to`. A fence
+ * first goes off when a window ends, so it is enough to check each window end
+ * in between; windows repeat weekly, so only the last eight days are checked.
+ */
+export function isGeofenceScheduledThroughout(schedule: GeofenceSchedule, from: Date, to: Date): boolean {
+  if (!isGeofenceScheduled(schedule, from) || !isGeofenceScheduled(schedule, to)) return false;
+  if (!schedule.windows || schedule.windows.length === 0 || to <= from) return true;
+
+  const timezone = schedule.timezone || 'UTC';
+  const since = new Date(Math.max(from.getTime(), to.getTime() - 8 * DAY_MS));
+  const lastDay = Math.floor(wallClock(to, timezone) / DAY_MS) * DAY_MS;
+  // From the day before, for windows that run past midnight
+  for (let day = Math.floor(wallClock(since, timezone) / DAY_MS) * DAY_MS - DAY_MS; day <= lastDay; day += DAY_MS) {
+    const weekday = SCHEDULE_DAYS[(new Date(day).getUTCDay() + 6) % 7];
+    for (const window of schedule.windows) {
+      if (!window.days.includes(weekday)) continue;
+      const overnight = toMinutes(window.end) <= toMinutes(window.start);
+      const end = fromWallClock(day + (overnight ? DAY_MS : 0) + toMinutes(window.end) * 60000, timezone);
+      if (end > since && end <= to && !isGeofenceScheduled(schedule, end)) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * One-line summary for lists, e.g. "sat, sun 10:00–16:00 (Europe/Berlin), from 2026-05-01"
+ */
+export function describeGeofenceSchedule(schedule: GeofenceSchedule): string {
+  const parts: string[] = [];
+  if (schedule.windows && schedule.windows.length > 0) {
+    const windows = schedule.windows.map(window => `${window.days.join(', ')} ${window.start}–${window.end}`).join('; ');
+    parts.push(`${windows} (${schedule.timezone || 'UTC'})`);
+  }
+  const date = (value: Date | string) => new Date(value).toISOString().slice(0, 10);
+  if (schedule.startsAt) parts.push(`from ${date(schedule.startsAt)}`);
+  if (schedule.endsAt) parts.push(`until ${date(schedule.endsAt)}`);
+  return parts.length > 0 ? parts.join(', ') : 'always';
+}
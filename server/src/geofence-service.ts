@@ -1,21 +1,49 @@
+import { PoolClient } from 'pg';
 import { pool, query } from './db.js';
+import {
+  GeofenceEventType,
+  GeofenceMembership,
+  OUTSIDE_MEMBERSHIP,
+  nextGeofenceMembership
+} from './geofence-transitions.js';
+import { enqueueGeofenceNotifications } from './geofence-notifications.js';
+import { GeofenceSchedule, isGeofenceScheduledThroughout } from './geofence-schedules.js';
+import {
+  LocationConfidence,
+  MAX_LOCATION_ACCURACY_METERS,
+  MIN_ENTER_PROBABILITY,
+  assessLocationAccuracy,
+  isAccuracyRejected
+} from './location-accuracy.js';
 
 interface GeofenceConfig {
   batchSize: number;
   lookbackMinutes: number;
+  dwellMinutes: number; // default for fences without dwell_seconds, 0 disables
+  maxAccuracyMeters: number; // coarser locations are not evaluated
+  minEnterProbability: number; // probability of being inside a circle needed to enter
   logSpecId: string;
 }
 
 interface GeofenceHit {
+  id?: string; // set once stored
   geofenceId: string;
   geofenceName: string;
   userId: string;
   userLocationId: string;
   distanceMeters: number;
+  eventType: GeofenceEventType;
   detectionType: 'realtime' | 'catchup';
   metadata?: any;
 }
 
+interface MembershipUpdate {
+  userId: string;
+  geofenceId: string;
+  locationId: string;
+  state: GeofenceMembership;
+}
+
 interface UserLocationPoint {
   id: string;
   userId: string;
@@ -25,16 +53,6 @@ interface UserLocationPoint {
   createdAt: Date;
 }
 
-interface GeofenceZone {
-  id: string;
-  name: string;
-  latitude: number;
-  longitude: number;
-  radiusMeters: number;
-  isActive: boolean;
-  metadata: any;
-}
-
 export class GeofenceEvaluationService {
   private config: GeofenceConfig;
 
@@ -42,6 +60,9 @@ export class GeofenceEvaluationService {
     this.config = {
       batchSize: Number(process.env.GEOFENCE_BATCH_SIZE) || 100,
       lookbackMinutes: Number(process.env.GEOFENCE_LOOKBACK_MINUTES) || 30,
+      dwellMinutes: process.env.GEOFENCE_DWELL_MINUTES !== undefined ? Number(process.env.GEOFENCE_DWELL_MINUTES) : 10,
+      maxAccuracyMeters: Number(process.env.GEOFENCE_MAX_ACCURACY_METERS) || MAX_LOCATION_ACCURACY_METERS,
+      minEnterProbability: Number(process.env.GEOFENCE_MIN_ENTER_PROBABILITY) || MIN_ENTER_PROBABILITY,
       logSpecId: 'F-003',
       ...config
     };
@@ -49,7 +70,9 @@ export class GeofenceEvaluationService {
 
   /**
    * Main catch-up evaluation method - processes unprocessed user locations
-   * against active geofences to detect missed events
+   * against active geofences to detect missed events. Runs even while every
+   * fence is off schedule: locations count for the fences that were live when
+   * they were recorded, and stale stays still need closing.
    */
   async runCatchupEvaluation(): Promise<void> {
     const startTime = Date.now();
@@ -59,13 +82,6 @@ export class GeofenceEvaluationService {
     });
 
     try {
-      // Get active geofences
-      const geofences = await this.getActiveGeofences();
-      if (geofences.length === 0) {
-        this.log('No active geofences found', { count: 0 });
-        return;
-      }
-
       let totalProcessed = 0;
       let totalHits = 0;
       let hasMoreData = true;
@@ -85,22 +101,10 @@ export class GeofenceEvaluationService {
           lastLocationId: userLocations[userLocations.length - 1].id
         });
 
-        // Evaluate each location against all active geofences
-        const hits = await this.evaluateLocationsAgainstGeofences(userLocations, geofences);
-        
-        if (hits.length > 0) {
-          // Store geofence hits
-          await this.storeGeofenceHits(hits);
-          
-          // Send notifications
-          await this.sendNotifications(hits);
-          
-          totalHits += hits.length;
-        }
-
-        // Mark locations as processed
-        await this.markLocationsAsProcessed(userLocations.map(loc => loc.id));
+        // Evaluate the batch; states, hits, notification jobs and processed marks commit together
+        const hits = await this.processBatch(userLocations);
         
+        totalHits += hits.length;
         totalProcessed += userLocations.length;
 
         // Break if we processed less than the batch size (no more data)
@@ -109,12 +113,15 @@ export class GeofenceEvaluationService {
         }
       }
 
+      // Users who stayed inside without sending new locations
+      const dwellHits = await this.fireDueDwellEvents();
+      totalHits += dwellHits.length;
+
       const duration = Date.now() - startTime;
       this.log('Completed geofence catch-up evaluation', {
         totalProcessed,
         totalHits,
-        durationMs: duration,
-        geofenceCount: geofences.length
+        durationMs: duration
       });
 
     } catch (error) {
@@ -123,32 +130,6 @@ export class GeofenceEvaluationService {
     }
   }
 
-  /**
-   * Get all active geofences
-   */
-  private async getActiveGeofences(): Promise<GeofenceZone[]> {
-    const sql = `
-      SELECT id, name, 
-             ST_Y(geog::geometry) as latitude,
-             ST_X(geog::geometry) as longitude,
-             radius_meters, is_active, metadata
-      FROM geofences 
-      WHERE is_active = true
-      ORDER BY name
-    `;
-    
-    const result = await query(sql);
-    return result.rows.map(row => ({
-      id: row.id,
-      name: row.name,
-      latitude: row.latitude,
-      longitude: row.longitude,
-      radiusMeters: row.radius_meters,
-      isActive: row.is_active,
-      metadata: row.metadata || {}
-    }));
-  }
-
   /**
    * Get unprocessed user locations within the lookback window
    */
@@ -177,85 +158,298 @@ export class GeofenceEvaluationService {
   }
 
   /**
-   * Evaluate user locations against geofences to detect hits
+   * Evaluate one batch in a transaction: lock the batch users' membership
+   * states, apply the batch's locations in time order, then save the new
+   * states, the hits, their notification jobs and the processed marks.
+   */
+  private async processBatch(locations: UserLocationPoint[]): Promise<GeofenceHit[]> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const states = await this.loadGeofenceStates(client, [...new Set(locations.map(loc => loc.userId))]);
+      const { hits, updates } = await this.evaluateLocationsAgainstGeofences(client, locations, states);
+      await this.saveGeofenceStates(client, updates);
+      await this.storeGeofenceHits(client, hits);
+      await this.enqueueNotifications(client, hits);
+      await this.markLocationsAsProcessed(client, locations.map(loc => loc.id));
+      await client.query('COMMIT');
+      return hits;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Membership states of the given users, keyed by `userId:geofenceId`
+   */
+  private async loadGeofenceStates(client: PoolClient, userIds: string[]): Promise<Map<string, GeofenceMembership>> {
+    const result = await client.query(`
+      SELECT user_id, geofence_id, inside, entered_at, dwell_at, last_seen_at
+      FROM geofence_states
+      WHERE user_id = ANY($1::text[])
+      FOR UPDATE
+    `, [userIds]);
+
+    return new Map(result.rows.map(row => [
+      `${row.user_id}:${row.geofence_id}`,
+      { inside: row.inside, enteredAt: row.entered_at, dwellAt: row.dwell_at, lastSeenAt: row.last_seen_at }
+    ]));
+  }
+
+  /**
+   * Evaluate a batch of user locations against the active geofences in one
+   * set-based query, then run each user/geofence pair through the membership
+   * state machine in location order.
+   *
+   * The candidate fences of a user are those within the hysteresis buffer of
+   * any of the user's batch locations (found through the GIST indexes on both
+   * `geog` columns) plus those the user is currently inside, so every exit is
+   * seen. Circles match within `radius_meters` of the center. Polygons and
+   * multipolygons have no radius, so `ST_DWithin(.., 0)` matches points inside
+   * the area and not inside a hole. `distance_meters` is measured to the
+   * center, or to the centroid for polygons.
+   *
+   * Fences are only evaluated for locations recorded while they are live by
+   * their schedule (`geofence_is_scheduled`, see geofence-schedules.ts). A
+   * stay in a fence that has been off since the user's last location ends
+   * without an `exit`.
+   *
+   * Locations less accurate than `maxAccuracyMeters` are skipped, the exit
+   * buffer grows by each location's accuracy, and circle entries need
+   * `minEnterProbability` (see location-accuracy.ts).
    */
   private async evaluateLocationsAgainstGeofences(
-    locations: UserLocationPoint[], 
-    geofences: GeofenceZone[]
-  ): Promise<GeofenceHit[]> {
+    client: PoolClient,
+    locations: UserLocationPoint[],
+    states: Map<string, GeofenceMembership>
+  ): Promise<{ hits: GeofenceHit[]; updates: MembershipUpdate[] }> {
+    if (locations.length === 0) return { hits: [], updates: [] };
+
+    const sql = `
+      WITH batch AS (
+        SELECT id, user_id, geog, accuracy_meters, created_at
+        FROM user_locations
+        WHERE id = ANY($1::uuid[])
+      ),
+      candidates AS (
+        SELECT b.user_id, g.id AS geofence_id
+        FROM batch b
+        JOIN geofences g
+          ON g.is_active = true
+         AND geofence_is_scheduled(g.starts_at, g.ends_at, g.schedule_windows, g.schedule_timezone, b.created_at)
+         AND ST_DWithin(g.geog, b.geog, COALESCE(g.radius_meters, 0) + g.hysteresis_buffer_meters + COALESCE(b.accuracy_meters, 0))
+        UNION
+        SELECT s.user_id, s.geofence_id
+        FROM geofence_states s
+        WHERE s.inside AND s.user_id IN (SELECT user_id FROM batch)
+      )
+      SELECT b.id AS user_location_id, b.user_id, b.accuracy_meters, b.created_at,
+             g.id AS geofence_id, g.name AS geofence_name, g.metadata AS geofence_metadata,
+             g.starts_at, g.ends_at, g.schedule_windows, g.schedule_timezone,
+             COALESCE(g.dwell_seconds, $2::int) AS dwell_seconds,
+             g.radius_meters,
+             g.hysteresis_buffer_meters + COALESCE(b.accuracy_meters, 0) AS hysteresis_meters,
+             ST_Distance(b.geog, ST_Centroid(g.geog)) AS distance_meters,
+             ST_DWithin(g.geog, b.geog, COALESCE(g.radius_meters, 0)) AS inside,
+             ST_DWithin(g.geog, b.geog, COALESCE(g.radius_meters, 0) + g.hysteresis_buffer_meters + COALESCE(b.accuracy_meters, 0)) AS within_buffer
+      FROM candidates c
+      JOIN batch b ON b.user_id = c.user_id
+      JOIN geofences g ON g.id = c.geofence_id AND g.is_active = true
+       AND geofence_is_scheduled(g.starts_at, g.ends_at, g.schedule_windows, g.schedule_timezone, b.created_at)
+      ORDER BY b.created_at, b.id, g.name
+    `;
+
+    const rejected = locations.filter(loc => isAccuracyRejected(loc.accuracyMeters, this.config));
+    if (rejected.length > 0) {
+      this.log('Skipped low-accuracy locations', {
+        count: rejected.length,
+        maxAccuracyMeters: this.config.maxAccuracyMeters
+      });
+    }
+
+    const result = await client.query(sql, [
+      locations.filter(loc => !rejected.includes(loc)).map(loc => loc.id),
+      Math.round(this.config.dwellMinutes * 60)
+    ]);
     const hits: GeofenceHit[] = [];
+    const updates = new Map<string, MembershipUpdate>();
+
+    for (const row of result.rows) {
+      const key = `${row.user_id}:${row.geofence_id}`;
+      const assessment = assessLocationAccuracy({
+        accuracyMeters: row.accuracy_meters,
+        inside: row.inside,
+        withinBuffer: row.within_buffer,
+        hysteresisMeters: Number(row.hysteresis_meters),
+        circle: row.radius_meters != null ? { distanceMeters: row.distance_meters, radiusMeters: row.radius_meters } : null
+      }, this.config);
+      if (!assessment) continue;
+
+      const at = new Date(row.created_at);
+      let membership = states.get(key) ?? OUTSIDE_MEMBERSHIP;
+      if (membership.inside && membership.lastSeenAt && !isGeofenceScheduledThroughout(this.schedule(row), membership.lastSeenAt, at)) {
+        membership = { ...OUTSIDE_MEMBERSHIP, lastSeenAt: membership.lastSeenAt };
+      }
 
-    for (const location of locations) {
-      for (const geofence of geofences) {
-        const distance = this.calculateDistance(
-          location.latitude,
-          location.longitude,
-          geofence.latitude,
-          geofence.longitude
-        );
-
-        // Check if location is within geofence radius
-        if (distance <= geofence.radiusMeters) {
-          // Check if this user already has a recent hit for this geofence
-          const hasRecentHit = await this.hasRecentGeofenceHit(
-            geofence.id,
-            location.userId,
-            location.createdAt
-          );
-
-          if (!hasRecentHit) {
-            hits.push({
-              geofenceId: geofence.id,
-              geofenceName: geofence.name,
-              userId: location.userId,
-              userLocationId: location.id,
-              distanceMeters: distance,
-              detectionType: 'catchup',
-              metadata: {
-                accuracy: location.accuracyMeters,
-                geofenceMetadata: geofence.metadata
-              }
-            });
-
-            this.log('Geofence hit detected', {
-              geofenceId: geofence.id,
-              geofenceName: geofence.name,
-              userId: location.userId,
-              distance: Math.round(distance),
-              detectionType: 'catchup'
-            });
-          }
-        }
+      const { state, event } = nextGeofenceMembership(
+        membership,
+        { at, inside: assessment.inside, withinBuffer: assessment.withinBuffer },
+        row.dwell_seconds * 1000
+      );
+
+      // Pairs that never had a state and produced no event stay untracked
+      if (states.has(key) || event) {
+        states.set(key, state);
+        updates.set(key, { userId: row.user_id, geofenceId: row.geofence_id, locationId: row.user_location_id, state });
+      }
+      if (event) {
+        hits.push(this.toGeofenceHit(row, event, assessment.confidence));
       }
     }
 
-    return hits;
+    return { hits, updates: [...updates.values()] };
   }
 
   /**
-   * Check if user has a recent hit for the same geofence (to avoid duplicate notifications)
+   * Fire `dwell` for users still inside a fence after its dwell time whose last
+   * location is within the lookback window, for devices that stop reporting
+   * while stationary. The hit is attributed to the user's last location. Stays
+   * in a fence that has been off since that location are closed instead.
    */
-  private async hasRecentGeofenceHit(
-    geofenceId: string, 
-    userId: string, 
-    currentTime: Date
-  ): Promise<boolean> {
-    const sql = `
-      SELECT 1 FROM geofence_hits 
-      WHERE geofence_id = $1 
-        AND user_id = $2 
-        AND created_at >= $3 - INTERVAL '15 minutes'
-      LIMIT 1
-    `;
-    
-    const result = await query(sql, [geofenceId, userId, currentTime]);
-    return result.rows.length > 0;
+  private async fireDueDwellEvents(): Promise<GeofenceHit[]> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(`
+        SELECT s.user_id, s.geofence_id, s.last_seen_at, s.last_location_id AS user_location_id,
+               g.name AS geofence_name, g.metadata AS geofence_metadata,
+               g.starts_at, g.ends_at, g.schedule_windows, g.schedule_timezone,
+               l.accuracy_meters, ST_Distance(l.geog, ST_Centroid(g.geog)) AS distance_meters
+        FROM geofence_states s
+        JOIN geofences g ON g.id = s.geofence_id
+        JOIN user_locations l ON l.id = s.last_location_id
+        WHERE g.is_active = true
+          AND geofence_is_scheduled(g.starts_at, g.ends_at, g.schedule_windows, g.schedule_timezone, now())
+          AND s.inside
+          AND s.dwell_at IS NULL
+          AND s.last_seen_at >= now() - make_interval(mins => $2::int)
+          AND COALESCE(g.dwell_seconds, $1::int) > 0
+          AND s.entered_at <= now() - make_interval(secs => COALESCE(g.dwell_seconds, $1::int))
+        FOR UPDATE OF s
+      `, [Math.round(this.config.dwellMinutes * 60), this.config.lookbackMinutes]);
+
+      const now = new Date();
+      const due = result.rows.filter(row => isGeofenceScheduledThroughout(this.schedule(row), new Date(row.last_seen_at), now));
+      const stale = result.rows.filter(row => !due.includes(row));
+
+      if (due.length > 0) {
+        await client.query(`
+          UPDATE geofence_states s
+          SET dwell_at = now(), updated_at = now()
+          FROM unnest($1::text[], $2::uuid[]) AS d(user_id, geofence_id)
+          WHERE s.user_id = d.user_id AND s.geofence_id = d.geofence_id
+        `, [due.map(row => row.user_id), due.map(row => row.geofence_id)]);
+      }
+      await this.closeMemberships(client, stale);
+
+      const hits = due.map(row => this.toGeofenceHit(row, 'dwell'));
+      await this.storeGeofenceHits(client, hits);
+      await this.enqueueNotifications(client, hits);
+      await client.query('COMMIT');
+      return hits;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * End stays without an event, for fences that went off during the stay
+   */
+  private async closeMemberships(client: PoolClient, rows: Array<{ user_id: string; geofence_id: string }>): Promise<void> {
+    if (rows.length === 0) return;
+
+    await client.query(`
+      UPDATE geofence_states s
+      SET inside = false, entered_at = NULL, dwell_at = NULL, updated_at = now()
+      FROM unnest($1::text[], $2::uuid[]) AS c(user_id, geofence_id)
+      WHERE s.user_id = c.user_id AND s.geofence_id = c.geofence_id
+    `, [rows.map(row => row.user_id), rows.map(row => row.geofence_id)]);
+    this.log('Closed stays in unscheduled geofences', { count: rows.length });
+  }
+
+  private schedule(row: any): GeofenceSchedule {
+    return {
+      startsAt: row.starts_at,
+      endsAt: row.ends_at,
+      windows: row.schedule_windows,
+      timezone: row.schedule_timezone
+    };
+  }
+
+  private toGeofenceHit(row: any, eventType: GeofenceEventType, locationConfidence?: LocationConfidence): GeofenceHit {
+    const hit: GeofenceHit = {
+      geofenceId: row.geofence_id,
+      geofenceName: row.geofence_name,
+      userId: row.user_id,
+      userLocationId: row.user_location_id,
+      distanceMeters: row.distance_meters,
+      eventType,
+      detectionType: 'catchup',
+      metadata: {
+        accuracy: row.accuracy_meters ?? undefined,
+        locationConfidence,
+        geofenceMetadata: row.geofence_metadata || {}
+      }
+    };
+
+    this.log('Geofence hit detected', {
+      geofenceId: hit.geofenceId,
+      geofenceName: hit.geofenceName,
+      userId: hit.userId,
+      eventType,
+      distance: Math.round(hit.distanceMeters),
+      detectionType: 'catchup'
+    });
+    return hit;
+  }
+
+  /**
+   * Upsert membership states
+   */
+  private async saveGeofenceStates(client: PoolClient, updates: MembershipUpdate[]): Promise<void> {
+    if (updates.length === 0) return;
+
+    await client.query(`
+      INSERT INTO geofence_states (user_id, geofence_id, inside, entered_at, dwell_at, last_seen_at, last_location_id)
+      SELECT * FROM unnest($1::text[], $2::uuid[], $3::boolean[], $4::timestamptz[], $5::timestamptz[], $6::timestamptz[], $7::uuid[])
+      ON CONFLICT (user_id, geofence_id) DO UPDATE SET
+        inside = EXCLUDED.inside,
+        entered_at = EXCLUDED.entered_at,
+        dwell_at = EXCLUDED.dwell_at,
+        last_seen_at = EXCLUDED.last_seen_at,
+        last_location_id = EXCLUDED.last_location_id,
+        updated_at = now()
+    `, [
+      updates.map(u => u.userId),
+      updates.map(u => u.geofenceId),
+      updates.map(u => u.state.inside),
+      updates.map(u => u.state.enteredAt),
+      updates.map(u => u.state.dwellAt),
+      updates.map(u => u.state.lastSeenAt),
+      updates.map(u => u.locationId)
+    ]);
   }
 
   /**
    * Store geofence hits in the database
    */
-  private async storeGeofenceHits(hits: GeofenceHit[]): Promise<void> {
+  private async storeGeofenceHits(client: PoolClient, hits: GeofenceHit[]): Promise<void> {
     if (hits.length === 0) return;
 
     const values: string[] = [];
@@ -263,12 +457,13 @@ export class GeofenceEvaluationService {
     let paramIndex = 1;
 
     for (const hit of hits) {
-      values.push(`($${paramIndex++}, $${paramIndex++}, $${paramIndex++}, $${paramIndex++}, $${paramIndex++}, $${paramIndex++}, $${paramIndex++})`);
+      values.push(`($${paramIndex++}, $${paramIndex++}, $${paramIndex++}, $${paramIndex++}, $${paramIndex++}, $${paramIndex++}, $${paramIndex++}, $${paramIndex++})`);
       params.push(
         hit.geofenceId,
         hit.userId,
         hit.userLocationId,
         hit.distanceMeters,
+        hit.eventType,
         hit.detectionType,
         false, // notification_sent - will be updated after sending
         JSON.stringify(hit.metadata || {})
@@ -277,58 +472,30 @@ export class GeofenceEvaluationService {
 
     const sql = `
       INSERT INTO geofence_hits 
-      (geofence_id, user_id, user_location_id, distance_meters, detection_type, notification_sent, metadata)
+      (geofence_id, user_id, user_location_id, distance_meters, event_type, detection_type, notification_sent, metadata)
       VALUES ${values.join(', ')}
+      RETURNING id
     `;
 
-    await query(sql, params);
+    // Rows come back in VALUES order
+    const result = await client.query(sql, params);
+    result.rows.forEach((row, i) => { hits[i].id = row.id; });
     this.log('Stored geofence hits', { count: hits.length });
   }
 
   /**
-   * Send notifications for geofence hits
+   * Queue push notifications for the hits; the notification worker sends them
    */
-  private async sendNotifications(hits: GeofenceHit[]): Promise<void> {
-    // Group hits by user to batch notifications
-    const hitsByUser = hits.reduce((acc, hit) => {
-      if (!acc[hit.userId]) acc[hit.userId] = [];
-      acc[hit.userId].push(hit);
-      return acc;
-    }, {} as Record<string, GeofenceHit[]>);
-
-    for (const [userId, userHits] of Object.entries(hitsByUser)) {
-      try {
-        // For now, just log the notification
-        // In a real implementation, this would integrate with a notification service
-        this.log('Sending notification', {
-          userId,
-          geofenceHits: userHits.map(hit => ({
-            geofenceName: hit.geofenceName,
-            distance: Math.round(hit.distanceMeters)
-          }))
-        });
-
-        // Mark notifications as sent
-        const hitIds = userHits.map(hit => `'${hit.geofenceId}'`).join(',');
-        await query(`
-          UPDATE geofence_hits 
-          SET notification_sent = true 
-          WHERE geofence_id IN (${hitIds}) AND user_id = $1
-        `, [userId]);
-
-      } catch (error) {
-        this.log('Failed to send notification', { 
-          userId, 
-          error: error instanceof Error ? error.message : String(error) 
-        }, 'error');
-      }
-    }
+  private async enqueueNotifications(client: PoolClient, hits: GeofenceHit[]): Promise<void> {
+    if (hits.length === 0) return;
+    const enqueued = await enqueueGeofenceNotifications(client, hits);
+    this.log('Queued notifications', { hits: hits.length, jobs: enqueued });
   }
 
   /**
    * Mark user locations as processed
    */
-  private async markLocationsAsProcessed(locationIds: string[]): Promise<void> {
+  private async markLocationsAsProcessed(client: PoolClient, locationIds: string[]): Promise<void> {
     if (locationIds.length === 0) return;
 
     const placeholders = locationIds.map((_, i) => `$${i + 1}`).join(',');
@@ -338,25 +505,7 @@ export class GeofenceEvaluationService {
       WHERE id IN (${placeholders})
     `;
 
-    await query(sql, locationIds);
-  }
-
-  /**
-   * Calculate distance between two points using Haversine formula
-   */
-  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = lat1 * Math.PI / 180;
-    const φ2 = lat2 * Math.PI / 180;
-    const Δφ = (lat2 - lat1) * Math.PI / 180;
-    const Δλ = (lon2 - lon1) * Math.PI / 180;
-
-    const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ/2) * Math.sin(Δλ/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-
-    return R * c;
+    await client.query(sql, locationIds);
   }
 
   /**
@@ -0,0 +1,68 @@
+/**
+ * Geofence membership state machine.
+ *
+ * Shared by the Express catch-up evaluator and the Strapi geofences plugin so
+ * both emit the same `enter`, `exit` and `dwell` events. Each user/geofence pair
+ * has a membership state; every location observation moves it at most one step:
+ *
+ * - outside → inside when the location is within the fence: `enter`
+ * - inside → outside only once the location is beyond the fence grown by the
+ *   hysteresis buffer, so GPS jitter at the edge does not flap: `exit`
+ * - inside for `dwellMs` or longer: `dwell`, once per stay
+ */
+
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell';
+
+export const GEOFENCE_EVENT_TYPES: GeofenceEventType[] = ['enter', 'exit', 'dwell'];
+
+export interface GeofenceMembership {
+  inside: boolean;
+  enteredAt: Date | null;
+  dwellAt: Date | null; // when dwell fired during the current stay
+  lastSeenAt: Date | null;
+}
+
+export interface GeofenceObservation {
+  at: Date;
+  inside: boolean; // within the fence
+  withinBuffer: boolean; // within the fence grown by the hysteresis buffer
+}
+
+export const OUTSIDE_MEMBERSHIP: GeofenceMembership = {
+  inside: false,
+  enteredAt: null,
+  dwellAt: null,
+  lastSeenAt: null
+};
+
+/**
+ * Apply one observation. Observations at or before `lastSeenAt` arrived out of
+ * order and leave the state unchanged. `dwellMs` of 0 disables dwell events.
+ */
+export function nextGeofenceMembership(
+  state: GeofenceMembership,
+  observation: GeofenceObservation,
+  dwellMs: number
+): { state: GeofenceMembership; event: GeofenceEventType | null } {
+  const { at } = observation;
+  if (state.lastSeenAt && at <= state.lastSeenAt) {
+    return { state, event: null };
+  }
+
+  if (!state.inside) {
+    if (observation.inside) {
+      return { state: { inside: true, enteredAt: at, dwellAt: null, lastSeenAt: at }, event: 'enter' };
+    }
+    return { state: { ...state, lastSeenAt: at }, event: null };
+  }
+
+  if (!observation.withinBuffer) {
+    return { state: { inside: false, enteredAt: null, dwellAt: null, lastSeenAt: at }, event: 'exit' };
+  }
+
+  const enteredAt = state.enteredAt ?? at;
+  if (dwellMs > 0 && !state.dwellAt && at.getTime() - enteredAt.getTime() >= dwellMs) {
+    return { state: { ...state, enteredAt, dwellAt: at, lastSeenAt: at }, event: 'dwell' };
+  }
+  return { state: { ...state, enteredAt, lastSeenAt: at }, event: null };
+}
@@ -0,0 +1,86 @@
+/**
+ * GeoJSON (RFC 7946) output for event queries.
+ *
+ * Shared by the Express server and the Strapi geolocation plugin. Clients opt in
+ * with `?format=geojson` or `Accept: application/geo+json`; event rows must
+ * carry their geometry as a `geojson` column (`ST_AsGeoJSON(geog::geometry)`).
+ */
+
+export const GEOJSON_MEDIA_TYPE = 'application/geo+json';
+
+export interface EventRow {
+  id: string;
+  title: string;
+  payload: unknown;
+  created_at: Date | string;
+  geojson: string;
+  [column: string]: unknown;
+}
+
+export interface EventFeature {
+  type: 'Feature';
+  id: string;
+  geometry: { type: 'Point'; coordinates: [number, number] };
+  properties: {
+    title: string;
+    payload: unknown;
+    created_at: Date | string;
+    starts_at?: Date | string | null;
+    expires_at?: Date | string | null;
+    distance?: number;
+  };
+}
+
+export interface EventFeatureCollection {
+  type: 'FeatureCollection';
+  features: EventFeature[];
+  [foreignMember: string]: unknown;
+}
+
+export interface FeatureCollectionOptions {
+  /** Column holding the distance in meters (e.g. `meters` for radius, `dist` for nearest) */
+  distanceColumn?: string;
+  /** Extra top-level members, such as pagination cursors */
+  members?: Record<string, unknown>;
+}
+
+/**
+ * Whether the client asked for GeoJSON, via `format` or the Accept header
+ */
+export function wantsGeoJson(format: unknown, accept?: string): boolean {
+  if (format === 'geojson') return true;
+  if (format !== undefined && format !== '') return false;
+  return !!accept && accept.toLowerCase().includes(GEOJSON_MEDIA_TYPE);
+}
+
+export function toEventFeature(row: EventRow, distanceColumn?: string): EventFeature {
+  const feature: EventFeature = {
+    type: 'Feature',
+    id: row.id,
+    geometry: JSON.parse(row.geojson),
+    properties: {
+      title: row.title,
+      payload: row.payload,
+      created_at: row.created_at
+    }
+  };
+  // Validity window, when the query selected it
+  for (const column of ['starts_at', 'expires_at'] as const) {
+    if (row[column] !== undefined) feature.properties[column] = row[column] as Date | string | null;
+  }
+  if (distanceColumn && row[distanceColumn] !== undefined && row[distanceColumn] !== null) {
+    feature.properties.distance = Number(row[distanceColumn]);
+  }
+  return feature;
+}
+
+export function toEventFeatureCollection(
+  rows: EventRow[],
+  options: FeatureCollectionOptions = {}
+): EventFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: rows.map(row => toEventFeature(row, options.distanceColumn)),
+    ...options.members
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Location accuracy in geofence evaluation (F-003 AC-003, AC-004)
+ *
+ * Shared by the Express catch-up evaluator and the Strapi geofences plugin.
+ * A location's `accuracy` is the radius, in meters, of the 68% confidence
+ * circle around the reported position (the Android and iOS convention),
+ * modelled as a 2D normal distribution. For each location and fence:
+ *
+ * - `rejected`: accuracy above `maxAccuracyMeters` (50m); the location is not
+ *   evaluated at all and leaves every membership unchanged
+ * - `downgraded`: inside a circular fence, but the probability that the true
+ *   position is inside is below `minEnterProbability`; it cannot cause an
+ *   `enter`, but keeps a user who is already inside from exiting
+ * - `accepted`: evaluated as reported
+ * - `unknown`: no accuracy reported; evaluated as reported
+ *
+ * The exit hysteresis buffer grows by the accuracy, so a coarse fix just
+ * outside the fence does not end a stay.
+ */
+
+export const MAX_LOCATION_ACCURACY_METERS = 50;
+export const MIN_ENTER_PROBABILITY = 0.7;
+
+// 68% radius of a 2D normal distribution is sqrt(-2 ln 0.32) ≈ 1.51 sigma
+const SIGMA_PER_ACCURACY = 1 / Math.sqrt(-2 * Math.log(0.32));
+
+export type AccuracyDecision = 'accepted' | 'downgraded' | 'rejected' | 'unknown';
+
+export interface AccuracyOptions {
+  maxAccuracyMeters?: number;
+  minEnterProbability?: number;
+}
+
+export interface LocationConfidence {
+  decision: AccuracyDecision;
+  accuracyMeters: number | null;
+  probabilityInside: number | null; // circles with a known accuracy
+  hysteresisMeters: number;
+}
+
+export interface AccuracyAssessment {
+  inside: boolean;
+  withinBuffer: boolean;
+  confidence: LocationConfidence;
+}
+
+/**
+ * Exit hysteresis buffer widened by the location's uncertainty
+ */
+export function scaledHysteresis(bufferMeters: number, accuracyMeters?: number | null): number {
+  return bufferMeters + (accuracyMeters ?? 0);
+}
+
+export function isAccuracyRejected(accuracyMeters: number | null | undefined, options: AccuracyOptions = {}): boolean {
+  return accuracyMeters != null && accuracyMeters > (options.maxAccuracyMeters ?? MAX_LOCATION_ACCURACY_METERS);
+}
+
+// exp(-|x|) I0(x), polynomial approximation (Abramowitz & Stegun 9.8.1, 9.8.2)
+function scaledBesselI0(x: number): number {
+  const ax = Math.abs(x);
+  if (ax < 3.75) {
+    const y = (x / 3.75) ** 2;
+    return Math.exp(-ax) * (1 + y * (3.5156229 + y * (3.0899424 + y * (1.2067492 +
+      y * (0.2659732 + y * (0.0360768 + y * 0.0045813))))));
+  }
+  const y = 3.75 / ax;
+  return (0.39894228 + y * (0.01328592 + y * (0.00225319 + y * (-0.00157565 + y * (0.00916281 +
+    y * (-0.02057706 + y * (0.02635537 + y * (-0.01647633 + y * 0.00392377)))))))) / Math.sqrt(ax);
+}
+
+/**
+ * Probability that the true position is inside a circle of `radiusMeters`,
+ * given a reported position `distanceMeters` from its center: the Rice CDF,
+ * integrated with Simpson's rule over ±8 sigma around the reported distance
+ */
+export function circleInsideProbability(distanceMeters: number, radiusMeters: number, accuracyMeters: number): number {
+  const sigma = accuracyMeters * SIGMA_PER_ACCURACY;
+  if (sigma <= 0) return distanceMeters <= radiusMeters ? 1 : 0;
+
+  const from = Math.max(0, distanceMeters - 8 * sigma);
+  const to = Math.min(radiusMeters, distanceMeters + 8 * sigma);
+  if (to <= from) return 0;
+
+  const density = (r: number) =>
+    (r / sigma ** 2) * Math.exp(-((r - distanceMeters) ** 2) / (2 * sigma ** 2)) * scaledBesselI0(r * distanceMeters / sigma ** 2);
+  const steps = 200;
+  const h = (to - from) / steps;
+  let sum = density(from) + density(to);
+  for (let i = 1; i < steps; i++) {
+    sum += density(from + i * h) * (i % 2 === 0 ? 2 : 4);
+  }
+  return Math.min(1, Math.max(0, (sum * h) / 3));
+}
+
+/**
+ * Decide how a location counts for one fence. `inside` and `withinBuffer` are
+ * the reported position's tests, the latter against the fence grown by
+ * `hysteresisMeters` (see `scaledHysteresis`). `circle` enables the
+ * probability check. Rejected locations return null.
+ */
+export function assessLocationAccuracy(
+  location: {
+    accuracyMeters?: number | null;
+    inside: boolean;
+    withinBuffer: boolean;
+    hysteresisMeters: number;
+    circle?: { distanceMeters: number; radiusMeters: number } | null;
+  },
+  options: AccuracyOptions = {}
+): AccuracyAssessment | null {
+  const accuracyMeters = location.accuracyMeters ?? null;
+  if (isAccuracyRejected(accuracyMeters, options)) return null;
+
+  const confidence: LocationConfidence = {
+    decision: accuracyMeters === null ? 'unknown' : 'accepted',
+    accuracyMeters,
+    probabilityInside: null,
+    hysteresisMeters: location.hysteresisMeters
+  };
+  let inside = location.inside;
+
+  if (accuracyMeters !== null && location.circle) {
+    const { distanceMeters, radiusMeters } = location.circle;
+    confidence.probabilityInside = Math.round(circleInsideProbability(distanceMeters, radiusMeters, accuracyMeters) * 1000) / 1000;
+    if (inside && confidence.probabilityInside < (options.minEnterProbability ?? MIN_ENTER_PROBABILITY)) {
+      confidence.decision = 'downgraded';
+      inside = false;
+    }
+  }
+
+  return { inside, withinBuffer: location.withinBuffer || inside, confidence };
+}
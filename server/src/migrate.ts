@@ -1,27 +1,52 @@
 import 'dotenv/config';
-import { readFileSync, readdirSync } from 'fs';
-import { dirname, join } from 'path';
-import { fileURLToPath } from 'url';
 import { pool } from './db.js';
+import { baseline, down, ensureLedger, status, up } from './migrations.js';
+
+/**
+ * Migration command line, see migrations.ts
+ *
+ * Usage: tsx src/migrate.ts [up | status | down [steps] | baseline <version>]
+ */
+
+// Arbitrary key for pg_advisory_lock so concurrent runners never interleave
+const MIGRATION_LOCK_KEY = 4_000_001;
 
 async function run() {
-  const __dirname = dirname(fileURLToPath(import.meta.url));
-  const dir = join(__dirname, '..', 'sql');
-  const files = readdirSync(dir)
-    .filter(f => f.endsWith('.sql'))
-    .sort();
-  for (const f of files) {
-    const p = join(dir, f);
-    const sql = readFileSync(p, 'utf8');
-    console.log(`Running migration: ${f}`);
-    await pool.query(sql);
+  const [command = 'up', arg] = process.argv.slice(2);
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    await ensureLedger(client);
+
+    switch (command) {
+      case 'up':
+        await up(client);
+        break;
+      case 'status':
+        await status(client);
+        break;
+      case 'down': {
+        const steps = arg === undefined ? 1 : Number(arg);
+        if (!Number.isInteger(steps) || steps < 1) throw new Error(`Invalid step count: ${arg}`);
+        await down(client, steps);
+        break;
+      }
+      case 'baseline':
+        if (!arg || !/^\d+$/.test(arg)) throw new Error('Usage: migrate baseline <version>');
+        await baseline(client, arg);
+        break;
+      default:
+        throw new Error(`Unknown command "${command}". Use up, status, down [steps] or baseline <version>`);
+    }
+  } finally {
+    try { await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]); } catch {}
+    client.release();
   }
-  console.log('Migrations completed');
   await pool.end();
 }
 
 run().catch(async (e) => {
-  console.error('Migration failed:', e);
+  console.error('Migration failed:', e instanceof Error ? e.message : e);
   try { await pool.end(); } catch {}
   process.exit(1);
 });
@@ -0,0 +1,241 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import type { PoolClient } from 'pg';
+
+/**
+ * Versioned migrations
+ *
+ * Each `sql/NNN_name.sql` file is applied exactly once inside a transaction and
+ * recorded in `schema_migrations` together with a SHA-256 checksum of its
+ * contents. `sql/down/NNN_name.sql` holds the matching down-migration. The
+ * commands take the directory so tests can point them at their own files;
+ * `migrate.ts` runs them from the command line.
+ */
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const SQL_DIR = join(__dirname, '..', 'sql');
+
+export interface Migration {
+  version: string;
+  name: string;
+  file: string;
+  sql: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+export function checksum(sql: string): string {
+  // Normalize line endings so a git autocrlf checkout does not look like an edit
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+/**
+ * Read migration files from disk, ordered by version
+ */
+export function loadMigrations(dir = SQL_DIR): Migration[] {
+  const seen = new Map<string, string>();
+  const migrations = readdirSync(dir)
+    .filter(f => f.endsWith('.sql'))
+    .map(file => {
+      const match = /^(\d+)_(.+)\.sql$/.exec(file);
+      if (!match) throw new Error(`Invalid migration filename "${file}", expected NNN_name.sql`);
+      const [, version, name] = match;
+      const duplicate = seen.get(version);
+      if (duplicate) throw new Error(`Duplicate migration version ${version}: ${duplicate} and ${file}`);
+      seen.set(version, file);
+      const sql = readFileSync(join(dir, file), 'utf8');
+      return { version, name, file, sql, checksum: checksum(sql) };
+    });
+  return migrations.sort((a, b) => Number(a.version) - Number(b.version));
+}
+
+export async function ensureLedger(client: PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      execution_ms INTEGER NOT NULL DEFAULT 0,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )
+  `);
+}
+
+async function getAppliedMigrations(client: PoolClient): Promise<AppliedMigration[]> {
+  const result = await client.query(`
+    SELECT version, name, checksum, applied_at
+    FROM schema_migrations
+    ORDER BY version::int ASC
+  `);
+  return result.rows.map(row => ({
+    version: row.version,
+    name: row.name,
+    checksum: row.checksum,
+    appliedAt: new Date(row.applied_at)
+  }));
+}
+
+/**
+ * Compare the ledger with the files on disk. Returns one message per problem.
+ */
+export function findDrift(migrations: Migration[], applied: AppliedMigration[], dir = SQL_DIR): string[] {
+  const byVersion = new Map(migrations.map(m => [m.version, m]));
+  const problems: string[] = [];
+
+  for (const a of applied) {
+    const m = byVersion.get(a.version);
+    if (!m) {
+      problems.push(`${a.version}_${a.name}.sql was applied but is missing from ${dir}`);
+    } else if (m.checksum !== a.checksum) {
+      problems.push(`${m.file} was modified after it was applied (checksum ${a.checksum.slice(0, 12)} -> ${m.checksum.slice(0, 12)})`);
+    }
+  }
+
+  const latest = applied.length ? Number(applied[applied.length - 1].version) : -1;
+  const appliedVersions = new Set(applied.map(a => a.version));
+  for (const m of migrations) {
+    if (!appliedVersions.has(m.version) && Number(m.version) < latest) {
+      problems.push(`${m.file} is pending but older than the latest applied migration; renumber it`);
+    }
+  }
+
+  return problems;
+}
+
+function assertNoDrift(migrations: Migration[], applied: AppliedMigration[], dir: string): void {
+  const problems = findDrift(migrations, applied, dir);
+  if (problems.length > 0) {
+    throw new Error(`Schema drift detected:\n  - ${problems.join('\n  - ')}\nAdd a new migration instead of editing an applied one.`);
+  }
+}
+
+async function inTransaction(client: PoolClient, fn: () => Promise<void>): Promise<void> {
+  await client.query('BEGIN');
+  try {
+    await fn();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+export async function up(client: PoolClient, dir = SQL_DIR): Promise<void> {
+  const migrations = loadMigrations(dir);
+  const applied = await getAppliedMigrations(client);
+  assertNoDrift(migrations, applied, dir);
+
+  const appliedVersions = new Set(applied.map(a => a.version));
+  const pending = migrations.filter(m => !appliedVersions.has(m.version));
+  if (pending.length === 0) {
+    console.log('Database is up to date');
+    return;
+  }
+
+  for (const m of pending) {
+    console.log(`Applying migration: ${m.file}`);
+    const startTime = Date.now();
+    try {
+      await inTransaction(client, async () => {
+        await client.query(m.sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)',
+          [m.version, m.name, m.checksum, Date.now() - startTime]
+        );
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${m.file} failed and was rolled back: ${message}`);
+    }
+  }
+  console.log(`Applied ${pending.length} migration(s)`);
+}
+
+export async function status(client: PoolClient, dir = SQL_DIR): Promise<void> {
+  const migrations = loadMigrations(dir);
+  const applied = await getAppliedMigrations(client);
+  const appliedByVersion = new Map(applied.map(a => [a.version, a]));
+  const fileVersions = new Set(migrations.map(m => m.version));
+
+  const rows = migrations.map(m => {
+    const a = appliedByVersion.get(m.version);
+    const state = !a ? 'pending' : a.checksum === m.checksum ? 'applied' : 'MODIFIED';
+    return { version: m.version, name: m.name, state, applied_at: a?.appliedAt.toISOString() ?? '' };
+  });
+  for (const a of applied) {
+    if (!fileVersions.has(a.version)) {
+      rows.push({ version: a.version, name: a.name, state: 'MISSING', applied_at: a.appliedAt.toISOString() });
+    }
+  }
+  rows.sort((a, b) => Number(a.version) - Number(b.version));
+  console.table(rows);
+
+  const problems = findDrift(migrations, applied, dir);
+  if (problems.length > 0) {
+    console.error(`Schema drift detected:\n  - ${problems.join('\n  - ')}`);
+    process.exitCode = 1;
+  }
+}
+
+export async function down(client: PoolClient, steps: number, dir = SQL_DIR): Promise<void> {
+  const migrations = loadMigrations(dir);
+  const applied = await getAppliedMigrations(client);
+  assertNoDrift(migrations, applied, dir);
+
+  const toRevert = applied.slice(-steps).reverse();
+  if (toRevert.length === 0) {
+    console.log('No applied migrations to revert');
+    return;
+  }
+
+  for (const a of toRevert) {
+    const file = `${a.version}_${a.name}.sql`;
+    const downPath = join(dir, 'down', file);
+    if (!existsSync(downPath)) {
+      throw new Error(`No down-migration for ${file} (expected ${downPath})`);
+    }
+    console.log(`Reverting migration: ${file}`);
+    try {
+      await inTransaction(client, async () => {
+        await client.query(readFileSync(downPath, 'utf8'));
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [a.version]);
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Reverting ${file} failed and was rolled back: ${message}`);
+    }
+  }
+  console.log(`Reverted ${toRevert.length} migration(s)`);
+}
+
+/**
+ * Record migrations up to and including `version` as applied without running
+ * them. Used once for databases migrated before the ledger existed.
+ */
+export async function baseline(client: PoolClient, version: string, dir = SQL_DIR): Promise<void> {
+  const applied = await getAppliedMigrations(client);
+  if (applied.length > 0) {
+    throw new Error('Baseline is only allowed on a database without recorded migrations');
+  }
+  const migrations = loadMigrations(dir).filter(m => Number(m.version) <= Number(version));
+  if (migrations.length === 0) {
+    throw new Error(`No migrations found up to version ${version}`);
+  }
+  await inTransaction(client, async () => {
+    for (const m of migrations) {
+      await client.query(
+        'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+        [m.version, m.name, m.checksum]
+      );
+      console.log(`Baselined migration: ${m.file}`);
+    }
+  });
+}
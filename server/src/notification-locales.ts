@@ -0,0 +1,116 @@
+import { DeviceRegistrationRecord } from './deviceRegistrations.js';
+
+/**
+ * Locale selection for notification templates
+ *
+ * A template's `title`/`message`/`sms_template`/`email_template` hold its
+ * default text; `locales` maps locale codes to variants that override any of
+ * those fields:
+ *
+ *   { "de": { "title": "Willkommen", "message": "…" }, "pt-BR": { "title": "Bem-vindo" } }
+ *
+ * The variant is picked from the device's `deviceMetadata.language` (push) or
+ * the user's most recently updated device (email, SMS). Matching is exact
+ * first, then by language (`de-AT` uses `de`), then the tenant's default
+ * locale, then the template's own fields.
+ */
+
+export const LOCALIZED_TEMPLATE_FIELDS = ['title', 'message', 'sms_template', 'email_template'] as const;
+
+export type LocalizedTemplateField = typeof LOCALIZED_TEMPLATE_FIELDS[number];
+export type TemplateLocales = Record<string, Partial<Record<LocalizedTemplateField, string>>>;
+
+const LOCALE = /^[a-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*$/i;
+
+export function isValidLocale(value: string): boolean {
+  return LOCALE.test(value);
+}
+
+// `pt_br`, `PT-BR` → `pt-br`
+function normalizeLocale(value: string): string {
+  return value.trim().replace(/_/g, '-').toLowerCase();
+}
+
+/**
+ * The key of `available` that best matches `requested`, trying the fallback
+ * the same way; null when nothing matches
+ */
+export function selectLocale(
+  requested: string | null | undefined,
+  available: string[],
+  fallback?: string | null
+): string | null {
+  const byNormalized = new Map(available.map(locale => [normalizeLocale(locale), locale]));
+  for (const candidate of [requested, fallback]) {
+    if (!candidate) continue;
+    const normalized = normalizeLocale(candidate);
+    const match = byNormalized.get(normalized) ?? byNormalized.get(normalized.split('-')[0]);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * The template with the variant for `requested` (or `fallback`) applied.
+ * `locale` is the variant used, or null for the template's own fields.
+ */
+export function localizeTemplate<T extends { locales?: TemplateLocales | null }>(
+  template: T,
+  requested: string | null | undefined,
+  fallback?: string | null
+): T & { locale: string | null } {
+  const locales = template.locales ?? {};
+  const locale = selectLocale(requested, Object.keys(locales), fallback);
+  if (!locale) return { ...template, locale: null };
+
+  const overrides = Object.fromEntries(
+    Object.entries(locales[locale]).filter(([field, value]) =>
+      (LOCALIZED_TEMPLATE_FIELDS as readonly string[]).includes(field) && typeof value === 'string' && value.length > 0)
+  );
+  return { ...template, ...overrides, locale };
+}
+
+/**
+ * Language a device asked for, from its registration metadata
+ */
+export function deviceLanguage(device: Pick<DeviceRegistrationRecord, 'deviceMetadata'>): string | null {
+  const language = device.deviceMetadata?.language ?? device.deviceMetadata?.locale;
+  return typeof language === 'string' && isValidLocale(language) ? language : null;
+}
+
+/**
+ * Language of the user's most recently updated device that has one
+ */
+export function preferredLanguage(devices: Array<Pick<DeviceRegistrationRecord, 'deviceMetadata' | 'updatedAt'>>): string | null {
+  const sorted = [...devices].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  for (const device of sorted) {
+    const language = deviceLanguage(device);
+    if (language) return language;
+  }
+  return null;
+}
+
+/**
+ * Structural problems in a `locales` value; empty when valid
+ */
+export function validateTemplateLocales(locales: unknown): string[] {
+  if (locales === null || locales === undefined) return [];
+  if (typeof locales !== 'object' || Array.isArray(locales)) return ['locales must be an object keyed by locale'];
+
+  const errors: string[] = [];
+  for (const [locale, variant] of Object.entries(locales)) {
+    if (!isValidLocale(locale)) errors.push(`"${locale}" is not a locale code such as de or pt-BR`);
+    if (typeof variant !== 'object' || variant === null || Array.isArray(variant)) {
+      errors.push(`locales.${locale} must be an object`);
+      continue;
+    }
+    for (const [field, value] of Object.entries(variant)) {
+      if (!(LOCALIZED_TEMPLATE_FIELDS as readonly string[]).includes(field)) {
+        errors.push(`locales.${locale}.${field} is not localizable; use ${LOCALIZED_TEMPLATE_FIELDS.join(', ')}`);
+      } else if (typeof value !== 'string') {
+        errors.push(`locales.${locale}.${field} must be a string`);
+      }
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,195 @@
+import { z } from 'zod';
+import { PoolClient } from 'pg';
+import { isValidTimezone } from './notification-templates.js';
+
+/**
+ * Per-user notification preferences (F-003 AC-003)
+ *
+ * - Quiet hours: `quietHoursStart`–`quietHoursEnd` as HH:mm in the user's
+ *   `timezone`; a range such as 22:00–07:00 wraps past midnight
+ * - Daily cap: at most `maxDailyNotifications` notifications per local day,
+ *   counted from the notification queue across all channels
+ * - Channels: push, email and SMS can each be switched off
+ *
+ * Users without a row get `DEFAULT_NOTIFICATION_PREFERENCES`. Both geofence
+ * evaluators call `checkNotificationPreferences` before queueing and store the
+ * returned reason as the hit's `suppression_reason`.
+ */
+
+export type NotificationChannel = 'push' | 'email' | 'sms';
+export type PreferenceSuppressionReason = 'channel_opt_out' | 'quiet_hours' | 'daily_limit';
+
+export interface NotificationPreferences {
+  userId: string;
+  timezone: string;
+  quietHoursStart: string | null; // HH:mm
+  quietHoursEnd: string | null;
+  maxDailyNotifications: number | null; // null: no cap
+  channels: Record<NotificationChannel, boolean>;
+  updatedAt?: Date;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: Omit<NotificationPreferences, 'userId'> = {
+  timezone: 'UTC',
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  maxDailyNotifications: null,
+  channels: { push: true, email: true, sms: true }
+};
+
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'expected HH:mm');
+
+export const NotificationPreferencesUpdateSchema = z.object({
+  timezone: z.string().refine(isValidTimezone, 'expected an IANA time zone such as Europe/Berlin').optional(),
+  quietHoursStart: TimeOfDaySchema.nullable().optional(),
+  quietHoursEnd: TimeOfDaySchema.nullable().optional(),
+  maxDailyNotifications: z.number().int().min(1).max(1000).nullable().optional(),
+  channels: z.object({
+    push: z.boolean().optional(),
+    email: z.boolean().optional(),
+    sms: z.boolean().optional()
+  }).optional()
+});
+
+export type NotificationPreferencesUpdate = z.infer<typeof NotificationPreferencesUpdateSchema>;
+
+type Db = Pick<PoolClient, 'query'>;
+
+// An update that is valid on its own but not together with the stored preferences
+export class NotificationPreferencesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationPreferencesError';
+  }
+}
+
+function toPreferences(row: any): NotificationPreferences {
+  return {
+    userId: row.user_id,
+    timezone: row.timezone,
+    // TIME columns come back as HH:mm:ss
+    quietHoursStart: row.quiet_hours_start?.slice(0, 5) ?? null,
+    quietHoursEnd: row.quiet_hours_end?.slice(0, 5) ?? null,
+    maxDailyNotifications: row.max_daily_notifications,
+    channels: { push: row.push_enabled, email: row.email_enabled, sms: row.sms_enabled },
+    updatedAt: row.updated_at
+  };
+}
+
+export async function getNotificationPreferences(db: Db, userId: string): Promise<NotificationPreferences> {
+  const result = await db.query('SELECT * FROM notification_preferences WHERE user_id = $1', [userId]);
+  return result.rows[0] ? toPreferences(result.rows[0]) : { userId, ...DEFAULT_NOTIFICATION_PREFERENCES };
+}
+
+/**
+ * Apply a partial update, creating the row from the defaults when needed.
+ * Quiet hours need both ends; clear them by setting both to null.
+ */
+export async function updateNotificationPreferences(
+  db: Db,
+  userId: string,
+  update: NotificationPreferencesUpdate
+): Promise<NotificationPreferences> {
+  const current = await getNotificationPreferences(db, userId);
+  const next: NotificationPreferences = {
+    ...current,
+    ...Object.fromEntries(Object.entries(update).filter(([key, value]) => key !== 'channels' && value !== undefined)),
+    channels: { ...current.channels, ...update.channels }
+  };
+  if ((next.quietHoursStart === null) !== (next.quietHoursEnd === null)) {
+    throw new NotificationPreferencesError('quietHoursStart and quietHoursEnd must be set together');
+  }
+
+  const result = await db.query(`
+    INSERT INTO notification_preferences (
+      user_id, timezone, quiet_hours_start, quiet_hours_end, max_daily_notifications,
+      push_enabled, email_enabled, sms_enabled
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    ON CONFLICT (user_id) DO UPDATE SET
+      timezone = EXCLUDED.timezone,
+      quiet_hours_start = EXCLUDED.quiet_hours_start,
+      quiet_hours_end = EXCLUDED.quiet_hours_end,
+      max_daily_notifications = EXCLUDED.max_daily_notifications,
+      push_enabled = EXCLUDED.push_enabled,
+      email_enabled = EXCLUDED.email_enabled,
+      sms_enabled = EXCLUDED.sms_enabled,
+      updated_at = now()
+    RETURNING *
+  `, [
+    userId,
+    next.timezone,
+    next.quietHoursStart,
+    next.quietHoursEnd,
+    next.maxDailyNotifications,
+    next.channels.push,
+    next.channels.email,
+    next.channels.sms
+  ]);
+  return toPreferences(result.rows[0]);
+}
+
+// Hours, minutes and seconds of `at` on the wall clock of `timezone`
+function localTime(at: Date, timezone: string): { hour: number; minute: number; second: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', minute: 'numeric', second: 'numeric', hourCycle: 'h23' })
+      .formatToParts(at)
+      .map(part => [part.type, Number(part.value)])
+  );
+  return { hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+export function isWithinQuietHours(
+  preferences: Pick<NotificationPreferences, 'timezone' | 'quietHoursStart' | 'quietHoursEnd'>,
+  at: Date = new Date()
+): boolean {
+  const { quietHoursStart, quietHoursEnd, timezone } = preferences;
+  if (!quietHoursStart || !quietHoursEnd || quietHoursStart === quietHoursEnd) return false;
+
+  const { hour, minute } = localTime(at, timezone);
+  const now = hour * 60 + minute;
+  const toMinutes = (value: string) => Number(value.slice(0, 2)) * 60 + Number(value.slice(3, 5));
+  const start = toMinutes(quietHoursStart);
+  const end = toMinutes(quietHoursEnd);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Start of the local day containing `at`. Off by the shift on the day of a
+ * DST change, which only moves the cap's reset by that hour.
+ */
+export function startOfLocalDay(at: Date, timezone: string): Date {
+  const { hour, minute, second } = localTime(at, timezone);
+  return new Date(at.getTime() - ((hour * 60 + minute) * 60 + second) * 1000 - at.getMilliseconds());
+}
+
+/**
+ * Notifications queued for a user since `since`, over all channels;
+ * jobs that ended dead never reached the user and do not count
+ */
+export async function countUserNotificationsSince(db: Db, userId: string, since: Date): Promise<number> {
+  const result = await db.query(`
+    SELECT count(*)::int AS count
+    FROM notification_jobs
+    WHERE payload->>'userId' = $1 AND created_at >= $2 AND status <> 'dead'
+  `, [userId, since]);
+  return result.rows[0].count;
+}
+
+/**
+ * Why a notification on `channel` must not go out now, or null if it may
+ */
+export async function checkNotificationPreferences(
+  db: Db,
+  userId: string,
+  channel: NotificationChannel,
+  at: Date = new Date()
+): Promise<PreferenceSuppressionReason | null> {
+  const preferences = await getNotificationPreferences(db, userId);
+  if (!preferences.channels[channel]) return 'channel_opt_out';
+  if (isWithinQuietHours(preferences, at)) return 'quiet_hours';
+  if (preferences.maxDailyNotifications !== null) {
+    const sent = await countUserNotificationsSince(db, userId, startOfLocalDay(at, preferences.timezone));
+    if (sent >= preferences.maxDailyNotifications) return 'daily_limit';
+  }
+  return null;
+}
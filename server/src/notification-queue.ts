@@ -0,0 +1,326 @@
+import { hostname } from 'os';
+import { PoolClient } from 'pg';
+import { pool } from './db.js';
+
+/**
+ * Durable outbound notification queue
+ *
+ * Jobs live in `notification_jobs` and move through
+ *
+ *   queued → sending → sent
+ *               ↓
+ *            failed → (retried after backoff) → sending …
+ *               ↓
+ *             dead  (attempts exhausted or permanent error)
+ *
+ * Enqueue jobs in the same transaction as the data they notify about, so a
+ * crash or provider outage cannot drop them. Each job carries an idempotency
+ * key; enqueueing the same key again is a no-op.
+ *
+ * `NotificationWorker` polls the table and runs jobs through handlers keyed by
+ * job type. It can run in the Express server and inside Strapi at the same
+ * time: claims take an advisory lock, so the per-provider concurrency limits
+ * hold across all workers.
+ */
+
+export type NotificationJobStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'dead';
+
+export interface NewNotificationJob {
+  type: string; // selects the handler
+  provider: string; // concurrency bucket, e.g. the push sender name
+  idempotencyKey: string;
+  payload: Record<string, unknown>;
+  geofenceHitId?: string;
+  maxAttempts?: number;
+}
+
+export interface NotificationJob {
+  id: string;
+  type: string;
+  provider: string;
+  idempotencyKey: string;
+  payload: any;
+  attempts: number; // including the current one
+  maxAttempts: number;
+  geofenceHitId: string | null;
+}
+
+export type NotificationJobOutcome =
+  | { ok: true; result?: unknown }
+  | { ok: false; error: string; permanent?: boolean; result?: unknown };
+
+export type NotificationJobHandler = (job: NotificationJob) => Promise<NotificationJobOutcome>;
+
+export const DEFAULT_MAX_ATTEMPTS = 8;
+
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+/**
+ * Delay before retrying after the given number of attempts: 30s, 1m, 2m, …
+ * capped at one hour, with ±20% jitter so retries after an outage spread out
+ */
+export function backoffDelayMs(attempts: number, random: () => number = Math.random): number {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+  return Math.round(delay * (0.8 + 0.4 * random()));
+}
+
+/**
+ * Insert a job unless one with the same idempotency key exists. Returns the new
+ * job id, or null for a duplicate.
+ */
+export async function enqueueNotificationJob(
+  db: Pick<PoolClient, 'query'>,
+  job: NewNotificationJob
+): Promise<string | null> {
+  const result = await db.query(`
+    INSERT INTO notification_jobs (type, provider, idempotency_key, payload, geofence_hit_id, max_attempts)
+    VALUES ($1, $2, $3, $4::jsonb, $5, $6)
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING id
+  `, [
+    job.type,
+    job.provider,
+    job.idempotencyKey,
+    JSON.stringify(job.payload),
+    job.geofenceHitId ?? null,
+    job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+  ]);
+  return result.rows[0]?.id ?? null;
+}
+
+/**
+ * Parse `NOTIFICATION_CONCURRENCY`-style limits, e.g. `azure=10,expo=4`
+ */
+export function parseConcurrencyLimits(value: string | undefined): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const entry of (value ?? '').split(',')) {
+    const [provider, limit] = entry.split('=').map(part => part.trim());
+    if (provider && Number.isInteger(Number(limit)) && Number(limit) > 0) {
+      limits[provider] = Number(limit);
+    }
+  }
+  return limits;
+}
+
+export interface NotificationWorkerOptions {
+  handlers: Record<string, NotificationJobHandler>;
+  workerId?: string;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  concurrency?: Record<string, number>; // max jobs sending at once per provider
+  defaultConcurrency?: number;
+  staleAfterMs?: number; // a job sending for longer is assumed lost and retried
+  log?: (message: string, metadata?: Record<string, unknown>, level?: 'info' | 'error') => void;
+}
+
+export class NotificationWorker {
+  private options: Required<NotificationWorkerOptions>;
+  private timer: NodeJS.Timeout | null = null;
+  private current: Promise<number> | null = null;
+  private stopped = true;
+
+  readonly stats = {
+    lastRunAt: null as Date | null,
+    lastError: null as string | null,
+    sent: 0,
+    failed: 0,
+    dead: 0
+  };
+
+  constructor(options: NotificationWorkerOptions) {
+    this.options = {
+      workerId: `${hostname()}:${process.pid}`,
+      pollIntervalMs: Number(process.env.NOTIFICATION_POLL_INTERVAL_MS) || 5000,
+      batchSize: 20,
+      concurrency: parseConcurrencyLimits(process.env.NOTIFICATION_CONCURRENCY),
+      defaultConcurrency: 5,
+      staleAfterMs: 5 * 60 * 1000,
+      log: defaultLog,
+      ...options
+    };
+  }
+
+  get isRunning(): boolean {
+    return !this.stopped;
+  }
+
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.schedule(0);
+    this.options.log('Notification worker started', { workerId: this.options.workerId, types: Object.keys(this.options.handlers) });
+  }
+
+  /**
+   * Stop polling and wait for the jobs in flight
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await this.current?.catch(() => {});
+    this.options.log('Notification worker stopped', { workerId: this.options.workerId });
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      let claimed = 0;
+      try {
+        this.current = this.runOnce();
+        claimed = await this.current;
+      } catch (error) {
+        this.stats.lastError = error instanceof Error ? error.message : String(error);
+        this.options.log('Notification worker run failed', { error: this.stats.lastError }, 'error');
+      } finally {
+        this.current = null;
+      }
+      // A full batch means more work is likely waiting
+      if (!this.stopped) this.schedule(claimed >= this.options.batchSize ? 0 : this.options.pollIntervalMs);
+    }, delayMs);
+  }
+
+  /**
+   * Claim due jobs and run them. Returns the number of jobs claimed.
+   */
+  async runOnce(): Promise<number> {
+    this.stats.lastRunAt = new Date();
+    const jobs = await this.claim();
+    await Promise.all(jobs.map(job => this.run(job)));
+    return jobs.length;
+  }
+
+  private async claim(): Promise<NotificationJob[]> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext('notification_jobs_claim'))`);
+
+      // Jobs of a crashed worker
+      await client.query(`
+        UPDATE notification_jobs
+        SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'failed' END,
+            last_error = 'worker stopped while sending',
+            run_at = now(), locked_at = NULL, locked_by = NULL, updated_at = now()
+        WHERE status = 'sending' AND locked_at < now() - make_interval(secs => $1)
+      `, [this.options.staleAfterMs / 1000]);
+
+      // Jobs over their provider's limit are dropped before the batch limit, so a
+      // saturated provider cannot fill the batch and starve the others
+      const result = await client.query(`
+        WITH busy AS (
+          SELECT provider, count(*)::int AS n FROM notification_jobs WHERE status = 'sending' GROUP BY provider
+        ),
+        limits AS (
+          SELECT key AS provider, value::int AS max FROM jsonb_each_text($3::jsonb)
+        ),
+        ranked AS (
+          SELECT id, provider, run_at, created_at,
+                 row_number() OVER (PARTITION BY provider ORDER BY run_at, created_at) AS rn
+          FROM notification_jobs
+          WHERE status IN ('queued', 'failed') AND run_at <= now() AND type = ANY($1::text[])
+        ),
+        ready AS (
+          SELECT r.id
+          FROM ranked r
+          LEFT JOIN busy b ON b.provider = r.provider
+          LEFT JOIN limits l ON l.provider = r.provider
+          WHERE r.rn + COALESCE(b.n, 0) <= COALESCE(l.max, $5)
+          ORDER BY r.run_at, r.created_at
+          LIMIT $2
+        )
+        UPDATE notification_jobs j
+        SET status = 'sending', attempts = j.attempts + 1, locked_at = now(), locked_by = $4, updated_at = now()
+        FROM ready r
+        WHERE j.id = r.id
+        RETURNING j.id, j.type, j.provider, j.idempotency_key, j.payload, j.attempts, j.max_attempts, j.geofence_hit_id
+      `, [
+        Object.keys(this.options.handlers),
+        this.options.batchSize,
+        JSON.stringify(this.options.concurrency),
+        this.options.workerId,
+        this.options.defaultConcurrency
+      ]);
+
+      await client.query('COMMIT');
+      return result.rows.map(row => ({
+        id: row.id,
+        type: row.type,
+        provider: row.provider,
+        idempotencyKey: row.idempotency_key,
+        payload: row.payload,
+        attempts: row.attempts,
+        maxAttempts: row.max_attempts,
+        geofenceHitId: row.geofence_hit_id
+      }));
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async run(job: NotificationJob): Promise<void> {
+    let outcome: NotificationJobOutcome;
+    try {
+      outcome = await this.options.handlers[job.type](job);
+    } catch (error) {
+      outcome = { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    // Only while this worker still holds the job: after a stale-lock recovery it
+    // belongs to whichever worker claimed it next
+    if (outcome.ok) {
+      const sent = await pool.query(`
+        UPDATE notification_jobs
+        SET status = 'sent', sent_at = now(), result = $3::jsonb, last_error = NULL,
+            locked_at = NULL, locked_by = NULL, updated_at = now()
+        WHERE id = $1 AND locked_by = $2 AND status = 'sending'
+      `, [job.id, this.options.workerId, JSON.stringify(outcome.result ?? null)]);
+      if (sent.rowCount === 0) return this.lostLock(job);
+      this.stats.sent++;
+      return;
+    }
+
+    const dead = outcome.permanent === true || job.attempts >= job.maxAttempts;
+    const failed = await pool.query(`
+      UPDATE notification_jobs
+      SET status = $3, run_at = now() + make_interval(secs => $4), last_error = $5, result = $6::jsonb,
+          locked_at = NULL, locked_by = NULL, updated_at = now()
+      WHERE id = $1 AND locked_by = $2 AND status = 'sending'
+    `, [
+      job.id,
+      this.options.workerId,
+      dead ? 'dead' : 'failed',
+      dead ? 0 : backoffDelayMs(job.attempts) / 1000,
+      outcome.error,
+      JSON.stringify(outcome.result ?? null)
+    ]);
+    if (failed.rowCount === 0) return this.lostLock(job);
+
+    if (dead) this.stats.dead++;
+    else this.stats.failed++;
+    this.options.log(dead ? 'Notification job dead' : 'Notification job failed, will retry', {
+      jobId: job.id,
+      type: job.type,
+      provider: job.provider,
+      attempts: job.attempts,
+      error: outcome.error
+    }, 'error');
+  }
+
+  private lostLock(job: NotificationJob): void {
+    this.options.log('Notification job was reclaimed while sending, outcome discarded', {
+      jobId: job.id,
+      type: job.type,
+      attempts: job.attempts
+    }, 'error');
+  }
+}
+
+function defaultLog(message: string, metadata: Record<string, unknown> = {}, level: 'info' | 'error' = 'info'): void {
+  const entry = JSON.stringify({ timestamp: new Date().toISOString(), level, message, service: 'notification-worker', ...metadata });
+  if (level === 'error') console.error(entry);
+  else console.log(entry);
+}
@@ -0,0 +1,418 @@
+/**
+ * Template language for notification titles, messages, SMS and email bodies.
+ *
+ * Shared by the Strapi geofences plugin (rendering, save-time validation and
+ * the preview endpoint). Templates are parsed, never evaluated, so an editor
+ * can only read the variables they are given:
+ *
+ *   {{geofence.name}}                         variable, dotted paths into objects
+ *   {{distance | round:0}} m                  filters, applied left to right
+ *   {{triggered_at | date:"EEE d MMM HH:mm"}} dates in the render time zone
+ *   {{custom_data.store | default:"our store"}}
+ *   {{#if event_type == "enter"}}Welcome{{else}}Goodbye{{/if}}
+ *   {{#unless custom_data.quiet}}…{{/unless}}
+ *
+ * Missing variables render as an empty string. Values (not the template text)
+ * go through the escape function, e.g. HTML escaping for email bodies.
+ */
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(`${message} (at character ${position + 1})`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+type Literal = string | number | boolean;
+
+interface Filter {
+  name: string;
+  arg?: Literal;
+}
+
+interface Condition {
+  path: string[];
+  op?: '==' | '!=';
+  value?: Literal;
+}
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; path: string[]; filters: Filter[]; position: number }
+  | { type: 'if'; negate: boolean; condition: Condition; then: TemplateNode[]; otherwise: TemplateNode[]; position: number };
+
+export interface RenderOptions {
+  timezone?: string; // IANA zone for dates, default the context's `timezone`, else UTC
+  escape?: (value: string) => string;
+}
+
+const TAG = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH = /^[A-Za-z_][\w-]*(?:\.[\w-]+)*$/;
+const LITERAL = /^(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|(-?\d+(?:\.\d+)?)|(true|false))$/;
+
+const FILTERS: Record<string, { arg: 'none' | 'optional' | 'required'; apply: (value: unknown, arg: Literal | undefined, options: RenderOptions) => unknown }> = {
+  date: {
+    arg: 'optional',
+    apply: (value, arg, options) => {
+      const date = toDate(value);
+      return date ? formatDate(date, String(arg ?? 'yyyy-MM-dd HH:mm'), options.timezone) : value;
+    }
+  },
+  default: { arg: 'required', apply: (value, arg) => (isEmpty(value) ? arg : value) },
+  upper: { arg: 'none', apply: value => stringify(value).toUpperCase() },
+  lower: { arg: 'none', apply: value => stringify(value).toLowerCase() },
+  capitalize: { arg: 'none', apply: value => stringify(value).replace(/^./, c => c.toUpperCase()) },
+  round: {
+    arg: 'optional',
+    apply: (value, arg) => {
+      const number = Number(value);
+      return isEmpty(value) || Number.isNaN(number) ? value : number.toFixed(Number(arg ?? 0));
+    }
+  }
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+function parseLiteral(source: string, position: number): Literal {
+  const match = LITERAL.exec(source.trim());
+  if (!match) throw new TemplateSyntaxError(`Expected a quoted string, number or true/false, got "${source}"`, position);
+  if (match[1] !== undefined) return match[1].replace(/\\(.)/g, '$1');
+  if (match[2] !== undefined) return match[2];
+  if (match[3] !== undefined) return Number(match[3]);
+  return match[4] === 'true';
+}
+
+function parsePath(source: string, position: number): string[] {
+  if (!PATH.test(source)) throw new TemplateSyntaxError(`Invalid variable "${source}"`, position);
+  return source.split('.');
+}
+
+// Split on `|` outside quotes
+function splitPipes(source: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        current += char + (source[++i] ?? '');
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '|') {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+function parseExpression(source: string, position: number): TemplateNode {
+  const [path, ...filterSources] = splitPipes(source);
+  const filters = filterSources.map(filterSource => {
+    const colon = filterSource.indexOf(':');
+    const name = (colon === -1 ? filterSource : filterSource.slice(0, colon)).trim();
+    const definition = FILTERS[name];
+    if (!definition) {
+      throw new TemplateSyntaxError(`Unknown filter "${name}"; expected one of ${TEMPLATE_FILTERS.join(', ')}`, position);
+    }
+    const filter: Filter = { name };
+    if (colon !== -1) {
+      if (definition.arg === 'none') throw new TemplateSyntaxError(`Filter "${name}" takes no argument`, position);
+      filter.arg = parseLiteral(filterSource.slice(colon + 1), position);
+    } else if (definition.arg === 'required') {
+      throw new TemplateSyntaxError(`Filter "${name}" needs an argument, e.g. ${name}:"value"`, position);
+    }
+    if (name === 'date' && filter.arg !== undefined && typeof filter.arg !== 'string') {
+      throw new TemplateSyntaxError('The date format must be a quoted string', position);
+    }
+    // toFixed throws outside 0..100
+    const { arg } = filter;
+    if (name === 'round' && arg !== undefined && !(typeof arg === 'number' && Number.isInteger(arg) && arg >= 0 && arg <= 100)) {
+      throw new TemplateSyntaxError('The round precision must be a whole number from 0 to 100', position);
+    }
+    return filter;
+  });
+  return { type: 'var', path: parsePath(path, position), filters, position };
+}
+
+function parseCondition(source: string, position: number): Condition {
+  const match = /^(\S+)\s*(==|!=)\s*(.+)$/.exec(source);
+  if (!match) return { path: parsePath(source, position) };
+  return { path: parsePath(match[1], position), op: match[2] as '==' | '!=', value: parseLiteral(match[3], position) };
+}
+
+/**
+ * Parse a template, throwing `TemplateSyntaxError` for malformed tags,
+ * unknown filters and unbalanced blocks
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' }>; keyword: string; inElse: boolean }> = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+  const pushText = (start: number, end: number) => {
+    const value = source.slice(start, end);
+    const stray = value.search(/\{\{|\}\}/);
+    if (stray !== -1) throw new TemplateSyntaxError('Unbalanced {{ or }}', start + stray);
+    if (value) target().push({ type: 'text', value });
+  };
+
+  let last = 0;
+  for (const match of source.matchAll(TAG)) {
+    const position = match.index!;
+    pushText(last, position);
+    last = position + match[0].length;
+
+    const tag = match[1];
+    const block = /^#(if|unless)\s+([\s\S]+)$/.exec(tag);
+    if (block) {
+      const node: Extract<TemplateNode, { type: 'if' }> = {
+        type: 'if',
+        negate: block[1] === 'unless',
+        condition: parseCondition(block[2].trim(), position),
+        then: [],
+        otherwise: [],
+        position
+      };
+      target().push(node);
+      stack.push({ node, keyword: block[1], inElse: false });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new TemplateSyntaxError('{{else}} without an open {{#if}}', position);
+      top.inElse = true;
+    } else if (tag.startsWith('/')) {
+      const top = stack.pop();
+      if (!top || `/${top.keyword}` !== tag) {
+        throw new TemplateSyntaxError(`Unexpected {{${tag}}}${top ? `, expected {{/${top.keyword}}}` : ''}`, position);
+      }
+    } else if (tag.startsWith('#')) {
+      throw new TemplateSyntaxError(`Unknown block {{${tag}}}; expected #if or #unless`, position);
+    } else {
+      target().push(parseExpression(tag, position));
+    }
+  }
+
+  if (stack.length > 0) {
+    const top = stack[stack.length - 1];
+    throw new TemplateSyntaxError(`{{#${top.keyword}}} is not closed`, top.node.position);
+  }
+  pushText(last, source.length);
+  return root;
+}
+
+function collectPaths(nodes: TemplateNode[], paths: Array<{ path: string[]; position: number }>) {
+  for (const node of nodes) {
+    if (node.type === 'var') paths.push({ path: node.path, position: node.position });
+    if (node.type === 'if') {
+      paths.push({ path: node.condition.path, position: node.position });
+      collectPaths(node.then, paths);
+      collectPaths(node.otherwise, paths);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Parse a template and check that every variable starts with one of
+ * `variables`. Returns the error messages; empty when valid.
+ */
+export function validateTemplate(source: string, variables: readonly string[] = TEMPLATE_VARIABLES): string[] {
+  try {
+    return collectPaths(parseTemplate(source), [])
+      .filter(({ path }) => !variables.includes(path[0]))
+      .map(({ path, position }) => new TemplateSyntaxError(`Unknown variable "${path.join('.')}"`, position).message);
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return [error.message];
+    throw error;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null || Array.isArray(value);
+}
+
+// Only own properties of plain objects and arrays, so templates cannot reach
+// prototype members such as `constructor` or `__proto__`
+function lookup(context: Record<string, unknown>, path: string[]): unknown {
+  return path.reduce<unknown>(
+    (value, key) => (isPlainObject(value) && Object.hasOwn(value, key) ? value[key] : undefined),
+    context
+  );
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function stringify(value: unknown): string {
+  if (isEmpty(value)) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function truthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function renderNodes(nodes: TemplateNode[], context: Record<string, unknown>, options: RenderOptions): string {
+  return nodes.map(node => {
+    if (node.type === 'text') return node.value;
+    if (node.type === 'var') {
+      const value = node.filters.reduce(
+        (current, filter) => FILTERS[filter.name].apply(current, filter.arg, options),
+        lookup(context, node.path)
+      );
+      const text = stringify(value);
+      return options.escape ? options.escape(text) : text;
+    }
+
+    const value = lookup(context, node.condition.path);
+    let result = node.condition.op
+      ? (stringify(value) === String(node.condition.value)) === (node.condition.op === '==')
+      : truthy(value);
+    if (node.negate) result = !result;
+    return renderNodes(result ? node.then : node.otherwise, context, options);
+  }).join('');
+}
+
+/**
+ * Render a template (source or parsed) against a context
+ */
+export function renderTemplate(
+  template: string | TemplateNode[],
+  context: Record<string, unknown>,
+  options: RenderOptions = {}
+): string {
+  const nodes = typeof template === 'string' ? parseTemplate(template) : template;
+  const timezone = options.timezone ?? (typeof context.timezone === 'string' ? context.timezone : 'UTC');
+  return renderNodes(nodes, context, { ...options, timezone });
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+const DATE_TOKEN = /yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|ss|a|'[^']*'/g;
+
+/**
+ * Format a date with yyyy, yy, MMMM, MMM, MM, M, dd, d, EEEE, EEE, HH, H, hh,
+ * h, mm, ss and a (AM/PM) in the given IANA time zone; quote literal text
+ */
+export function formatDate(date: Date, format: string, timezone = 'UTC'): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'long',
+      hour: 'numeric',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+  const monthName = new Intl.DateTimeFormat('en-US', { timeZone: timezone, month: 'long' }).format(date);
+  const hour = Number(parts.hour);
+  const pad = (value: string | number) => String(value).padStart(2, '0');
+
+  return format.replace(DATE_TOKEN, token => {
+    switch (token) {
+      case 'yyyy': return parts.year;
+      case 'yy': return parts.year.slice(-2);
+      case 'MMMM': return monthName;
+      case 'MMM': return monthName.slice(0, 3);
+      case 'MM': return pad(parts.month);
+      case 'M': return parts.month;
+      case 'dd': return pad(parts.day);
+      case 'd': return parts.day;
+      case 'EEEE': return parts.weekday;
+      case 'EEE': return parts.weekday.slice(0, 3);
+      case 'HH': return pad(hour);
+      case 'H': return String(hour);
+      case 'hh': return pad(hour % 12 || 12);
+      case 'h': return String(hour % 12 || 12);
+      case 'mm': return pad(parts.minute);
+      case 'ss': return pad(parts.second);
+      case 'a': return hour < 12 ? 'AM' : 'PM';
+      default: return token.slice(1, -1);
+    }
+  });
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Top-level names available to notification templates
+export const TEMPLATE_VARIABLES = [
+  'event_type',
+  'distance',
+  'local_time',
+  'triggered_at',
+  'geofence',
+  'user',
+  'location',
+  'hit',
+  'custom_data',
+  'timezone'
+] as const;
+
+export interface TemplateHit {
+  id?: number | string;
+  userId: string;
+  eventType: string;
+  geofence: { id: number | string; name: string };
+  latitude: number;
+  longitude: number;
+  distanceMeters?: number | null;
+  triggeredAt: Date | string;
+}
+
+/**
+ * Variables for a hit, as used by `TEMPLATE_VARIABLES`. `local_time` and the
+ * date filter use `timezone`.
+ */
+export function buildTemplateContext(
+  hit: TemplateHit,
+  customData: Record<string, unknown> = {},
+  timezone = 'UTC'
+): Record<string, unknown> {
+  const triggeredAt = new Date(hit.triggeredAt);
+  const distance = hit.distanceMeters === null || hit.distanceMeters === undefined ? null : Math.round(Number(hit.distanceMeters));
+  return {
+    event_type: hit.eventType,
+    distance,
+    local_time: formatDate(triggeredAt, 'HH:mm', timezone),
+    triggered_at: triggeredAt,
+    geofence: hit.geofence,
+    user: { id: hit.userId },
+    location: { latitude: hit.latitude, longitude: hit.longitude },
+    hit: { id: hit.id ?? null },
+    custom_data: customData,
+    timezone
+  };
+}
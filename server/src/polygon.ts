@@ -0,0 +1,102 @@
+import { z } from 'zod';
+
+/**
+ * Validation of GeoJSON search polygons for `/events/polygon`.
+ *
+ * Shared by the Express server and the Strapi geolocation plugin. The schema
+ * checks structure in JavaScript (type, coordinate ranges, closed rings, vertex
+ * limit); topology (self-intersections) is checked in PostGIS with
+ * `ST_IsValid`/`ST_IsValidReason` because only the database sees the geometry
+ * exactly as the query will.
+ *
+ * Edges are interpreted as the shorter great-circle arc, as PostGIS geography
+ * does, so a ring may cross the antimeridian (e.g. from 170 to -170). Such rings
+ * are shifted to 0..360 longitudes before the planar validity check.
+ */
+
+export const MAX_POLYGON_VERTICES = 1000;
+export const MAX_POLYGON_BUFFER_METERS = 50000;
+
+type Position = [number, number];
+
+const PositionSchema = z
+  .array(z.number().finite())
+  .min(2)
+  .max(3)
+  .refine(([lon]) => lon >= -180 && lon <= 180, { message: 'longitude must be between -180 and 180' })
+  .refine(([, lat]) => lat >= -90 && lat <= 90, { message: 'latitude must be between -90 and 90' })
+  .transform(([lon, lat]) => [lon, lat] as Position);
+
+const RingsSchema = z.array(z.array(PositionSchema)).min(1, { message: 'polygon needs an exterior ring' });
+
+export const PolygonGeometrySchema = z
+  .discriminatedUnion('type', [
+    z.object({ type: z.literal('Polygon'), coordinates: RingsSchema }),
+    z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(RingsSchema).min(1) })
+  ], {
+    errorMap: () => ({ message: 'polygon must be a GeoJSON Polygon or MultiPolygon' })
+  })
+  .superRefine((geometry, ctx) => {
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    let vertices = 0;
+
+    polygons.forEach((rings, p) => {
+      rings.forEach((ring, r) => {
+        const where = geometry.type === 'Polygon' ? `ring ${r}` : `polygon ${p} ring ${r}`;
+        vertices += ring.length;
+        if (ring.length < 4) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${where} must have at least 4 positions` });
+          return;
+        }
+        const [first, last] = [ring[0], ring[ring.length - 1]];
+        if (first[0] !== last[0] || first[1] !== last[1]) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${where} is not closed: first and last positions differ` });
+        }
+      });
+    });
+
+    if (vertices > MAX_POLYGON_VERTICES) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `polygon has ${vertices} vertices, the limit is ${MAX_POLYGON_VERTICES}`
+      });
+    }
+  });
+
+export type PolygonGeometry = z.infer<typeof PolygonGeometrySchema>;
+
+export const PolygonSearchSchema = z.object({
+  polygon: PolygonGeometrySchema,
+  payload: z.string().optional(),
+  buffer: z.number().positive().max(MAX_POLYGON_BUFFER_METERS).optional(),
+  includeExpired: z.boolean().optional()
+});
+
+/**
+ * Whether any edge of the polygon crosses the antimeridian (longitude jump > 180°)
+ */
+export function crossesAntimeridian(geometry: PolygonGeometry): boolean {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.some(rings =>
+    rings.some(ring => ring.some((pos, i) => i > 0 && Math.abs(pos[0] - ring[i - 1][0]) > 180))
+  );
+}
+
+/**
+ * PostGIS topology check for a search polygon, returning one row with `valid`
+ * and `reason` (`ST_IsValidReason`, e.g. a self-intersection). `placeholder(n)`
+ * renders the n-th (1-based) bind parameter, `$n` for pg and `?` for knex.
+ */
+export function buildPolygonValidityQuery(
+  polygon: PolygonGeometry,
+  placeholder: (n: number) => string
+): { sql: string; params: unknown[] } {
+  const sql = `
+    SELECT ST_IsValid(g) AS valid, ST_IsValidReason(g) AS reason
+    FROM (
+      SELECT CASE WHEN ${placeholder(1)} THEN ST_ShiftLongitude(geom) ELSE geom END AS g
+      FROM (SELECT ST_SetSRID(ST_GeomFromGeoJSON(${placeholder(2)}), 4326) AS geom) input
+    ) checked
+  `;
+  return { sql, params: [crossesAntimeridian(polygon), JSON.stringify(polygon)] };
+}
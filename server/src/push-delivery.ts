@@ -0,0 +1,56 @@
+import {
+  DeviceRegistrationRecord,
+  deactivateDevice,
+  getDecryptedPushToken,
+  getUserDevices,
+  updateLastUsed
+} from './deviceRegistrations.js';
+import { PushMessage, PushResult, PushSender, getPushSender } from './push-providers.js';
+
+/**
+ * Deliver a push notification to all of a user's active devices
+ *
+ * Tokens are decrypted only for the send. Devices whose token the provider
+ * rejects for good are deactivated; successful sends update `last_used_at`.
+ * `message` may be a function of the device, e.g. to pick its language.
+ */
+
+export interface PushDelivery {
+  sent: boolean; // delivered to at least one device
+  results: PushResult[];
+  error?: string; // why nothing was attempted
+}
+
+export async function deliverPushToUser(
+  userId: string,
+  message: PushMessage | ((device: DeviceRegistrationRecord) => PushMessage),
+  sender: PushSender = getPushSender()
+): Promise<PushDelivery> {
+  const devices = (await getUserDevices(userId)).filter(device => device.hasPushToken);
+  if (devices.length === 0) {
+    return { sent: false, results: [], error: 'no active devices' };
+  }
+
+  const results: PushResult[] = [];
+  for (const device of devices) {
+    const token = await getDecryptedPushToken(device.deviceId);
+    if (!token) {
+      results.push({ deviceId: device.deviceId, provider: sender.name, success: false, error: 'push token unavailable' });
+      continue;
+    }
+
+    const result = await sender.send(
+      { deviceId: device.deviceId, platform: device.platform, token },
+      typeof message === 'function' ? message(device) : message
+    );
+    results.push(result);
+
+    if (result.success) {
+      await updateLastUsed(device.deviceId);
+    } else if (result.invalidToken) {
+      await deactivateDevice(device.deviceId);
+    }
+  }
+
+  return { sent: results.some(r => r.success), results };
+}
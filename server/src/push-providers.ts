@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+
+/**
+ * Push notification senders
+ *
+ * Every provider implements `PushSender` and reports one `PushResult` per
+ * device, including the provider's response, so callers can record what
+ * happened to each notification. `PUSH_PROVIDER` selects the sender:
+ *
+ * - `azure`: Azure Notification Hubs direct send (REST API, SAS auth)
+ * - `expo`: Expo push service, for Expo push tokens
+ * - `mock`: records messages in memory and never calls out (tests, local dev)
+ *
+ * Without `PUSH_PROVIDER`, Azure is used when its connection string is set.
+ * Otherwise there is no sender and sending fails loudly, so a missing setting
+ * cannot mark undelivered pushes as sent; only tests (`NODE_ENV=test`) fall
+ * back to the mock sender. Processes that send check `pushConfigError` on
+ * startup; enqueueing only needs `pushProviderName` and never fails.
+ */
+
+export type PushProviderName = 'azure' | 'expo' | 'mock';
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface PushTarget {
+  deviceId: string;
+  platform: 'ios' | 'android' | 'web';
+  token: string;
+}
+
+export interface PushResult {
+  deviceId: string;
+  provider: PushProviderName;
+  success: boolean;
+  statusCode?: number;
+  messageId?: string;
+  error?: string;
+  invalidToken?: boolean; // the provider rejected the token for good; the device should be deactivated
+}
+
+export interface PushSender {
+  readonly name: PushProviderName;
+  send(target: PushTarget, message: PushMessage): Promise<PushResult>;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Azure Notification Hubs direct send to a single device handle
+ */
+export class AzureNotificationHubSender implements PushSender {
+  readonly name = 'azure' as const;
+  private endpoint: string;
+  private keyName: string;
+  private key: string;
+
+  constructor(connectionString: string, private hubName: string) {
+    const parts = Object.fromEntries(
+      connectionString.split(';').filter(Boolean).map(part => {
+        const i = part.indexOf('=');
+        return [part.slice(0, i), part.slice(i + 1)];
+      })
+    );
+    if (!parts.Endpoint || !parts.SharedAccessKeyName || !parts.SharedAccessKey) {
+      throw new Error('Invalid AZURE_NOTIFICATION_HUB_CONNECTION_STRING');
+    }
+    this.endpoint = parts.Endpoint.replace(/^sb:/, 'https:').replace(/\/$/, '');
+    this.keyName = parts.SharedAccessKeyName;
+    this.key = parts.SharedAccessKey;
+  }
+
+  private sasToken(uri: string): string {
+    const resource = encodeURIComponent(uri.toLowerCase()).toLowerCase();
+    const expiry = Math.floor(Date.now() / 1000) + 3600;
+    const signature = crypto.createHmac('sha256', this.key).update(`${resource}\n${expiry}`).digest('base64');
+    return `SharedAccessSignature sr=${resource}&sig=${encodeURIComponent(signature)}&se=${expiry}&skn=${this.keyName}`;
+  }
+
+  async send(target: PushTarget, message: PushMessage): Promise<PushResult> {
+    const result: PushResult = { deviceId: target.deviceId, provider: this.name, success: false };
+    if (target.platform === 'web') {
+      return { ...result, error: 'web push is not supported by the Azure sender' };
+    }
+
+    const hubUri = `${this.endpoint}/${this.hubName}`;
+    const [format, payload] = target.platform === 'ios'
+      ? ['apple', { aps: { alert: { title: message.title, body: message.body }, sound: 'default' }, ...message.data }]
+      : ['fcmv1', { message: { notification: { title: message.title, body: message.body }, data: stringValues(message.data) } }];
+
+    try {
+      const response = await fetch(`${hubUri}/messages/?api-version=2023-10-01&direct`, {
+        method: 'POST',
+        headers: {
+          Authorization: this.sasToken(hubUri),
+          'Content-Type': 'application/json;charset=utf-8',
+          'ServiceBusNotification-Format': format,
+          'ServiceBusNotification-DeviceHandle': target.token
+        },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+
+      result.statusCode = response.status;
+      result.messageId = response.headers.get('TrackingId') ?? undefined;
+      if (response.ok) {
+        result.success = true;
+      } else {
+        result.error = (await response.text()).slice(0, 500) || response.statusText;
+        result.invalidToken = response.status === 410;
+      }
+    } catch (error) {
+      result.error = errorMessage(error);
+    }
+    return result;
+  }
+}
+
+/**
+ * Expo push service, one message per request
+ */
+export class ExpoPushSender implements PushSender {
+  readonly name = 'expo' as const;
+
+  constructor(private accessToken?: string, private url = 'https://exp.host/--/api/v2/push/send') {}
+
+  async send(target: PushTarget, message: PushMessage): Promise<PushResult> {
+    const result: PushResult = { deviceId: target.deviceId, provider: this.name, success: false };
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          ...(this.accessToken ? { Authorization: `Bearer ${this.accessToken}` } : {})
+        },
+        body: JSON.stringify({ to: target.token, title: message.title, body: message.body, data: message.data, sound: 'default' }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+
+      result.statusCode = response.status;
+      const json: any = await response.json().catch(() => null);
+      const ticket = Array.isArray(json?.data) ? json.data[0] : json?.data;
+      if (response.ok && ticket?.status === 'ok') {
+        result.success = true;
+        result.messageId = ticket.id;
+      } else {
+        result.error = ticket?.message ?? json?.errors?.[0]?.message ?? response.statusText;
+        result.invalidToken = ticket?.details?.error === 'DeviceNotRegistered';
+      }
+    } catch (error) {
+      result.error = errorMessage(error);
+    }
+    return result;
+  }
+}
+
+/**
+ * Records messages instead of sending them. Tokens listed in `invalidTokens`
+ * fail as unregistered.
+ */
+export class MockPushSender implements PushSender {
+  readonly name = 'mock' as const;
+  readonly sent: Array<{ target: PushTarget; message: PushMessage }> = [];
+
+  constructor(public invalidTokens: string[] = []) {}
+
+  async send(target: PushTarget, message: PushMessage): Promise<PushResult> {
+    if (this.invalidTokens.includes(target.token)) {
+      return { deviceId: target.deviceId, provider: this.name, success: false, error: 'DeviceNotRegistered', invalidToken: true };
+    }
+    this.sent.push({ target, message });
+    return { deviceId: target.deviceId, provider: this.name, success: true, messageId: `mock-${this.sent.length}` };
+  }
+}
+
+// FCM data values must be strings
+function stringValues(data: Record<string, unknown> = {}): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])
+  );
+}
+
+/**
+ * Provider the environment selects, without checking its settings; null when
+ * none is configured
+ */
+export function pushProviderName(env: NodeJS.ProcessEnv = process.env): string | null {
+  return env.PUSH_PROVIDER
+    || (env.AZURE_NOTIFICATION_HUB_CONNECTION_STRING ? 'azure' : env.NODE_ENV === 'test' ? 'mock' : null);
+}
+
+/**
+ * Build the sender configured by the environment
+ */
+export function createPushSender(env: NodeJS.ProcessEnv = process.env): PushSender {
+  const provider = pushProviderName(env);
+  switch (provider) {
+    case null:
+      throw new Error('No push provider configured: set PUSH_PROVIDER, or PUSH_PROVIDER=mock to record pushes without sending them');
+    case 'azure':
+      if (!env.AZURE_NOTIFICATION_HUB_CONNECTION_STRING || !env.AZURE_NOTIFICATION_HUB_NAME) {
+        throw new Error('AZURE_NOTIFICATION_HUB_CONNECTION_STRING and AZURE_NOTIFICATION_HUB_NAME are required for PUSH_PROVIDER=azure');
+      }
+      return new AzureNotificationHubSender(env.AZURE_NOTIFICATION_HUB_CONNECTION_STRING, env.AZURE_NOTIFICATION_HUB_NAME);
+    case 'expo':
+      return new ExpoPushSender(env.EXPO_ACCESS_TOKEN);
+    case 'mock':
+      return new MockPushSender();
+    default:
+      throw new Error(`Unknown PUSH_PROVIDER "${provider}", expected azure, expo or mock`);
+  }
+}
+
+/**
+ * Why no sender can be built from this environment, or null
+ */
+export function pushConfigError(env: NodeJS.ProcessEnv = process.env): string | null {
+  try {
+    createPushSender(env);
+    return null;
+  } catch (error) {
+    return errorMessage(error);
+  }
+}
+
+let defaultSender: PushSender | undefined;
+
+/**
+ * Process-wide sender, created from the environment on first use
+ */
+export function getPushSender(): PushSender {
+  defaultSender ??= createPushSender();
+  return defaultSender;
+}
+
+/**
+ * Replace the process-wide sender (e.g. with a `MockPushSender` in tests)
+ */
+export function setPushSender(sender: PushSender): void {
+  defaultSender = sender;
+}
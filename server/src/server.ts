@@ -15,6 +15,26 @@ import {
   DeviceRegistrationSchema,
   DeviceUpdateSchema
 } from './deviceRegistrations.js';
+import { EventListQuerySchema, toEventPage } from './event-pagination.js';
+import { GEOJSON_MEDIA_TYPE, EventRow, FeatureCollectionOptions, toEventFeatureCollection, wantsGeoJson } from './geojson.js';
+import { PolygonSearchSchema, buildPolygonValidityQuery } from './polygon.js';
+import {
+  EventValidityFields,
+  IncludeExpiredSchema,
+  VALIDITY_WINDOW_CONSTRAINT,
+  currentEventCondition,
+  validityWindowError
+} from './event-validity.js';
+import { DryRunFlagSchema, MAX_BULK_EVENTS, buildBulkUpsert, prepareBulkItems, toBulkUpsertResult } from './event-upsert.js';
+import { NotificationWorker } from './notification-queue.js';
+import { GEOFENCE_PUSH_JOB, geofencePushHandler } from './geofence-notifications.js';
+import { pushConfigError } from './push-providers.js';
+import {
+  NotificationPreferencesError,
+  NotificationPreferencesUpdateSchema,
+  getNotificationPreferences,
+  updateNotificationPreferences
+} from './notification-preferences.js';
 
 const app = express();
 app.use(cors());
@@ -30,6 +50,13 @@ try {
   process.exit(1);
 }
 
+// The notification worker sends pushes; fail on startup rather than on every job
+const pushError = process.env.NOTIFICATION_WORKER_ENABLED === 'true' ? pushConfigError() : null;
+if (pushError) {
+  console.error('Failed to configure push delivery:', pushError);
+  process.exit(1);
+}
+
 app.get('/health', async (_req, res) => {
   try {
   const ok = await ping();
@@ -52,6 +79,14 @@ function requireAppKey(req: express.Request, res: express.Response, next: expres
   return res.status(401).json({ error: 'unauthorized' });
 }
 
+// Respond with event rows, or an RFC 7946 FeatureCollection when the client asks for GeoJSON
+function sendEvents(req: express.Request, res: express.Response, rows: any[], options?: FeatureCollectionOptions) {
+  if (wantsGeoJson(req.query.format, req.get('accept'))) {
+    return res.type(GEOJSON_MEDIA_TYPE).json(toEventFeatureCollection(rows, options));
+  }
+  res.json(rows);
+}
+
 app.get('/cms/pages', requireAppKey, async (req, res) => {
   const cacheKey = `pages:list:all`;
   const cached = cmsCache.get(cacheKey);
@@ -110,33 +145,57 @@ app.get('/cms/pages/:tenant/:slug', requireAppKey, async (req, res) => {
   }
 });
 
-// List recent events: /events?limit=100&sinceHours=24
+// Columns selected by GET /events
+type EventListRow = Pick<EventRow, 'id' | 'title' | 'payload' | 'created_at' | 'geojson'> & {
+  starts_at: Date | null;
+  expires_at: Date | null;
+  cursor_created_at: string;
+};
+
+// List events, newest first: /events?limit=100&sinceHours=24&cursor=...
+// Keyset pagination on (created_at, id); pass the returned nextCursor to fetch the next page.
 app.get('/events', async (req, res) => {
-  const q = z
-    .object({
-      limit: z.coerce.number().int().positive().max(1000).default(100),
-      sinceHours: z.coerce.number().int().positive().max(24 * 365).optional(),
-      payload: z.string().optional()
-    })
-    .safeParse(req.query);
+  const q = EventListQuerySchema.safeParse(req.query);
   if (!q.success) return res.status(400).json(q.error.flatten());
-  const { limit, sinceHours, payload } = q.data;
+  const { limit, cursor, since, until, sinceHours, payload, count } = q.data;
 
   const params: any[] = [];
   let idx = 1;
   const where: string[] = [];
   if (sinceHours) { where.push(`created_at >= now() - ($${idx++}::int || ' hours')::interval`); params.push(sinceHours); }
+  if (since) { where.push(`created_at >= $${idx++}::timestamptz`); params.push(since); }
+  if (until) { where.push(`created_at < $${idx++}::timestamptz`); params.push(until); }
   if (payload) { where.push(`payload @> $${idx++}::jsonb`); params.push(payload); }
+  const filterParams = [...params];
+  const filterSql = where.length ? 'WHERE ' + where.join(' AND ') : '';
+
+  if (cursor) {
+    where.push(`(created_at, id) < ($${idx++}::timestamptz, $${idx++}::uuid)`);
+    params.push(cursor.createdAt, cursor.id);
+  }
   const sql = `
-    SELECT id, title, payload, created_at, ST_AsGeoJSON(geog::geometry) AS geojson
+    SELECT id, title, payload, created_at, starts_at, expires_at, created_at::text AS cursor_created_at,
+           ST_AsGeoJSON(geog::geometry) AS geojson
     FROM events
     ${where.length ? 'WHERE ' + where.join(' AND ') : ''}
-    ORDER BY created_at DESC
+    ORDER BY created_at DESC, id DESC
     LIMIT $${idx}
   `;
-  params.push(limit);
-  const r = await query(sql, params);
-  res.json(r.rows);
+  params.push(limit + 1);
+  try {
+    const r = await query<EventListRow>(sql, params);
+    const totalCount = count
+      ? (await query(`SELECT count(*)::int AS count FROM events ${filterSql}`, filterParams)).rows[0].count
+      : undefined;
+    const page = toEventPage(r.rows, limit, totalCount);
+    if (wantsGeoJson(req.query.format, req.get('accept'))) {
+      const { data, ...members } = page;
+      return res.type(GEOJSON_MEDIA_TYPE).json(toEventFeatureCollection(data, { members }));
+    }
+    res.json(page);
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
 });
 
 // Radius search: /events/radius?lat=..&lon=..&meters=3000
@@ -148,26 +207,28 @@ app.get('/events/radius', async (req, res) => {
       lat: z.coerce.number().min(-90).max(90),
       lon: z.coerce.number().min(-180).max(180),
       meters: z.coerce.number().positive().max(100000),
-      payload: z.string().optional()
+      payload: z.string().optional(),
+      includeExpired: IncludeExpiredSchema
     })
     .safeParse(req.query);
   if (!q.success) return res.status(400).json(q.error.flatten());
-  const { lat, lon, meters, payload } = q.data;
+  const { lat, lon, meters, payload, includeExpired } = q.data;
 
   const wherePayload = payload ? ' AND payload @> $4::jsonb' : '';
   const sql = `
-    SELECT id, title, payload, created_at,
+    SELECT id, title, payload, created_at, starts_at, expires_at, ST_AsGeoJSON(geog::geometry) AS geojson,
            ST_Distance(geog, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography) AS meters
     FROM events
     WHERE ST_DWithin(geog, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography, $3)
     ${wherePayload}
+    ${includeExpired ? '' : `AND ${currentEventCondition()}`}
     ORDER BY meters ASC
     LIMIT 200
   `;
   const params: any[] = [lon, lat, meters];
   if (payload) params.push(payload);
   const r = await pool.query(sql, params);
-  res.json(r.rows);
+  sendEvents(req, res, r.rows, { distanceColumn: 'meters' });
 });
 
 // Nearest N: /events/nearest?lat=..&lon=..&limit=20
@@ -179,18 +240,21 @@ app.get('/events/nearest', async (req, res) => {
       lat: z.coerce.number().min(-90).max(90),
       lon: z.coerce.number().min(-180).max(180),
       limit: z.coerce.number().int().positive().max(500).default(20),
-      payload: z.string().optional()
+      payload: z.string().optional(),
+      includeExpired: IncludeExpiredSchema
     })
     .safeParse(req.query);
   if (!q.success) return res.status(400).json(q.error.flatten());
-  const { lat, lon, limit, payload } = q.data;
+  const { lat, lon, limit, payload, includeExpired } = q.data;
 
-  const wherePayload = payload ? 'WHERE payload @> $3::jsonb' : '';
+  const where: string[] = [];
+  if (payload) where.push('payload @> $3::jsonb');
+  if (!includeExpired) where.push(currentEventCondition());
   const sql = `
-    SELECT id, title, payload, created_at,
+    SELECT id, title, payload, created_at, starts_at, expires_at, ST_AsGeoJSON(geog::geometry) AS geojson,
            geog <-> ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography AS dist
     FROM events
-    ${wherePayload}
+    ${where.length ? 'WHERE ' + where.join(' AND ') : ''}
     ORDER BY dist ASC
     LIMIT $${payload ? 4 : 3}
   `;
@@ -198,54 +262,76 @@ app.get('/events/nearest', async (req, res) => {
   if (payload) params.push(payload);
   params.push(limit);
   const r = await pool.query(sql, params);
-  res.json(r.rows);
+  sendEvents(req, res, r.rows, { distanceColumn: 'dist' });
 });
 
-// Polygon search: POST /events/polygon { polygon: GeoJSON Polygon }
+// Polygon search: POST /events/polygon { polygon: GeoJSON Polygon | MultiPolygon, buffer?: meters }
 // DEPRECATED: This endpoint will be removed in a future version. Use the Strapi geolocation plugin instead.
 app.post('/events/polygon', async (req, res) => {
   console.warn('[DEPRECATED] /events/polygon endpoint is deprecated. Please use /api/geolocation/events/polygon instead.');
-  const schema = z.object({ polygon: z.any(), payload: z.string().optional() });
-  const v = schema.safeParse(req.body);
+  const v = PolygonSearchSchema.safeParse(req.body);
   if (!v.success) return res.status(400).json(v.error.flatten());
-  const wherePayload = v.data.payload ? ' AND payload @> $2::jsonb' : '';
-  const sql = `
-    SELECT id, title, payload, created_at
-    FROM events
-    WHERE ST_Intersects(
-      geog,
-      ST_SetSRID(ST_GeomFromGeoJSON($1), 4326)::geography
-    )
-    ${wherePayload}
-    LIMIT 500
-  `;
-  const params: any[] = [JSON.stringify(v.data.polygon)];
-  if (v.data.payload) params.push(v.data.payload);
-  const r = await pool.query(sql, params);
-  res.json(r.rows);
+  const { polygon, payload, buffer, includeExpired } = v.data;
+  const polygonJson = JSON.stringify(polygon);
+
+  try {
+    // Self-intersections and other topology errors are only detectable in PostGIS
+    const check = buildPolygonValidityQuery(polygon, n => `$${n}`);
+    const validity = await pool.query(check.sql, check.params);
+    if (!validity.rows[0].valid) {
+      return res.status(400).json({ error: 'Invalid polygon', reason: validity.rows[0].reason });
+    }
+
+    const params: any[] = [polygonJson];
+    let area = 'ST_SetSRID(ST_GeomFromGeoJSON($1), 4326)::geography';
+    if (buffer) {
+      params.push(buffer);
+      area = `ST_Buffer(${area}, $${params.length})`;
+    }
+    let wherePayload = '';
+    if (payload) {
+      params.push(payload);
+      wherePayload = ` AND payload @> $${params.length}::jsonb`;
+    }
+    const sql = `
+      SELECT id, title, payload, created_at, starts_at, expires_at, ST_AsGeoJSON(geog::geometry) AS geojson
+      FROM events
+      WHERE ST_Intersects(geog, ${area})
+      ${wherePayload}
+      ${includeExpired ? '' : `AND ${currentEventCondition()}`}
+      LIMIT 500
+    `;
+    const r = await pool.query(sql, params);
+    sendEvents(req, res, r.rows);
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
 });
 
-// Create event: POST /events { id?, title, payload, lon, lat }
+// Create event: POST /events { id?, title, payload, lon, lat, starts_at?, expires_at? }
 app.post('/events', async (req, res) => {
   const schema = z.object({
     id: z.string().uuid().optional(),
     title: z.string().min(1).max(200),
     payload: z.any().optional(),
     lon: z.number().min(-180).max(180),
-    lat: z.number().min(-90).max(90)
+    lat: z.number().min(-90).max(90),
+    ...EventValidityFields
   });
   const v = schema.safeParse(req.body);
   if (!v.success) return res.status(400).json(v.error.flatten());
-  const { id, title, payload, lon, lat } = v.data;
+  const { id, title, payload, lon, lat, starts_at, expires_at } = v.data;
+  const windowError = validityWindowError(starts_at, expires_at);
+  if (windowError) return res.status(400).json({ error: windowError });
 
   const sql = `
-    INSERT INTO events (id, title, payload, geog)
+    INSERT INTO events (id, title, payload, geog, starts_at, expires_at)
     VALUES (COALESCE($1::uuid, gen_random_uuid()), $2, $3::jsonb,
-      ST_SetSRID(ST_MakePoint($4, $5), 4326)::geography)
+      ST_SetSRID(ST_MakePoint($4, $5), 4326)::geography, $6::timestamptz, $7::timestamptz)
     RETURNING id
   `;
   try {
-    const r = await pool.query(sql, [id ?? null, title, JSON.stringify(payload ?? {}), lon, lat]);
+    const r = await pool.query(sql, [id ?? null, title, JSON.stringify(payload ?? {}), lon, lat, starts_at ?? null, expires_at ?? null]);
     res.status(201).json({ id: r.rows[0].id });
   } catch (e: any) {
     res.status(500).json({ error: e.message });
@@ -262,30 +348,32 @@ app.get('/events/bbox', async (req, res) => {
       s: z.coerce.number().min(-90).max(90),
       e: z.coerce.number().min(-180).max(180),
       n: z.coerce.number().min(-90).max(90),
-      payload: z.string().optional()
+      payload: z.string().optional(),
+      includeExpired: IncludeExpiredSchema
     })
     .safeParse(req.query);
   if (!q.success) return res.status(400).json(q.error.flatten());
-  const { w, s, e, n, payload } = q.data;
+  const { w, s, e, n, payload, includeExpired } = q.data;
   const sql = `
-    SELECT id, title, payload, created_at
+    SELECT id, title, payload, created_at, starts_at, expires_at, ST_AsGeoJSON(geog::geometry) AS geojson
     FROM events
     WHERE ST_Intersects(
       geog,
       ST_SetSRID(ST_MakeEnvelope($1, $2, $3, $4, 4326), 4326)::geography
     )
     ${payload ? 'AND payload @> $5::jsonb' : ''}
+    ${includeExpired ? '' : `AND ${currentEventCondition()}`}
     LIMIT 1000
   `;
   const r = await query(sql, payload ? [w, s, e, n, payload] : [w, s, e, n]);
-  res.json(r.rows);
+  sendEvents(req, res, r.rows);
 });
 
 // Get by id
 app.get('/events/:id', async (req, res) => {
   const id = req.params.id;
   if (!z.string().uuid().safeParse(id).success) return res.status(400).json({ error: 'invalid id' });
-  const r = await query('SELECT id, title, payload, created_at, ST_AsGeoJSON(geog::geometry) AS geojson FROM events WHERE id=$1', [id]);
+  const r = await query('SELECT id, title, payload, created_at, starts_at, expires_at, ST_AsGeoJSON(geog::geometry) AS geojson FROM events WHERE id=$1', [id]);
   if (r.rowCount === 0) return res.status(404).json({ error: 'not found' });
   res.json(r.rows[0]);
 });
@@ -298,11 +386,14 @@ app.patch('/events/:id', async (req, res) => {
     title: z.string().min(1).max(200).optional(),
     payload: z.any().optional(),
     lon: z.number().min(-180).max(180).optional(),
-    lat: z.number().min(-90).max(90).optional()
+    lat: z.number().min(-90).max(90).optional(),
+    ...EventValidityFields
   });
   const v = schema.safeParse(req.body);
   if (!v.success) return res.status(400).json(v.error.flatten());
-  const { title, payload, lon, lat } = v.data;
+  const { title, payload, lon, lat, starts_at, expires_at } = v.data;
+  const windowError = validityWindowError(starts_at, expires_at);
+  if (windowError) return res.status(400).json({ error: windowError });
 
   // Build dynamic update
   const sets: string[] = [];
@@ -310,6 +401,8 @@ app.patch('/events/:id', async (req, res) => {
   let idx = 1;
   if (title !== undefined) { sets.push(`title=$${idx++}`); params.push(title); }
   if (payload !== undefined) { sets.push(`payload=$${idx++}::jsonb`); params.push(JSON.stringify(payload)); }
+  if (starts_at !== undefined) { sets.push(`starts_at=$${idx++}::timestamptz`); params.push(starts_at); }
+  if (expires_at !== undefined) { sets.push(`expires_at=$${idx++}::timestamptz`); params.push(expires_at); }
   if (lon !== undefined && lat !== undefined) {
     sets.push(`geog=ST_SetSRID(ST_MakePoint($${idx++}, $${idx++}), 4326)::geography`);
     params.push(lon, lat);
@@ -324,6 +417,8 @@ app.patch('/events/:id', async (req, res) => {
     if (r.rowCount === 0) return res.status(404).json({ error: 'not found' });
     res.json({ id });
   } catch (e: any) {
+    // Only one bound was sent and it conflicts with the stored one
+    if (e.constraint === VALIDITY_WINDOW_CONSTRAINT) return res.status(400).json({ error: 'starts_at must be before expires_at' });
     res.status(500).json({ error: e.message });
   }
 });
@@ -337,29 +432,32 @@ app.delete('/events/:id', async (req, res) => {
   res.status(204).send();
 });
 
-// Bulk insert: POST /events/bulk [{title, payload?, lon, lat}, ...]
+// Bulk upsert: POST /events/bulk?dryRun=true [{title, payload?, lon, lat, starts_at?, expires_at?, source?, externalId?}, ...]
+// Items with a source/externalId pair are upserted, so re-running an import does not duplicate events.
 app.post('/events/bulk', async (req, res) => {
-  const itemSchema = z.object({
-    title: z.string().min(1).max(200),
-    payload: z.any().optional(),
-    lon: z.number().min(-180).max(180),
-    lat: z.number().min(-90).max(90)
-  });
-  const arr = z.array(itemSchema).min(1).max(1000).safeParse(req.body);
+  const arr = z.array(z.unknown()).min(1).max(MAX_BULK_EVENTS).safeParse(req.body);
   if (!arr.success) return res.status(400).json(arr.error.flatten());
-  const values: string[] = [];
-  const params: any[] = [];
-  let i = 1;
-  for (const it of arr.data) {
-    values.push(`(gen_random_uuid(), $${i++}, $${i++}::jsonb, ST_SetSRID(ST_MakePoint($${i++}, $${i++}), 4326)::geography)`);
-    params.push(it.title, JSON.stringify(it.payload ?? {}), it.lon, it.lat);
-  }
-  const sql = `INSERT INTO events (id, title, payload, geog) VALUES ${values.join(', ')} RETURNING id`;
+  const dryRun = DryRunFlagSchema.safeParse(req.query.dryRun);
+  if (!dryRun.success) return res.status(400).json({ error: 'dryRun must be true or false' });
+
+  const { items, errors } = prepareBulkItems(arr.data);
+  const client = await pool.connect();
   try {
-    const r = await query(sql, params);
-    res.status(201).json({ inserted: r.rowCount });
+    let rows: any[] = [];
+    await client.query('BEGIN');
+    if (items.length > 0) {
+      const { sql, params } = buildBulkUpsert(items, n => `$${n}`);
+      rows = (await client.query(sql, params)).rows;
+    }
+    // A dry run reports what would happen and discards it
+    await client.query(dryRun.data ? 'ROLLBACK' : 'COMMIT');
+    const result = toBulkUpsertResult(items, rows, errors, !!dryRun.data);
+    res.status(result.created > 0 && !result.dryRun ? 201 : 200).json(result);
   } catch (e: any) {
+    await client.query('ROLLBACK').catch(() => {});
     res.status(500).json({ error: e.message });
+  } finally {
+    client.release();
   }
 });
 
@@ -484,6 +582,36 @@ app.delete('/devices/:deviceId', requireAppKey, async (req, res) => {
   }
 });
 
+// ============================================================================
+// NOTIFICATION PREFERENCES (quiet hours, daily cap, channels)
+// ============================================================================
+
+// Get a user's notification preferences; defaults when never set
+app.get('/users/:userId/notification-preferences', requireAppKey, async (req, res) => {
+  try {
+    res.json(await getNotificationPreferences(pool, req.params.userId));
+  } catch (e: any) {
+    console.error('Failed to get notification preferences:', e.message);
+    res.status(500).json({ error: 'failed to get notification preferences' });
+  }
+});
+
+// Update some of a user's notification preferences
+app.patch('/users/:userId/notification-preferences', requireAppKey, async (req, res) => {
+  const v = NotificationPreferencesUpdateSchema.safeParse(req.body);
+  if (!v.success) return res.status(400).json({ error: 'validation failed', details: v.error.flatten() });
+
+  try {
+    res.json(await updateNotificationPreferences(pool, req.params.userId, v.data));
+  } catch (e: any) {
+    if (e instanceof NotificationPreferencesError) {
+      return res.status(400).json({ error: e.message });
+    }
+    console.error('Failed to update notification preferences:', e.message);
+    res.status(500).json({ error: 'failed to update notification preferences' });
+  }
+});
+
 // Cleanup expired device registrations (maintenance endpoint)
 app.post('/devices/cleanup', requireAppKey, async (req, res) => {
   try {
@@ -501,13 +629,21 @@ app.listen(port, () => {
   console.log(`server listening on :${port}`);
 });
 
+// Notification queue worker; Strapi runs one by default, enable here to add capacity
+const notificationWorker = process.env.NOTIFICATION_WORKER_ENABLED === 'true'
+  ? new NotificationWorker({ handlers: { [GEOFENCE_PUSH_JOB]: geofencePushHandler } })
+  : null;
+notificationWorker?.start();
+
 process.on('SIGINT', async () => {
   console.log('Shutting down...');
+  try { await notificationWorker?.stop(); } catch {}
   try { await pool.end(); } catch {}
   process.exit(0);
 });
 process.on('SIGTERM', async () => {
   console.log('Shutting down...');
+  try { await notificationWorker?.stop(); } catch {}
   try { await pool.end(); } catch {}
   process.exit(0);
 });
@@ -0,0 +1,201 @@
+/**
+ * SMS senders, segmentation and opt-out keywords
+ *
+ * Every provider implements `SmsSender`. `SMS_PROVIDER` selects the sender:
+ *
+ * - `http`: generic adapter that POSTs `{ to, from, body }` as JSON to `SMS_HTTP_URL`,
+ *   with `SMS_HTTP_API_KEY` as a bearer token; fits most gateways or a small relay
+ * - `memory`: records messages in memory and never calls out (tests, local dev)
+ *
+ * Without `SMS_PROVIDER`, `http` is used when `SMS_HTTP_URL` is set. Otherwise
+ * sending fails loudly; the memory sender has to be chosen explicitly, so a
+ * missing setting cannot mark undelivered messages as sent.
+ */
+
+export type SmsProviderName = 'http' | 'memory';
+
+export interface SmsMessage {
+  to: string; // E.164
+  from: string; // sender id: phone number or alphanumeric id
+  body: string;
+}
+
+export interface SmsResult {
+  provider: SmsProviderName;
+  success: boolean;
+  statusCode?: number;
+  messageId?: string;
+  error?: string;
+}
+
+export interface SmsSender {
+  readonly name: SmsProviderName;
+  send(message: SmsMessage): Promise<SmsResult>;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// GSM 03.38 basic character set; the extension table characters take two septets
+const GSM_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+export interface SmsSegmentation {
+  encoding: 'GSM-7' | 'UCS-2';
+  units: number; // septets for GSM-7, UTF-16 code units for UCS-2
+  segments: number;
+}
+
+/**
+ * How many messages a text is billed and delivered as: 160 GSM-7 characters
+ * (153 per part when split), or 70 (67 per part) once any character needs UCS-2
+ */
+export function smsSegments(text: string): SmsSegmentation {
+  let septets = 0;
+  let gsm = true;
+  for (const char of text) {
+    if (GSM_BASIC.includes(char)) septets += 1;
+    else if (GSM_EXTENDED.includes(char)) septets += 2;
+    else {
+      gsm = false;
+      break;
+    }
+  }
+
+  const [encoding, units, single, part] = gsm
+    ? ['GSM-7' as const, septets, 160, 153]
+    : ['UCS-2' as const, text.length, 70, 67];
+  const segments = units === 0 ? 0 : units <= single ? 1 : Math.ceil(units / part);
+  return { encoding, units, segments };
+}
+
+/**
+ * Shorten a text to fit in `maxSegments`, ending it with an ellipsis that
+ * keeps the encoding ("..." for GSM-7, since "…" would force UCS-2)
+ */
+export function truncateSms(text: string, maxSegments: number): string {
+  const { encoding, segments } = smsSegments(text);
+  if (segments <= maxSegments) return text;
+  const ellipsis = encoding === 'GSM-7' ? '...' : '…';
+  const chars = Array.from(text);
+  let end = chars.length;
+  while (end > 0 && smsSegments(chars.slice(0, end).join('') + ellipsis).segments > maxSegments) {
+    end--;
+  }
+  return chars.slice(0, end).join('').trimEnd() + ellipsis;
+}
+
+export const SMS_OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+export const SMS_OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES'];
+
+/**
+ * Classify an inbound message by its first word, the way carriers do
+ */
+export function parseSmsKeyword(body: string): 'opt_out' | 'opt_in' | null {
+  const keyword = body.trim().split(/\s+/)[0]?.toUpperCase() ?? '';
+  if (SMS_OPT_OUT_KEYWORDS.includes(keyword)) return 'opt_out';
+  if (SMS_OPT_IN_KEYWORDS.includes(keyword)) return 'opt_in';
+  return null;
+}
+
+/**
+ * Normalize a phone number for lookups: digits with a leading +
+ */
+export function normalizePhoneNumber(value: string): string {
+  const digits = value.replace(/[^\d]/g, '');
+  return digits ? `+${digits.replace(/^00/, '')}` : '';
+}
+
+/**
+ * Generic HTTP gateway adapter
+ */
+export class HttpSmsSender implements SmsSender {
+  readonly name = 'http' as const;
+
+  constructor(private url: string, private apiKey?: string) {}
+
+  async send(message: SmsMessage): Promise<SmsResult> {
+    const result: SmsResult = { provider: this.name, success: false };
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify(message),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+
+      result.statusCode = response.status;
+      const json: any = await response.json().catch(() => null);
+      if (response.ok) {
+        result.success = true;
+        result.messageId = json?.id ?? json?.messageId ?? json?.sid;
+      } else {
+        result.error = json?.error?.message ?? json?.error ?? json?.message ?? response.statusText;
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+    return result;
+  }
+}
+
+/**
+ * Records messages instead of sending them
+ */
+export class MemorySmsSender implements SmsSender {
+  readonly name = 'memory' as const;
+  readonly sent: SmsMessage[] = [];
+
+  async send(message: SmsMessage): Promise<SmsResult> {
+    this.sent.push(message);
+    return { provider: this.name, success: true, messageId: `memory-${this.sent.length}` };
+  }
+}
+
+/**
+ * Provider the environment selects, without checking its settings; null when
+ * none is configured
+ */
+export function smsProviderName(env: NodeJS.ProcessEnv = process.env): string | null {
+  return env.SMS_PROVIDER || (env.SMS_HTTP_URL ? 'http' : null);
+}
+
+/**
+ * Build the sender configured by the environment
+ */
+export function createSmsSender(env: NodeJS.ProcessEnv = process.env): SmsSender {
+  const provider = smsProviderName(env);
+  switch (provider) {
+    case null:
+      throw new Error('No SMS provider configured: set SMS_HTTP_URL, or SMS_PROVIDER=memory to record messages without sending them');
+    case 'http':
+      if (!env.SMS_HTTP_URL) {
+        throw new Error('SMS_HTTP_URL is required for SMS_PROVIDER=http');
+      }
+      return new HttpSmsSender(env.SMS_HTTP_URL, env.SMS_HTTP_API_KEY);
+    case 'memory':
+      return new MemorySmsSender();
+    default:
+      throw new Error(`Unknown SMS_PROVIDER "${provider}", expected http or memory`);
+  }
+}
+
+let defaultSender: SmsSender | undefined;
+
+/**
+ * Process-wide sender, created from the environment on first use
+ */
+export function getSmsSender(): SmsSender {
+  defaultSender ??= createSmsSender();
+  return defaultSender;
+}
+
+/**
+ * Replace the process-wide sender (e.g. with a `MemorySmsSender` in tests)
+ */
+export function setSmsSender(sender: SmsSender): void {
+  defaultSender = sender;
+}
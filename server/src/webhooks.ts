@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+
+/**
+ * Signed webhook delivery
+ *
+ * Each request carries the raw JSON body signed with the endpoint's secret:
+ *
+ *   X-Geofence-Event-Id:  stable id of the event, the same on every retry and redelivery
+ *   X-Geofence-Timestamp: unix seconds when this attempt was signed
+ *   X-Geofence-Signature: t=<timestamp>,v1=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *
+ * Receivers verify the signature over the exact body bytes and reject requests
+ * whose timestamp is more than `WEBHOOK_TOLERANCE_SECONDS` old, so a captured
+ * request cannot be replayed later. `verifyWebhookSignature` does both.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Geofence-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Geofence-Timestamp';
+export const WEBHOOK_EVENT_ID_HEADER = 'X-Geofence-Event-Id';
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 10000;
+
+export interface WebhookRequest {
+  url: string;
+  secret: string;
+  eventId: string;
+  body: string; // JSON, sent and signed as is
+  timeoutMs?: number;
+}
+
+export interface WebhookResult {
+  sent: boolean; // the endpoint answered 2xx
+  statusCode?: number;
+  latencyMs: number;
+  timestamp: number; // signing time, unix seconds
+  responseBody?: string;
+  error?: string;
+  permanent?: boolean; // retrying will not help, e.g. 400 or 410
+}
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a signature header against the raw body, rejecting stale timestamps
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  now: number = Date.now(),
+  toleranceSeconds: number = WEBHOOK_TOLERANCE_SECONDS
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=', 2)));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body).split('v1=')[1], 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * POST a signed webhook. Never throws; network errors and timeouts are
+ * reported in the result. Redirects are not followed.
+ */
+export async function sendWebhook(request: WebhookRequest): Promise<WebhookResult> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+  const result: WebhookResult = { sent: false, latencyMs: 0, timestamp };
+
+  try {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'geofence-webhooks/1.0',
+        [WEBHOOK_EVENT_ID_HEADER]: request.eventId,
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(request.secret, timestamp, request.body)
+      },
+      body: request.body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(request.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS)
+    });
+
+    result.statusCode = response.status;
+    result.responseBody = (await response.text().catch(() => '')).slice(0, 1000);
+    result.sent = response.ok;
+    if (!response.ok) {
+      result.error = `HTTP ${response.status}`;
+      // Client errors other than timeouts and rate limits will fail the same way again
+      result.permanent = response.status >= 400 && response.status < 500 && ![408, 429].includes(response.status);
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  result.latencyMs = Date.now() - started;
+  return result;
+}
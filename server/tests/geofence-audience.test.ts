@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'vitest';
+import {
+  audienceUsesDevices,
+  compareVersions,
+  isInAudience,
+  rolloutBucket,
+  validateGeofenceAudience
+} from '../src/geofence-audience.js';
+
+const iosDe = { platform: 'ios' as const, appVersion: '2.10.0', deviceMetadata: { language: 'de-AT' } };
+const androidEn = { platform: 'android' as const, deviceMetadata: { appVersion: '2.3.9', language: 'en' } };
+
+describe('compareVersions', () => {
+  test('compares each part numerically', () => {
+    expect(compareVersions('2.10.0', '2.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('2.3.9', '2.4')).toBeLessThan(0);
+    expect(compareVersions('2.4', '2.4.0')).toBe(0);
+  });
+});
+
+describe('rolloutBucket', () => {
+  test('is stable and in range', () => {
+    const bucket = rolloutBucket('fence-1', 'user-1');
+    expect(rolloutBucket('fence-1', 'user-1')).toBe(bucket);
+    expect(bucket).toBeGreaterThanOrEqual(0);
+    expect(bucket).toBeLessThan(100);
+  });
+
+  test('spreads users roughly evenly and differs per fence', () => {
+    const buckets = Array.from({ length: 1000 }, (_, i) => rolloutBucket(7, `user-${i}`));
+    const share = buckets.filter(bucket => bucket < 25).length / buckets.length;
+    expect(share).toBeGreaterThan(0.2);
+    expect(share).toBeLessThan(0.3);
+    expect(buckets.filter((bucket, i) => bucket === rolloutBucket(8, `user-${i}`))).toHaveLength(0);
+  });
+});
+
+describe('isInAudience', () => {
+  test('targets everyone without an audience', () => {
+    expect(isInAudience(null, 1, 'user-1')).toBe(true);
+    expect(isInAudience({}, 1, 'user-1')).toBe(true);
+  });
+
+  test('applies include and exclude lists, exclusions first', () => {
+    const audience = { include_user_ids: ['user-1', 'user-2'], exclude_user_ids: ['user-2'] };
+    expect(isInAudience(audience, 1, 'user-1')).toBe(true);
+    expect(isInAudience(audience, 1, 'user-2')).toBe(false);
+    expect(isInAudience(audience, 1, 'user-3')).toBe(false);
+  });
+
+  test('needs one device matching every field of a segment', () => {
+    const audience = { segments: [{ platforms: ['ios'], min_app_version: '2.4.0', languages: ['de'] }] };
+    expect(isInAudience(audience, 1, 'user-1', [iosDe])).toBe(true);
+    expect(isInAudience(audience, 1, 'user-1', [androidEn])).toBe(false);
+    expect(isInAudience(audience, 1, 'user-1', [{ ...iosDe, appVersion: '2.3.0' }])).toBe(false);
+    expect(isInAudience(audience, 1, 'user-1', [])).toBe(false);
+  });
+
+  test('matches languages by base language only one way', () => {
+    expect(isInAudience({ segments: [{ languages: ['de'] }] }, 1, 'user-1', [iosDe])).toBe(true);
+    expect(isInAudience({ segments: [{ languages: ['de-AT'] }] }, 1, 'user-1', [{ ...iosDe, deviceMetadata: { language: 'de' } }])).toBe(false);
+  });
+
+  test('reads the app version from the device metadata and bounds it inclusively', () => {
+    expect(isInAudience({ segments: [{ max_app_version: '2.3.9' }] }, 1, 'user-1', [androidEn])).toBe(true);
+    expect(isInAudience({ segments: [{ min_app_version: '2.4.0' }] }, 1, 'user-1', [androidEn])).toBe(false);
+    expect(isInAudience({ segments: [{ min_app_version: '1.0' }] }, 1, 'user-1', [{ platform: 'web', deviceMetadata: {} }])).toBe(false);
+  });
+
+  test('rolls out by bucket, only adding users as the percentage grows', () => {
+    const users = Array.from({ length: 200 }, (_, i) => `user-${i}`);
+    const at = (rollout_percentage: number) => users.filter(user => isInAudience({ rollout_percentage }, 'fence-1', user));
+    expect(at(0)).toEqual([]);
+    expect(at(100)).toEqual(users);
+    expect(at(50).every(user => at(75).includes(user))).toBe(true);
+    expect(at(25).every(user => rolloutBucket('fence-1', user) < 25)).toBe(true);
+  });
+});
+
+describe('validateGeofenceAudience', () => {
+  test('accepts a valid audience or none', () => {
+    expect(validateGeofenceAudience(null)).toEqual([]);
+    expect(validateGeofenceAudience({
+      include_user_ids: ['user-1'],
+      segments: [{ platforms: ['ios', 'web'], min_app_version: '2.4', languages: ['pt-BR'] }],
+      rollout_percentage: 25
+    })).toEqual([]);
+  });
+
+  test('reports each problem', () => {
+    expect(validateGeofenceAudience([])).toEqual(['audience must be an object']);
+    expect(validateGeofenceAudience({
+      exclude_user_ids: [''],
+      rollout_percentage: 120,
+      segments: [{ platforms: ['symbian'], languages: ['German'], max_app_version: 'v2' }, 'all']
+    })).toEqual([
+      'audience.exclude_user_ids must be an array of user ids',
+      'audience.rollout_percentage must be a number from 0 to 100',
+      'audience.segments[0].platforms must list platforms from ios, android, web',
+      'audience.segments[0].languages must list locale codes such as de or pt-BR',
+      'audience.segments[0].max_app_version must be a version such as 2.4.0',
+      'audience.segments[1] must be an object'
+    ]);
+  });
+
+  test('knows when devices are needed', () => {
+    expect(audienceUsesDevices({ segments: [{ platforms: ['ios'] }] })).toBe(true);
+    expect(audienceUsesDevices({ segments: [], rollout_percentage: 10 })).toBe(false);
+    expect(audienceUsesDevices(null)).toBe(false);
+  });
+});
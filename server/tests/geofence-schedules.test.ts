@@ -0,0 +1,148 @@
+import { readFile } from 'fs/promises';
+import { afterAll, describe, expect, test } from 'vitest';
+import {
+  GeofenceSchedule,
+  describeGeofenceSchedule,
+  isGeofenceScheduled,
+  isGeofenceScheduledThroughout,
+  validateGeofenceSchedule
+} from '../src/geofence-schedules.js';
+import { pool } from '../src/db.js';
+
+// 2026-05-04 is a Monday; Berlin is UTC+2 in May
+const weekdays: GeofenceSchedule = {
+  windows: [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '09:00', end: '17:00' }],
+  timezone: 'Europe/Berlin'
+};
+const saturdayNight: GeofenceSchedule = {
+  windows: [{ days: ['sat'], start: '22:00', end: '02:00' }]
+};
+const campaign: GeofenceSchedule = {
+  startsAt: '2026-05-01T00:00:00Z',
+  endsAt: '2026-06-01T00:00:00Z'
+};
+
+describe('isGeofenceScheduled', () => {
+  test('is always live without a schedule', () => {
+    expect(isGeofenceScheduled({}, new Date('2026-05-04T03:00:00Z'))).toBe(true);
+    expect(isGeofenceScheduled({ windows: [] }, new Date('2026-05-04T03:00:00Z'))).toBe(true);
+  });
+
+  test('includes the start and excludes the end of the date range', () => {
+    expect(isGeofenceScheduled(campaign, new Date('2026-04-30T23:59:59Z'))).toBe(false);
+    expect(isGeofenceScheduled(campaign, new Date('2026-05-01T00:00:00Z'))).toBe(true);
+    expect(isGeofenceScheduled(campaign, new Date('2026-06-01T00:00:00Z'))).toBe(false);
+  });
+
+  test('checks windows on the wall clock of the time zone', () => {
+    expect(isGeofenceScheduled(weekdays, new Date('2026-05-04T06:59:00Z'))).toBe(false);
+    expect(isGeofenceScheduled(weekdays, new Date('2026-05-04T07:00:00Z'))).toBe(true);
+    expect(isGeofenceScheduled(weekdays, new Date('2026-05-04T14:59:00Z'))).toBe(true);
+    expect(isGeofenceScheduled(weekdays, new Date('2026-05-04T15:00:00Z'))).toBe(false);
+    expect(isGeofenceScheduled(weekdays, new Date('2026-05-09T10:00:00Z'))).toBe(false);
+  });
+
+  test('runs a window past midnight into the next day', () => {
+    expect(isGeofenceScheduled(saturdayNight, new Date('2026-05-09T23:00:00Z'))).toBe(true);
+    expect(isGeofenceScheduled(saturdayNight, new Date('2026-05-10T01:59:00Z'))).toBe(true);
+    expect(isGeofenceScheduled(saturdayNight, new Date('2026-05-10T02:00:00Z'))).toBe(false);
+    expect(isGeofenceScheduled(saturdayNight, new Date('2026-05-10T23:00:00Z'))).toBe(false);
+  });
+
+  test('covers a whole day when start equals end', () => {
+    const allMonday: GeofenceSchedule = { windows: [{ days: ['mon'], start: '00:00', end: '00:00' }] };
+    expect(isGeofenceScheduled(allMonday, new Date('2026-05-04T00:00:00Z'))).toBe(true);
+    expect(isGeofenceScheduled(allMonday, new Date('2026-05-04T23:59:00Z'))).toBe(true);
+    expect(isGeofenceScheduled(allMonday, new Date('2026-05-05T00:00:00Z'))).toBe(false);
+  });
+});
+
+describe('isGeofenceScheduledThroughout', () => {
+  test('holds within one window', () => {
+    expect(isGeofenceScheduledThroughout(weekdays, new Date('2026-05-04T08:00:00Z'), new Date('2026-05-04T14:00:00Z'))).toBe(true);
+  });
+
+  test('fails across a gap, even when both ends are live', () => {
+    expect(isGeofenceScheduledThroughout(weekdays, new Date('2026-05-04T14:00:00Z'), new Date('2026-05-05T08:00:00Z'))).toBe(false);
+    expect(isGeofenceScheduledThroughout(weekdays, new Date('2026-05-04T14:00:00Z'), new Date('2026-05-11T14:00:00Z'))).toBe(false);
+  });
+
+  test('holds across windows that join', () => {
+    const split: GeofenceSchedule = {
+      windows: [{ days: ['mon'], start: '09:00', end: '12:00' }, { days: ['mon'], start: '12:00', end: '18:00' }]
+    };
+    expect(isGeofenceScheduledThroughout(split, new Date('2026-05-04T10:00:00Z'), new Date('2026-05-04T15:00:00Z'))).toBe(true);
+    expect(isGeofenceScheduledThroughout(saturdayNight, new Date('2026-05-09T22:30:00Z'), new Date('2026-05-10T01:30:00Z'))).toBe(true);
+  });
+
+  test('holds for fences without windows while in their date range', () => {
+    expect(isGeofenceScheduledThroughout(campaign, new Date('2026-05-02T00:00:00Z'), new Date('2026-05-30T00:00:00Z'))).toBe(true);
+    expect(isGeofenceScheduledThroughout(campaign, new Date('2026-05-02T00:00:00Z'), new Date('2026-06-02T00:00:00Z'))).toBe(false);
+  });
+});
+
+describe('validateGeofenceSchedule', () => {
+  test('accepts a valid schedule', () => {
+    expect(validateGeofenceSchedule({ ...campaign, ...weekdays })).toEqual([]);
+  });
+
+  test('reports each problem', () => {
+    expect(validateGeofenceSchedule({
+      startsAt: '2026-06-01T00:00:00Z',
+      endsAt: '2026-05-01T00:00:00Z',
+      timezone: 'Mars/Olympus',
+      windows: [{ days: ['someday'], start: '9:00', end: '17:00' }, null] as any
+    })).toEqual([
+      'ends_at must be after starts_at',
+      '"Mars/Olympus" is not an IANA time zone such as Europe/Berlin',
+      'schedule_windows[0].days must list days from mon, tue, wed, thu, fri, sat, sun',
+      'schedule_windows[0].start must be a time as HH:mm',
+      'schedule_windows[1] must be an object'
+    ]);
+    expect(validateGeofenceSchedule({ startsAt: 'soon', windows: {} as any })).toEqual([
+      'starts_at is not a valid date',
+      'schedule_windows must be an array'
+    ]);
+  });
+});
+
+describe('describeGeofenceSchedule', () => {
+  test('summarizes windows and dates', () => {
+    expect(describeGeofenceSchedule({})).toBe('always');
+    expect(describeGeofenceSchedule({ ...weekdays, startsAt: campaign.startsAt }))
+      .toBe('mon, tue, wed, thu, fri 09:00–17:00 (Europe/Berlin), from 2026-05-01');
+    expect(describeGeofenceSchedule(campaign)).toBe('from 2026-05-01, until 2026-06-01');
+  });
+});
+
+// Runs against the database in DATABASE_URL, in a transaction that is rolled back
+describe.skipIf(!process.env.DATABASE_URL)('geofence_is_scheduled', () => {
+  afterAll(() => pool.end());
+
+  test('agrees with isGeofenceScheduled', async () => {
+    const migration = await readFile(new URL('../sql/014_geofence_schedules.sql', import.meta.url), 'utf8');
+    const createFunction = migration.match(/CREATE OR REPLACE FUNCTION[\s\S]*?\$\$;/)![0];
+    const times = [
+      '2026-05-04T06:59:00Z', '2026-05-04T07:00:00Z', '2026-05-04T15:00:00Z', '2026-05-09T23:00:00Z',
+      '2026-05-10T01:59:00Z', '2026-05-10T02:00:00Z', '2026-04-30T23:59:59Z', '2026-06-01T00:00:00Z'
+    ];
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(createFunction);
+      for (const schedule of [weekdays, saturdayNight, campaign, { ...campaign, ...weekdays }]) {
+        for (const time of times) {
+          const { rows } = await client.query(
+            'SELECT geofence_is_scheduled($1, $2, $3::jsonb, $4, $5) AS live',
+            [schedule.startsAt ?? null, schedule.endsAt ?? null, schedule.windows ? JSON.stringify(schedule.windows) : null, schedule.timezone ?? 'UTC', time]
+          );
+          expect(rows[0].live, `${JSON.stringify(schedule)} at ${time}`).toBe(isGeofenceScheduled(schedule, new Date(time)));
+        }
+      }
+    } finally {
+      await client.query('ROLLBACK');
+      client.release();
+    }
+  });
+});
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { pool, query } from '../src/db.js';
+import { GeofenceEvaluationService } from '../src/geofence-service.js';
+
+vi.mock('../src/db.js', () => ({ pool: { connect: vi.fn() }, query: vi.fn() }));
+vi.mock('../src/geofence-notifications.js', () => ({ enqueueGeofenceNotifications: vi.fn(async () => 0) }));
+
+// Rows per statement, matched on the SQL text; every statement is recorded
+type Responder = (sql: string, params?: any[]) => any[] | undefined;
+let statements: Array<{ sql: string; params?: any[] }>;
+
+function fakeDatabase(respond: Responder) {
+  const run = async (sql: string, params?: any[]) => {
+    statements.push({ sql, params });
+    return { rows: respond(sql, params) ?? [], rowCount: 0 };
+  };
+  vi.mocked(query).mockImplementation(run as any);
+  vi.mocked(pool.connect).mockImplementation(async () => ({ query: run, release: () => {} }) as any);
+}
+
+const executed = (pattern: RegExp) => statements.filter(({ sql }) => pattern.test(sql));
+
+// Weekdays 06:00 to 18:00 UTC; 2026-05-05 is a Tuesday
+const openingHours = {
+  starts_at: null,
+  ends_at: null,
+  schedule_windows: [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '06:00', end: '18:00' }],
+  schedule_timezone: 'UTC'
+};
+
+// One location's row from the evaluation query, inside a 100 m circle unless overridden
+function evaluationRow(locationId: string, createdAt: string, overrides: Record<string, unknown> = {}) {
+  return {
+    user_location_id: locationId, user_id: 'user-1', accuracy_meters: 5, created_at: createdAt,
+    geofence_id: 'g1', geofence_name: 'Shop', geofence_metadata: {},
+    starts_at: null, ends_at: null, schedule_windows: null, schedule_timezone: 'UTC',
+    dwell_seconds: 600, radius_meters: 100, hysteresis_meters: 25,
+    distance_meters: 10, inside: true, within_buffer: true,
+    ...overrides
+  };
+}
+
+function serveLocationsOnce(respond: Responder, locations: any[]) {
+  let served = false;
+  fakeDatabase((sql, params) => {
+    if (/FROM user_locations\s+WHERE processed_at IS NULL/.test(sql) && !served) {
+      served = true;
+      return locations;
+    }
+    return respond(sql, params);
+  });
+}
+
+beforeEach(() => {
+  statements = [];
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('runCatchupEvaluation', () => {
+  test('evaluates and marks locations while every fence is off schedule', async () => {
+    vi.setSystemTime(new Date('2026-05-05T22:00:00Z'));
+    let served = false;
+    fakeDatabase(sql => {
+      if (/FROM user_locations\s+WHERE processed_at IS NULL/.test(sql) && !served) {
+        served = true;
+        // Recorded while the fences were still open
+        return [{ id: 'loc-1', user_id: 'user-1', latitude: 55.67, longitude: 12.56, accuracy_meters: 5, created_at: '2026-05-05T17:50:00Z' }];
+      }
+    });
+
+    await new GeofenceEvaluationService({ batchSize: 10 }).runCatchupEvaluation();
+
+    expect(executed(/WITH batch AS/)[0].params?.[0]).toEqual(['loc-1']);
+    expect(executed(/UPDATE user_locations\s+SET processed_at/)[0].params).toEqual(['loc-1']);
+    expect(executed(/FOR UPDATE OF s/)).toHaveLength(1);
+  });
+
+  test('evaluates a batch in one query and replays its rows in location order', async () => {
+    vi.setSystemTime(new Date('2026-05-05T17:10:00Z'));
+    serveLocationsOnce(sql => {
+      if (/WITH batch AS/.test(sql)) {
+        return [
+          evaluationRow('loc-1', '2026-05-05T17:00:00Z'),
+          evaluationRow('loc-3', '2026-05-05T17:05:00Z', { distance_meters: 300, inside: false, within_buffer: false })
+        ];
+      }
+      if (/INSERT INTO geofence_hits/.test(sql)) return [{ id: 'hit-1' }, { id: 'hit-2' }];
+    }, [
+      { id: 'loc-1', user_id: 'user-1', latitude: 55.67, longitude: 12.56, accuracy_meters: 5, created_at: '2026-05-05T17:00:00Z' },
+      { id: 'loc-2', user_id: 'user-1', latitude: 55.67, longitude: 12.56, accuracy_meters: 500, created_at: '2026-05-05T17:01:00Z' },
+      { id: 'loc-3', user_id: 'user-1', latitude: 55.68, longitude: 12.56, accuracy_meters: 5, created_at: '2026-05-05T17:05:00Z' }
+    ]);
+
+    await new GeofenceEvaluationService({ batchSize: 10, dwellMinutes: 10 }).runCatchupEvaluation();
+
+    // The too coarse location is not evaluated, but still marked
+    const evaluations = executed(/WITH batch AS/);
+    expect(evaluations).toHaveLength(1);
+    expect(evaluations[0].params).toEqual([['loc-1', 'loc-3'], 600]);
+    expect(executed(/UPDATE user_locations\s+SET processed_at/)[0].params).toEqual(['loc-1', 'loc-2', 'loc-3']);
+
+    const hits = executed(/INSERT INTO geofence_hits/);
+    expect(hits).toHaveLength(1);
+    expect(hits[0].params?.filter((_, i) => i % 8 === 4)).toEqual(['enter', 'exit']);
+    expect(executed(/INSERT INTO geofence_states/)[0].params?.slice(0, 3)).toEqual([['user-1'], ['g1'], [false]]);
+  });
+
+  test('enters polygons on containment alone, without the circle probability check', async () => {
+    vi.setSystemTime(new Date('2026-05-05T17:10:00Z'));
+    serveLocationsOnce(sql => {
+      if (/WITH batch AS/.test(sql)) {
+        return [
+          // A long polygon whose centroid is far from the user
+          evaluationRow('loc-1', '2026-05-05T17:00:00Z', { geofence_id: 'g1', radius_meters: null, accuracy_meters: 40, distance_meters: 800 }),
+          // Just inside a circle, but too likely outside to enter
+          evaluationRow('loc-1', '2026-05-05T17:00:00Z', { geofence_id: 'g2', radius_meters: 100, accuracy_meters: 40, distance_meters: 95 })
+        ];
+      }
+      if (/INSERT INTO geofence_hits/.test(sql)) return [{ id: 'hit-1' }];
+    }, [{ id: 'loc-1', user_id: 'user-1', latitude: 55.67, longitude: 12.56, accuracy_meters: 40, created_at: '2026-05-05T17:00:00Z' }]);
+
+    await new GeofenceEvaluationService({ batchSize: 10 }).runCatchupEvaluation();
+
+    const hits = executed(/INSERT INTO geofence_hits/);
+    expect(hits).toHaveLength(1);
+    expect(hits[0].params?.slice(0, 5)).toEqual(['g1', 'user-1', 'loc-1', 800, 'enter']);
+    expect(JSON.parse(hits[0].params?.[7]).locationConfidence).toMatchObject({ decision: 'accepted', probabilityInside: null });
+  });
+
+  test('closes stays in fences that went off since the last location, firing only live dwells', async () => {
+    vi.setSystemTime(new Date('2026-05-05T12:00:00Z'));
+    fakeDatabase(sql => {
+      if (/FOR UPDATE OF s/.test(sql)) {
+        return [
+          { user_id: 'stale', geofence_id: 'g1', last_seen_at: new Date('2026-05-04T12:00:00Z'), user_location_id: 'loc-1', geofence_name: 'Shop', ...openingHours },
+          { user_id: 'live', geofence_id: 'g1', last_seen_at: new Date('2026-05-05T11:50:00Z'), user_location_id: 'loc-2', geofence_name: 'Shop', distance_meters: 3, ...openingHours }
+        ];
+      }
+      if (/INSERT INTO geofence_hits/.test(sql)) return [{ id: 'hit-1' }];
+    });
+
+    await new GeofenceEvaluationService().runCatchupEvaluation();
+
+    expect(executed(/SET dwell_at = now\(\)/)[0].params).toEqual([['live'], ['g1']]);
+    expect(executed(/SET inside = false/)[0].params).toEqual([['stale'], ['g1']]);
+    const hits = executed(/INSERT INTO geofence_hits/);
+    expect(hits).toHaveLength(1);
+    expect(hits[0].params?.slice(0, 5)).toEqual(['g1', 'live', 'loc-2', 3, 'dwell']);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'vitest';
+import { GeofenceMembership, OUTSIDE_MEMBERSHIP, nextGeofenceMembership } from '../src/geofence-transitions.js';
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 0, 1, 12, minutes));
+const DWELL_MS = 10 * 60 * 1000;
+
+const INSIDE = { inside: true, withinBuffer: true };
+const IN_BUFFER = { inside: false, withinBuffer: true };
+const OUTSIDE = { inside: false, withinBuffer: false };
+
+function replay(observations: Array<{ at: Date; inside: boolean; withinBuffer: boolean }>, dwellMs = DWELL_MS) {
+  let state: GeofenceMembership = OUTSIDE_MEMBERSHIP;
+  const events = [];
+  for (const observation of observations) {
+    const next = nextGeofenceMembership(state, observation, dwellMs);
+    state = next.state;
+    events.push(next.event);
+  }
+  return { state, events };
+}
+
+describe('nextGeofenceMembership', () => {
+  test('enters when a location is inside the fence', () => {
+    const { state, event } = nextGeofenceMembership(OUTSIDE_MEMBERSHIP, { at: at(0), ...INSIDE }, DWELL_MS);
+    expect(event).toBe('enter');
+    expect(state).toEqual({ inside: true, enteredAt: at(0), dwellAt: null, lastSeenAt: at(0) });
+  });
+
+  test('does not enter from the hysteresis buffer', () => {
+    const { state, event } = nextGeofenceMembership(OUTSIDE_MEMBERSHIP, { at: at(0), ...IN_BUFFER }, DWELL_MS);
+    expect(event).toBeNull();
+    expect(state.inside).toBe(false);
+    expect(state.lastSeenAt).toEqual(at(0));
+  });
+
+  test('stays inside within the buffer and exits beyond it', () => {
+    const { state, events } = replay([
+      { at: at(0), ...INSIDE },
+      { at: at(1), ...IN_BUFFER },
+      { at: at(2), ...OUTSIDE }
+    ]);
+    expect(events).toEqual(['enter', null, 'exit']);
+    expect(state).toEqual({ inside: false, enteredAt: null, dwellAt: null, lastSeenAt: at(2) });
+  });
+
+  test('fires dwell once per stay', () => {
+    const { events } = replay([
+      { at: at(0), ...INSIDE },
+      { at: at(5), ...INSIDE },
+      { at: at(10), ...IN_BUFFER },
+      { at: at(20), ...INSIDE },
+      { at: at(21), ...OUTSIDE },
+      { at: at(22), ...INSIDE },
+      { at: at(32), ...INSIDE }
+    ]);
+    expect(events).toEqual(['enter', null, 'dwell', null, 'exit', 'enter', 'dwell']);
+  });
+
+  test('never fires dwell when dwellMs is 0', () => {
+    const { events } = replay([
+      { at: at(0), ...INSIDE },
+      { at: at(59), ...INSIDE }
+    ], 0);
+    expect(events).toEqual(['enter', null]);
+  });
+
+  test('ignores observations at or before the last one', () => {
+    const { state } = nextGeofenceMembership(OUTSIDE_MEMBERSHIP, { at: at(5), ...INSIDE }, DWELL_MS);
+    expect(nextGeofenceMembership(state, { at: at(5), ...OUTSIDE }, DWELL_MS)).toEqual({ state, event: null });
+    expect(nextGeofenceMembership(state, { at: at(1), ...OUTSIDE }, DWELL_MS)).toEqual({ state, event: null });
+  });
+
+  test('measures dwell from the observation when the entry time is unknown', () => {
+    const legacy: GeofenceMembership = { inside: true, enteredAt: null, dwellAt: null, lastSeenAt: null };
+    const first = nextGeofenceMembership(legacy, { at: at(0), ...INSIDE }, DWELL_MS);
+    expect(first).toEqual({ state: { inside: true, enteredAt: at(0), dwellAt: null, lastSeenAt: at(0) }, event: null });
+    expect(nextGeofenceMembership(first.state, { at: at(10), ...INSIDE }, DWELL_MS).event).toBe('dwell');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'vitest';
+import {
+  assessLocationAccuracy,
+  circleInsideProbability,
+  isAccuracyRejected,
+  scaledHysteresis
+} from '../src/location-accuracy.js';
+
+describe('circleInsideProbability', () => {
+  test('matches the 68% convention at the center', () => {
+    expect(circleInsideProbability(0, 50, 50)).toBeCloseTo(0.68, 2);
+  });
+
+  test('is about one half on the edge of a large circle', () => {
+    expect(circleInsideProbability(1000, 1000, 10)).toBeCloseTo(0.5, 1);
+  });
+
+  test('approaches certainty deep inside and zero far outside', () => {
+    expect(circleInsideProbability(0, 200, 5)).toBeCloseTo(1, 3);
+    expect(circleInsideProbability(500, 100, 20)).toBe(0);
+  });
+
+  test('falls as the position moves outwards or the accuracy worsens', () => {
+    expect(circleInsideProbability(40, 100, 20)).toBeGreaterThan(circleInsideProbability(80, 100, 20));
+    expect(circleInsideProbability(50, 100, 10)).toBeGreaterThan(circleInsideProbability(50, 100, 40));
+  });
+
+  test('treats zero accuracy as an exact position', () => {
+    expect(circleInsideProbability(99, 100, 0)).toBe(1);
+    expect(circleInsideProbability(101, 100, 0)).toBe(0);
+  });
+});
+
+describe('assessLocationAccuracy', () => {
+  const base = { inside: true, withinBuffer: true, hysteresisMeters: 10 };
+
+  test('rejects locations coarser than the limit', () => {
+    expect(assessLocationAccuracy({ ...base, accuracyMeters: 51 })).toBeNull();
+    expect(assessLocationAccuracy({ ...base, accuracyMeters: 80 }, { maxAccuracyMeters: 100 })).not.toBeNull();
+    expect(isAccuracyRejected(50)).toBe(false);
+    expect(isAccuracyRejected(null)).toBe(false);
+  });
+
+  test('evaluates locations without accuracy as reported', () => {
+    expect(assessLocationAccuracy(base)).toEqual({
+      inside: true,
+      withinBuffer: true,
+      confidence: { decision: 'unknown', accuracyMeters: null, probabilityInside: null, hysteresisMeters: 10 }
+    });
+  });
+
+  test('accepts a confident fix inside a circle', () => {
+    const result = assessLocationAccuracy({ ...base, accuracyMeters: 5, circle: { distanceMeters: 20, radiusMeters: 100 } });
+    expect(result?.inside).toBe(true);
+    expect(result?.confidence.decision).toBe('accepted');
+    expect(result?.confidence.probabilityInside).toBe(1);
+  });
+
+  test('downgrades an uncertain fix so it cannot enter but still holds a stay', () => {
+    const result = assessLocationAccuracy({ ...base, accuracyMeters: 40, circle: { distanceMeters: 90, radiusMeters: 100 } });
+    expect(result?.inside).toBe(false);
+    expect(result?.withinBuffer).toBe(true);
+    expect(result?.confidence.decision).toBe('downgraded');
+    expect(result?.confidence.probabilityInside).toBeLessThan(0.7);
+  });
+
+  test('honours a custom enter probability', () => {
+    const location = { ...base, accuracyMeters: 40, circle: { distanceMeters: 90, radiusMeters: 100 } };
+    expect(assessLocationAccuracy(location, { minEnterProbability: 0.1 })?.confidence.decision).toBe('accepted');
+  });
+
+  test('skips the probability check for polygons', () => {
+    const result = assessLocationAccuracy({ ...base, accuracyMeters: 40 });
+    expect(result?.inside).toBe(true);
+    expect(result?.confidence).toMatchObject({ decision: 'accepted', probabilityInside: null });
+  });
+});
+
+describe('scaledHysteresis', () => {
+  test('widens the buffer by the accuracy', () => {
+    expect(scaledHysteresis(10, 25)).toBe(35);
+    expect(scaledHysteresis(10, null)).toBe(10);
+    expect(scaledHysteresis(10)).toBe(10);
+  });
+});
@@ -0,0 +1,152 @@
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { PoolClient } from 'pg';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { baseline, checksum, down, findDrift, loadMigrations, up } from '../src/migrations.js';
+
+let dir: string;
+
+function write(file: string, sql: string) {
+  writeFileSync(join(dir, file), sql);
+}
+
+// Returns `applied` for the ledger query and records every other statement
+function fakeClient(applied: Array<{ version: string; name: string; checksum: string }>) {
+  const statements: string[] = [];
+  const client = {
+    query: vi.fn(async (sql: string) => {
+      if (sql.includes('SELECT version, name, checksum')) {
+        return { rows: applied.map(row => ({ ...row, applied_at: '2026-01-01T00:00:00Z' })) };
+      }
+      statements.push(sql.trim());
+      return { rows: [] };
+    })
+  };
+  return { client: client as unknown as PoolClient, statements };
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'migrations-'));
+  mkdirSync(join(dir, 'down'));
+  write('001_users.sql', 'CREATE TABLE users ();');
+  write('002_posts.sql', 'CREATE TABLE posts ();');
+  write('down/002_posts.sql', 'DROP TABLE posts;');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+describe('loadMigrations', () => {
+  test('orders files by version', () => {
+    write('010_tags.sql', 'CREATE TABLE tags ();');
+    expect(loadMigrations(dir).map(m => m.file)).toEqual(['001_users.sql', '002_posts.sql', '010_tags.sql']);
+  });
+
+  test('rejects duplicate versions and bad names', () => {
+    write('002_comments.sql', '');
+    expect(() => loadMigrations(dir)).toThrow('Duplicate migration version 002: 002_comments.sql and 002_posts.sql');
+    rmSync(join(dir, '002_comments.sql'));
+    write('posts.sql', '');
+    expect(() => loadMigrations(dir)).toThrow('Invalid migration filename "posts.sql"');
+  });
+
+  test('every migration in the repo has a down-migration', () => {
+    const missing = loadMigrations().filter(m => !existsSync(join(__dirname, '..', 'sql', 'down', m.file)));
+    expect(missing.map(m => m.file)).toEqual([]);
+  });
+});
+
+describe('checksum', () => {
+  test('ignores CRLF line endings', () => {
+    expect(checksum('SELECT 1;\r\nSELECT 2;\r\n')).toBe(checksum('SELECT 1;\nSELECT 2;\n'));
+    expect(checksum('SELECT 1;')).not.toBe(checksum('SELECT 2;'));
+  });
+});
+
+describe('findDrift', () => {
+  test('reports edited, missing and out-of-order migrations', () => {
+    const migrations = loadMigrations(dir);
+    expect(findDrift(migrations, [
+      { version: '001', name: 'users', checksum: checksum('CREATE TABLE users ();'), appliedAt: new Date() },
+      { version: '002', name: 'posts', checksum: checksum('CREATE TABLE posts ();'), appliedAt: new Date() }
+    ], dir)).toEqual([]);
+
+    expect(findDrift(migrations, [
+      { version: '002', name: 'posts', checksum: 'a'.repeat(64), appliedAt: new Date() },
+      { version: '003', name: 'gone', checksum: 'b'.repeat(64), appliedAt: new Date() }
+    ], dir)).toEqual([
+      `002_posts.sql was modified after it was applied (checksum ${'a'.repeat(12)} -> ${checksum('CREATE TABLE posts ();').slice(0, 12)})`,
+      `003_gone.sql was applied but is missing from ${dir}`,
+      '001_users.sql is pending but older than the latest applied migration; renumber it'
+    ]);
+  });
+});
+
+describe('up', () => {
+  test('applies pending migrations in transactions and records their checksums', async () => {
+    const { client, statements } = fakeClient([{ version: '001', name: 'users', checksum: checksum('CREATE TABLE users ();') }]);
+    await up(client, dir);
+
+    expect(statements).toEqual(['BEGIN', 'CREATE TABLE posts ();', expect.stringContaining('INSERT INTO schema_migrations'), 'COMMIT']);
+    expect(vi.mocked(client.query).mock.calls.find(([sql]) => String(sql).startsWith('INSERT'))?.[1])
+      .toEqual(['002', 'posts', checksum('CREATE TABLE posts ();'), expect.any(Number)]);
+  });
+
+  test('refuses to run when an applied migration was edited', async () => {
+    const { client, statements } = fakeClient([{ version: '001', name: 'users', checksum: checksum('CREATE TABLE people ();') }]);
+    await expect(up(client, dir)).rejects.toThrow(/Schema drift detected:\n {2}- 001_users\.sql was modified after it was applied/);
+    expect(statements).toEqual([]);
+  });
+
+  test('rolls back a failing migration', async () => {
+    const { client, statements } = fakeClient([]);
+    vi.mocked(client.query).mockImplementation(async (sql: any) => {
+      if (sql.includes('SELECT version, name, checksum')) return { rows: [] } as any;
+      if (sql === 'CREATE TABLE posts ();') throw new Error('relation "posts" already exists');
+      statements.push(sql.trim());
+      return { rows: [] } as any;
+    });
+
+    await expect(up(client, dir)).rejects.toThrow('002_posts.sql failed and was rolled back: relation "posts" already exists');
+    expect(statements.slice(-2)).toEqual(['BEGIN', 'ROLLBACK']);
+  });
+});
+
+describe('down', () => {
+  const applied = [
+    { version: '001', name: 'users', checksum: checksum('CREATE TABLE users ();') },
+    { version: '002', name: 'posts', checksum: checksum('CREATE TABLE posts ();') }
+  ];
+
+  test('runs the down-migration and removes the ledger row', async () => {
+    const { client, statements } = fakeClient(applied);
+    await down(client, 1, dir);
+
+    expect(statements).toEqual(['BEGIN', 'DROP TABLE posts;', 'DELETE FROM schema_migrations WHERE version = $1', 'COMMIT']);
+  });
+
+  test('stops at a migration without a down file', async () => {
+    const { client, statements } = fakeClient(applied);
+    await expect(down(client, 2, dir)).rejects.toThrow(`No down-migration for 001_users.sql (expected ${join(dir, 'down', '001_users.sql')})`);
+    expect(statements).toEqual(['BEGIN', 'DROP TABLE posts;', 'DELETE FROM schema_migrations WHERE version = $1', 'COMMIT']);
+  });
+});
+
+describe('baseline', () => {
+  test('records migrations up to the version without running them', async () => {
+    const { client, statements } = fakeClient([]);
+    await baseline(client, '1', dir);
+
+    expect(statements).toEqual(['BEGIN', 'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)', 'COMMIT']);
+    expect(vi.mocked(client.query).mock.calls[2][1]).toEqual(['001', 'users', checksum('CREATE TABLE users ();')]);
+  });
+
+  test('refuses a database that already has a ledger', async () => {
+    const { client } = fakeClient([{ version: '001', name: 'users', checksum: checksum('CREATE TABLE users ();') }]);
+    await expect(baseline(client, '2', dir)).rejects.toThrow('Baseline is only allowed on a database without recorded migrations');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'vitest';
+import {
+  deviceLanguage,
+  isValidLocale,
+  localizeTemplate,
+  preferredLanguage,
+  selectLocale,
+  validateTemplateLocales
+} from '../src/notification-locales.js';
+
+const template = {
+  title: 'Welcome',
+  message: 'You arrived at {{geofence.name}}',
+  locales: {
+    de: { title: 'Willkommen', message: 'Du bist bei {{geofence.name}}' },
+    'pt-BR': { title: 'Bem-vindo', message: '' }
+  }
+};
+
+describe('selectLocale', () => {
+  const available = ['de', 'pt-BR', 'en-US'];
+
+  test('prefers an exact match, ignoring case and underscores', () => {
+    expect(selectLocale('pt_br', available)).toBe('pt-BR');
+    expect(selectLocale('EN-us', available)).toBe('en-US');
+  });
+
+  test('falls back to the base language', () => {
+    expect(selectLocale('de-AT', available)).toBe('de');
+  });
+
+  test('does not widen a base language to a region', () => {
+    expect(selectLocale('en', available)).toBeNull();
+    expect(selectLocale('pt', available)).toBeNull();
+  });
+
+  test('tries the fallback the same way', () => {
+    expect(selectLocale('fr', available, 'de-CH')).toBe('de');
+    expect(selectLocale(null, available, 'de')).toBe('de');
+    expect(selectLocale('fr', available, 'it')).toBeNull();
+  });
+});
+
+describe('localizeTemplate', () => {
+  test('applies the matching variant', () => {
+    expect(localizeTemplate(template, 'de-DE')).toMatchObject({
+      title: 'Willkommen',
+      message: 'Du bist bei {{geofence.name}}',
+      locale: 'de'
+    });
+  });
+
+  test('keeps the default text for empty fields of a variant', () => {
+    expect(localizeTemplate(template, 'pt-BR')).toMatchObject({
+      title: 'Bem-vindo',
+      message: 'You arrived at {{geofence.name}}',
+      locale: 'pt-BR'
+    });
+  });
+
+  test('uses the fallback, then the template itself', () => {
+    expect(localizeTemplate(template, 'fr', 'de').locale).toBe('de');
+    expect(localizeTemplate(template, 'fr', 'it')).toMatchObject({ title: 'Welcome', locale: null });
+    expect(localizeTemplate({ title: 'Welcome', locales: null }, 'de')).toEqual({ title: 'Welcome', locales: null, locale: null });
+  });
+
+  test('ignores fields that are not localizable', () => {
+    const localized = localizeTemplate({ title: 'Welcome', priority: 'low', locales: { de: { priority: 'high' } as any } }, 'de');
+    expect(localized.priority).toBe('low');
+  });
+});
+
+describe('device languages', () => {
+  test('reads language, then locale, from the device metadata', () => {
+    expect(deviceLanguage({ deviceMetadata: { language: 'de-AT', locale: 'en' } })).toBe('de-AT');
+    expect(deviceLanguage({ deviceMetadata: { locale: 'pt_BR' } })).toBe('pt_BR');
+    expect(deviceLanguage({ deviceMetadata: { language: 'not a locale' } })).toBeNull();
+    expect(deviceLanguage({ deviceMetadata: {} })).toBeNull();
+  });
+
+  test('picks the most recently updated device with a language', () => {
+    expect(preferredLanguage([
+      { deviceMetadata: { language: 'fr' }, updatedAt: new Date('2026-01-01') },
+      { deviceMetadata: {}, updatedAt: new Date('2026-03-01') },
+      { deviceMetadata: { language: 'de' }, updatedAt: new Date('2026-02-01') }
+    ])).toBe('de');
+    expect(preferredLanguage([])).toBeNull();
+  });
+});
+
+describe('validateTemplateLocales', () => {
+  test('accepts variants of localizable fields', () => {
+    expect(validateTemplateLocales(template.locales)).toEqual([]);
+    expect(validateTemplateLocales(null)).toEqual([]);
+    expect(isValidLocale('zh-Hant-TW')).toBe(true);
+  });
+
+  test('reports bad codes, fields and values', () => {
+    expect(validateTemplateLocales({ german: { title: 'x' }, de: { priority: 'high', title: 1 }, fr: 'Bonjour' })).toEqual([
+      '"german" is not a locale code such as de or pt-BR',
+      'locales.de.priority is not localizable; use title, message, sms_template, email_template',
+      'locales.de.title must be a string',
+      'locales.fr must be an object'
+    ]);
+    expect(validateTemplateLocales([])).toEqual(['locales must be an object keyed by locale']);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'vitest';
+import {
+  isWithinQuietHours,
+  NotificationPreferencesError,
+  NotificationPreferencesUpdateSchema,
+  startOfLocalDay,
+  updateNotificationPreferences
+} from '../src/notification-preferences.js';
+
+const quiet = (quietHoursStart: string | null, quietHoursEnd: string | null, timezone = 'UTC') =>
+  ({ timezone, quietHoursStart, quietHoursEnd });
+
+describe('isWithinQuietHours', () => {
+  test('checks a range within one day, end exclusive', () => {
+    const preferences = quiet('12:00', '14:00');
+    expect(isWithinQuietHours(preferences, new Date('2026-05-04T11:59:00Z'))).toBe(false);
+    expect(isWithinQuietHours(preferences, new Date('2026-05-04T12:00:00Z'))).toBe(true);
+    expect(isWithinQuietHours(preferences, new Date('2026-05-04T13:59:00Z'))).toBe(true);
+    expect(isWithinQuietHours(preferences, new Date('2026-05-04T14:00:00Z'))).toBe(false);
+  });
+
+  test('wraps a range past midnight', () => {
+    const preferences = quiet('22:00', '07:00');
+    expect(isWithinQuietHours(preferences, new Date('2026-05-04T23:30:00Z'))).toBe(true);
+    expect(isWithinQuietHours(preferences, new Date('2026-05-04T06:59:00Z'))).toBe(true);
+    expect(isWithinQuietHours(preferences, new Date('2026-05-04T07:00:00Z'))).toBe(false);
+    expect(isWithinQuietHours(preferences, new Date('2026-05-04T21:59:00Z'))).toBe(false);
+  });
+
+  test('reads the clock in the user time zone', () => {
+    // 20:30 UTC is 22:30 in Berlin during summer time
+    const at = new Date('2026-07-01T20:30:00Z');
+    expect(isWithinQuietHours(quiet('22:00', '07:00', 'Europe/Berlin'), at)).toBe(true);
+    expect(isWithinQuietHours(quiet('22:00', '07:00'), at)).toBe(false);
+  });
+
+  test('is off without a range or with an empty one', () => {
+    const at = new Date('2026-05-04T12:00:00Z');
+    expect(isWithinQuietHours(quiet(null, null), at)).toBe(false);
+    expect(isWithinQuietHours(quiet('12:00', '12:00'), at)).toBe(false);
+  });
+});
+
+describe('startOfLocalDay', () => {
+  test('returns local midnight as an instant', () => {
+    expect(startOfLocalDay(new Date('2026-05-04T15:45:12.345Z'), 'UTC').toISOString()).toBe('2026-05-04T00:00:00.000Z');
+    expect(startOfLocalDay(new Date('2026-07-01T20:30:00Z'), 'Europe/Berlin').toISOString()).toBe('2026-06-30T22:00:00.000Z');
+    expect(startOfLocalDay(new Date('2026-07-01T02:00:00Z'), 'America/New_York').toISOString()).toBe('2026-06-30T04:00:00.000Z');
+  });
+});
+
+describe('NotificationPreferencesUpdateSchema', () => {
+  test('accepts HH:mm times and IANA time zones', () => {
+    expect(NotificationPreferencesUpdateSchema.safeParse({ timezone: 'Europe/Berlin', quietHoursStart: '22:00', quietHoursEnd: '07:00' }).success).toBe(true);
+    expect(NotificationPreferencesUpdateSchema.safeParse({ quietHoursStart: '24:00' }).success).toBe(false);
+    expect(NotificationPreferencesUpdateSchema.safeParse({ timezone: 'Mars/Olympus' }).success).toBe(false);
+    expect(NotificationPreferencesUpdateSchema.safeParse({ maxDailyNotifications: 0 }).success).toBe(false);
+  });
+});
+
+describe('updateNotificationPreferences', () => {
+  test('requires both ends of the quiet hours', async () => {
+    const db = { query: async () => ({ rows: [] }) } as any;
+    await expect(updateNotificationPreferences(db, 'user-1', { quietHoursStart: '22:00' }))
+      .rejects.toBeInstanceOf(NotificationPreferencesError);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'vitest';
+import { backoffDelayMs, parseConcurrencyLimits } from '../src/notification-queue.js';
+import { poolConfigError } from '../src/db.js';
+
+describe('backoffDelayMs', () => {
+  const noJitter = () => 0.5;
+
+  test('doubles from 30 seconds', () => {
+    expect([1, 2, 3, 4].map(attempts => backoffDelayMs(attempts, noJitter))).toEqual([30000, 60000, 120000, 240000]);
+  });
+
+  test('caps at one hour', () => {
+    expect(backoffDelayMs(8, noJitter)).toBe(60 * 60 * 1000);
+    expect(backoffDelayMs(50, noJitter)).toBe(60 * 60 * 1000);
+  });
+
+  test('treats 0 attempts like the first', () => {
+    expect(backoffDelayMs(0, noJitter)).toBe(30000);
+  });
+
+  test('jitters by up to 20% either way', () => {
+    expect(backoffDelayMs(1, () => 0)).toBe(24000);
+    expect(backoffDelayMs(1, () => 1)).toBe(36000);
+  });
+});
+
+describe('parseConcurrencyLimits', () => {
+  test('parses provider=limit pairs', () => {
+    expect(parseConcurrencyLimits('azure=10, expo = 4')).toEqual({ azure: 10, expo: 4 });
+  });
+
+  test('skips malformed, zero and fractional limits', () => {
+    expect(parseConcurrencyLimits('azure=0,expo=2.5,smtp,=3,sms=abc,webhook=2')).toEqual({ webhook: 2 });
+  });
+
+  test('returns no limits for an unset value', () => {
+    expect(parseConcurrencyLimits(undefined)).toEqual({});
+    expect(parseConcurrencyLimits('')).toEqual({});
+  });
+});
+
+describe('poolConfigError', () => {
+  test('requires DATABASE_URL', () => {
+    expect(poolConfigError({})).toBe('DATABASE_URL is not set');
+  });
+
+  test('accepts the server and Strapi SSL settings', () => {
+    for (const ssl of [undefined, 'require', 'true', 'TRUE', 'false', 'disable']) {
+      expect(poolConfigError({ DATABASE_URL: 'postgres://localhost/glocal', DATABASE_SSL: ssl })).toBeNull();
+    }
+  });
+
+  test('rejects other SSL settings', () => {
+    expect(poolConfigError({ DATABASE_URL: 'postgres://localhost/glocal', DATABASE_SSL: 'yes' })).toMatch(/DATABASE_SSL/);
+  });
+});
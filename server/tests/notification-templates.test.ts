@@ -0,0 +1,161 @@
+import { describe, expect, test } from 'vitest';
+import {
+  TemplateSyntaxError,
+  buildTemplateContext,
+  formatDate,
+  parseTemplate,
+  renderTemplate,
+  validateTemplate
+} from '../src/notification-templates.js';
+
+const context = {
+  event_type: 'enter',
+  distance: 12.345,
+  geofence: { name: 'Main Street Store' },
+  custom_data: { store: '', tags: [] },
+  triggered_at: new Date('2026-03-07T17:05:09Z')
+};
+
+describe('parseTemplate', () => {
+  test('splits text, variables and blocks', () => {
+    expect(parseTemplate('Hi {{geofence.name | upper}}{{#if distance}}!{{/if}}')).toEqual([
+      { type: 'text', value: 'Hi ' },
+      { type: 'var', path: ['geofence', 'name'], filters: [{ name: 'upper' }], position: 3 },
+      {
+        type: 'if',
+        negate: false,
+        condition: { path: ['distance'] },
+        then: [{ type: 'text', value: '!' }],
+        otherwise: [],
+        position: 28
+      }
+    ]);
+  });
+
+  test.each([
+    ['{{geofence.name', 'Unbalanced {{ or }}'],
+    ['{{#if distance}}near', '{{#if}} is not closed'],
+    ['{{#if distance}}{{/unless}}', 'Unexpected {{/unless}}, expected {{/if}}'],
+    ['{{else}}', '{{else}} without an open {{#if}}'],
+    ['{{#each tags}}{{/each}}', 'Unknown block'],
+    ['{{distance | shout}}', 'Unknown filter "shout"'],
+    ['{{distance | upper:1}}', 'Filter "upper" takes no argument'],
+    ['{{distance | default}}', 'Filter "default" needs an argument'],
+    ['{{triggered_at | date:5}}', 'The date format must be a quoted string'],
+    ['{{user..id}}', 'Invalid variable "user..id"']
+  ])('rejects %s', (source, message) => {
+    expect(() => parseTemplate(source)).toThrow(TemplateSyntaxError);
+    expect(() => parseTemplate(source)).toThrow(message);
+  });
+
+  test.each(['round:200', 'round:-1', 'round:1.5', 'round:"2"'])('rejects the precision in %s', filter => {
+    expect(() => parseTemplate(`{{distance | ${filter}}}`)).toThrow('The round precision must be a whole number from 0 to 100');
+  });
+
+  test('reports the position of the offending tag', () => {
+    expect(() => parseTemplate('Hello {{nope | shout}}')).toThrow('(at character 7)');
+  });
+});
+
+describe('validateTemplate', () => {
+  test('accepts known variables', () => {
+    expect(validateTemplate('{{geofence.name}} {{#if custom_data.vip}}VIP{{/if}}')).toEqual([]);
+  });
+
+  test('reports unknown variables, including in conditions', () => {
+    expect(validateTemplate('{{secret}} {{#if password}}x{{/if}}')).toEqual([
+      'Unknown variable "secret" (at character 1)',
+      'Unknown variable "password" (at character 12)'
+    ]);
+  });
+
+  test('reports syntax errors instead of throwing', () => {
+    expect(validateTemplate('{{distance | round:200}}')).toHaveLength(1);
+  });
+});
+
+describe('renderTemplate', () => {
+  test('renders variables and leaves missing ones empty', () => {
+    expect(renderTemplate('Welcome to {{geofence.name}}{{user.name}}', context)).toBe('Welcome to Main Street Store');
+  });
+
+  test('reads only own properties of plain objects and arrays', () => {
+    expect(renderTemplate('{{geofence.name.constructor}}{{geofence.name.length}}', context)).toBe('');
+    expect(renderTemplate('{{custom_data.__proto__}}{{custom_data.constructor.name}}', context)).toBe('');
+    expect(renderTemplate('{{triggered_at.getTime}}{{#if custom_data.toString}}x{{/if}}', context)).toBe('');
+    expect(renderTemplate('{{custom_data.tags.0}}/{{custom_data.tags.length}}', { custom_data: { tags: ['a'] } })).toBe('a/1');
+  });
+
+  test('applies filters left to right', () => {
+    expect(renderTemplate('{{distance | round:1}} m', context)).toBe('12.3 m');
+    expect(renderTemplate('{{distance | round}}', context)).toBe('12');
+    expect(renderTemplate('{{custom_data.store | default:"our store" | capitalize}}', context)).toBe('Our store');
+    expect(renderTemplate('{{geofence.name | lower}}', context)).toBe('main street store');
+  });
+
+  test('branches on conditions', () => {
+    const template = '{{#if event_type == "enter"}}Hi{{else}}Bye{{/if}}{{#unless custom_data.tags}}!{{/unless}}';
+    expect(renderTemplate(template, context)).toBe('Hi!');
+    expect(renderTemplate(template, { ...context, event_type: 'exit', custom_data: { tags: ['a'] } })).toBe('Bye');
+    expect(renderTemplate('{{#if event_type != "exit"}}in{{/if}}', context)).toBe('in');
+  });
+
+  test('formats dates in the render time zone', () => {
+    expect(renderTemplate('{{triggered_at | date:"HH:mm"}}', context)).toBe('17:05');
+    expect(renderTemplate('{{triggered_at | date:"HH:mm"}}', context, { timezone: 'Asia/Tokyo' })).toBe('02:05');
+    expect(renderTemplate('{{triggered_at | date:"HH:mm"}}', { ...context, timezone: 'Europe/Berlin' })).toBe('18:05');
+  });
+
+  test('escapes values but not the template text', () => {
+    const escape = (value: string) => value.replace(/</g, '&lt;');
+    expect(renderTemplate('<b>{{geofence.name}}</b>', { geofence: { name: '<script>' } }, { escape })).toBe('<b>&lt;script></b>');
+  });
+});
+
+describe('formatDate', () => {
+  const date = new Date('2026-03-07T17:05:09Z');
+
+  test('formats every token', () => {
+    expect(formatDate(date, 'yyyy yy MMMM MMM MM M dd d EEEE EEE HH H hh h mm ss a')).toBe(
+      '2026 26 March Mar 03 3 07 7 Saturday Sat 17 17 05 5 05 09 PM'
+    );
+  });
+
+  test('keeps quoted text literally', () => {
+    expect(formatDate(date, "d MMM 'at' h a")).toBe('7 Mar at 5 PM');
+  });
+
+  test('uses the time zone, including the date change', () => {
+    expect(formatDate(date, 'EEE d HH:mm', 'Pacific/Auckland')).toBe('Sun 8 06:05');
+  });
+
+  test('shows midnight as 12 AM', () => {
+    expect(formatDate(new Date('2026-03-07T00:30:00Z'), 'h:mm a')).toBe('12:30 AM');
+  });
+});
+
+describe('buildTemplateContext', () => {
+  test('provides the template variables', () => {
+    const built = buildTemplateContext({
+      id: 42,
+      userId: 'user-1',
+      eventType: 'exit',
+      geofence: { id: 7, name: 'Depot' },
+      latitude: 52.52,
+      longitude: 13.405,
+      distanceMeters: 87.6,
+      triggeredAt: '2026-03-07T17:05:09Z'
+    }, { coupon: 'SAVE10' }, 'Europe/Berlin');
+
+    expect(built).toMatchObject({
+      event_type: 'exit',
+      distance: 88,
+      local_time: '18:05',
+      geofence: { id: 7, name: 'Depot' },
+      user: { id: 'user-1' },
+      hit: { id: 42 },
+      custom_data: { coupon: 'SAVE10' },
+      location: { latitude: 52.52, longitude: 13.405 }
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { deactivateDevice, getDecryptedPushToken, getUserDevices, updateLastUsed } from '../src/deviceRegistrations.js';
+import { deliverPushToUser } from '../src/push-delivery.js';
+import { MockPushSender } from '../src/push-providers.js';
+
+vi.mock('../src/deviceRegistrations.js', () => ({
+  getUserDevices: vi.fn(),
+  getDecryptedPushToken: vi.fn(),
+  deactivateDevice: vi.fn(),
+  updateLastUsed: vi.fn()
+}));
+
+const device = (deviceId: string, overrides: Record<string, unknown> = {}) => ({
+  id: deviceId,
+  deviceId,
+  userId: 'user-1',
+  platform: 'ios',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive: true,
+  deviceMetadata: {},
+  hasPushToken: true,
+  ...overrides
+});
+
+const tokens: Record<string, string | null> = { d1: 'good', d2: 'bad', d3: null };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getDecryptedPushToken).mockImplementation(async deviceId => tokens[deviceId]);
+});
+
+describe('deliverPushToUser', () => {
+  test('records one result per device and maintains the devices', async () => {
+    vi.mocked(getUserDevices).mockResolvedValue([device('d1'), device('d2'), device('d3'), device('d4', { hasPushToken: false })] as any);
+    const sender = new MockPushSender(['bad']);
+
+    const delivery = await deliverPushToUser('user-1', { title: 'Hi', body: 'There' }, sender);
+
+    expect(delivery.sent).toBe(true);
+    expect(delivery.results).toEqual([
+      { deviceId: 'd1', provider: 'mock', success: true, messageId: 'mock-1' },
+      { deviceId: 'd2', provider: 'mock', success: false, error: 'DeviceNotRegistered', invalidToken: true },
+      { deviceId: 'd3', provider: 'mock', success: false, error: 'push token unavailable' }
+    ]);
+    expect(updateLastUsed).toHaveBeenCalledExactlyOnceWith('d1');
+    expect(deactivateDevice).toHaveBeenCalledExactlyOnceWith('d2');
+  });
+
+  test('builds the message per device', async () => {
+    vi.mocked(getUserDevices).mockResolvedValue([device('d1', { deviceMetadata: { language: 'de' } })] as any);
+    const sender = new MockPushSender();
+
+    await deliverPushToUser('user-1', d => ({ title: d.deviceMetadata.language === 'de' ? 'Hallo' : 'Hi', body: '' }), sender);
+    expect(sender.sent[0].message.title).toBe('Hallo');
+  });
+
+  test('reports users without devices', async () => {
+    vi.mocked(getUserDevices).mockResolvedValue([]);
+
+    expect(await deliverPushToUser('user-1', { title: 'Hi', body: '' }, new MockPushSender()))
+      .toEqual({ sent: false, results: [], error: 'no active devices' });
+  });
+});
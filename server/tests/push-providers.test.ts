@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+  AzureNotificationHubSender,
+  ExpoPushSender,
+  MockPushSender,
+  createPushSender,
+  pushConfigError,
+  pushProviderName
+} from '../src/push-providers.js';
+
+const CONNECTION_STRING = 'Endpoint=sb://geo-ns.servicebus.windows.net/;SharedAccessKeyName=DefaultFullSharedAccessSignature;SharedAccessKey=c2VjcmV0';
+const message = { title: 'Welcome', body: 'You arrived', data: { geofence_id: 'g1', count: 2 } };
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  fetchMock = vi.fn();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function lastRequest(): { url: string; init: RequestInit; body: any } {
+  const [url, init] = fetchMock.mock.calls.at(-1)!;
+  return { url, init, body: JSON.parse(init.body) };
+}
+
+describe('AzureNotificationHubSender', () => {
+  const sender = new AzureNotificationHubSender(CONNECTION_STRING, 'geo-hub');
+
+  test('sends an apple payload with a valid SAS token', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 201, headers: { TrackingId: 'track-1' } }));
+
+    const result = await sender.send({ deviceId: 'd1', platform: 'ios', token: 'apns-token' }, message);
+
+    expect(result).toEqual({ deviceId: 'd1', provider: 'azure', success: true, statusCode: 201, messageId: 'track-1' });
+    const { url, init, body } = lastRequest();
+    expect(url).toBe('https://geo-ns.servicebus.windows.net/geo-hub/messages/?api-version=2023-10-01&direct');
+    const headers = init.headers as Record<string, string>;
+    expect(headers['ServiceBusNotification-Format']).toBe('apple');
+    expect(headers['ServiceBusNotification-DeviceHandle']).toBe('apns-token');
+    expect(body).toEqual({ aps: { alert: { title: 'Welcome', body: 'You arrived' }, sound: 'default' }, geofence_id: 'g1', count: 2 });
+
+    const token = Object.fromEntries(headers.Authorization.replace('SharedAccessSignature ', '').split('&').map(part => part.split('=')));
+    const resource = encodeURIComponent('https://geo-ns.servicebus.windows.net/geo-hub').toLowerCase();
+    expect(token.sr).toBe(resource);
+    expect(token.skn).toBe('DefaultFullSharedAccessSignature');
+    const expected = crypto.createHmac('sha256', 'c2VjcmV0').update(`${resource}\n${token.se}`).digest('base64');
+    expect(decodeURIComponent(token.sig)).toBe(expected);
+  });
+
+  test('sends an fcmv1 payload with string data values', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 201 }));
+
+    await sender.send({ deviceId: 'd2', platform: 'android', token: 'fcm-token' }, message);
+
+    const { init, body } = lastRequest();
+    expect((init.headers as Record<string, string>)['ServiceBusNotification-Format']).toBe('fcmv1');
+    expect(body).toEqual({
+      message: { notification: { title: 'Welcome', body: 'You arrived' }, data: { geofence_id: 'g1', count: '2' } }
+    });
+  });
+
+  test('flags gone handles as invalid tokens', async () => {
+    fetchMock.mockResolvedValue(new Response('The device handle is gone', { status: 410 }));
+
+    const result = await sender.send({ deviceId: 'd1', platform: 'ios', token: 'old' }, message);
+    expect(result).toMatchObject({ success: false, statusCode: 410, error: 'The device handle is gone', invalidToken: true });
+  });
+
+  test('reports network errors and skips web push', async () => {
+    fetchMock.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    expect(await sender.send({ deviceId: 'd1', platform: 'ios', token: 't' }, message))
+      .toMatchObject({ success: false, error: 'connect ECONNREFUSED' });
+
+    expect(await sender.send({ deviceId: 'd3', platform: 'web', token: 't' }, message))
+      .toMatchObject({ success: false, error: 'web push is not supported by the Azure sender' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects an incomplete connection string', () => {
+    expect(() => new AzureNotificationHubSender('Endpoint=sb://geo-ns.servicebus.windows.net/', 'geo-hub')).toThrow(/Invalid/);
+  });
+});
+
+describe('ExpoPushSender', () => {
+  test('sends one message and reads the ticket', async () => {
+    fetchMock.mockResolvedValue(Response.json({ data: { status: 'ok', id: 'ticket-1' } }));
+
+    const result = await new ExpoPushSender('expo-secret').send({ deviceId: 'd1', platform: 'ios', token: 'ExponentPushToken[x]' }, message);
+
+    expect(result).toEqual({ deviceId: 'd1', provider: 'expo', success: true, statusCode: 200, messageId: 'ticket-1' });
+    const { url, init, body } = lastRequest();
+    expect(url).toBe('https://exp.host/--/api/v2/push/send');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer expo-secret');
+    expect(body).toEqual({ to: 'ExponentPushToken[x]', title: 'Welcome', body: 'You arrived', data: message.data, sound: 'default' });
+  });
+
+  test('flags unregistered devices', async () => {
+    fetchMock.mockResolvedValue(Response.json({
+      data: [{ status: 'error', message: 'not a registered push token', details: { error: 'DeviceNotRegistered' } }]
+    }));
+
+    const result = await new ExpoPushSender().send({ deviceId: 'd1', platform: 'android', token: 'ExponentPushToken[y]' }, message);
+    expect(result).toMatchObject({ success: false, error: 'not a registered push token', invalidToken: true });
+    expect((lastRequest().init.headers as Record<string, string>).Authorization).toBeUndefined();
+  });
+});
+
+describe('MockPushSender', () => {
+  test('records messages and fails listed tokens', async () => {
+    const sender = new MockPushSender(['bad']);
+    expect(await sender.send({ deviceId: 'd1', platform: 'ios', token: 'good' }, message))
+      .toEqual({ deviceId: 'd1', provider: 'mock', success: true, messageId: 'mock-1' });
+    expect(await sender.send({ deviceId: 'd2', platform: 'ios', token: 'bad' }, message))
+      .toMatchObject({ success: false, invalidToken: true });
+    expect(sender.sent).toEqual([{ target: { deviceId: 'd1', platform: 'ios', token: 'good' }, message }]);
+  });
+});
+
+describe('createPushSender', () => {
+  const azure = { AZURE_NOTIFICATION_HUB_CONNECTION_STRING: CONNECTION_STRING, AZURE_NOTIFICATION_HUB_NAME: 'geo-hub' };
+
+  test('picks the configured provider', () => {
+    expect(createPushSender(azure)).toBeInstanceOf(AzureNotificationHubSender);
+    expect(createPushSender({ PUSH_PROVIDER: 'expo' })).toBeInstanceOf(ExpoPushSender);
+    expect(createPushSender({ PUSH_PROVIDER: 'mock' })).toBeInstanceOf(MockPushSender);
+    expect(createPushSender({ NODE_ENV: 'test' })).toBeInstanceOf(MockPushSender);
+  });
+
+  test('fails without a usable provider', () => {
+    expect(() => createPushSender({})).toThrow(/No push provider configured/);
+    expect(() => createPushSender({ PUSH_PROVIDER: 'azure' })).toThrow(/AZURE_NOTIFICATION_HUB_NAME/);
+    expect(() => createPushSender({ PUSH_PROVIDER: 'pager' })).toThrow(/Unknown PUSH_PROVIDER/);
+  });
+
+  test('names the provider without building a sender', () => {
+    expect(pushProviderName({ PUSH_PROVIDER: 'azure' })).toBe('azure');
+    expect(pushProviderName(azure)).toBe('azure');
+    expect(pushProviderName({})).toBeNull();
+    expect(pushConfigError({ PUSH_PROVIDER: 'azure' })).toMatch(/AZURE_NOTIFICATION_HUB_CONNECTION_STRING/);
+    expect(pushConfigError(azure)).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'vitest';
+import {
+  MemorySmsSender,
+  createSmsSender,
+  normalizePhoneNumber,
+  parseSmsKeyword,
+  smsProviderName,
+  smsSegments,
+  truncateSms
+} from '../src/sms-providers.js';
+
+describe('smsSegments', () => {
+  test('fits 160 GSM-7 characters in one message and 153 per part beyond', () => {
+    expect(smsSegments('a'.repeat(160))).toEqual({ encoding: 'GSM-7', units: 160, segments: 1 });
+    expect(smsSegments('a'.repeat(161))).toEqual({ encoding: 'GSM-7', units: 161, segments: 2 });
+    expect(smsSegments('a'.repeat(307)).segments).toBe(3);
+  });
+
+  test('counts extension characters as two septets', () => {
+    expect(smsSegments('€[]')).toEqual({ encoding: 'GSM-7', units: 6, segments: 1 });
+    expect(smsSegments('€'.repeat(81)).segments).toBe(2);
+  });
+
+  test('switches to UCS-2 for other characters: 70, then 67 per part', () => {
+    expect(smsSegments('ł'.repeat(70))).toEqual({ encoding: 'UCS-2', units: 70, segments: 1 });
+    expect(smsSegments('Hi 👋' + 'a'.repeat(66))).toEqual({ encoding: 'UCS-2', units: 71, segments: 2 });
+  });
+
+  test('counts an empty text as no message', () => {
+    expect(smsSegments('').segments).toBe(0);
+  });
+});
+
+describe('truncateSms', () => {
+  test('leaves texts that fit unchanged', () => {
+    expect(truncateSms('You arrived at the store', 1)).toBe('You arrived at the store');
+  });
+
+  test('ends GSM-7 texts with "..." so they stay GSM-7', () => {
+    const truncated = truncateSms('word '.repeat(100), 1);
+    expect(truncated.endsWith('...')).toBe(true);
+    expect(smsSegments(truncated)).toMatchObject({ encoding: 'GSM-7', segments: 1 });
+  });
+
+  test('ends UCS-2 texts with "…"', () => {
+    const truncated = truncateSms('Zażółć gęślą jaźń '.repeat(20), 2);
+    expect(truncated.endsWith('…')).toBe(true);
+    expect(smsSegments(truncated).segments).toBe(2);
+  });
+
+  test('does not split surrogate pairs', () => {
+    const truncated = truncateSms('👋'.repeat(100), 1);
+    expect(truncated).toBe('👋'.repeat(34) + '…');
+  });
+});
+
+describe('parseSmsKeyword', () => {
+  test('reads the first word, ignoring case and whitespace', () => {
+    expect(parseSmsKeyword('  stop please')).toBe('opt_out');
+    expect(parseSmsKeyword('Unsubscribe')).toBe('opt_out');
+    expect(parseSmsKeyword('START')).toBe('opt_in');
+    expect(parseSmsKeyword('yes\n')).toBe('opt_in');
+  });
+
+  test('ignores keywords later in the message', () => {
+    expect(parseSmsKeyword('please stop')).toBeNull();
+    expect(parseSmsKeyword('')).toBeNull();
+  });
+});
+
+describe('normalizePhoneNumber', () => {
+  test('keeps digits behind a leading +', () => {
+    expect(normalizePhoneNumber('+49 (30) 123-456')).toBe('+4930123456');
+    expect(normalizePhoneNumber('0049 30 123456')).toBe('+4930123456');
+    expect(normalizePhoneNumber('n/a')).toBe('');
+  });
+});
+
+describe('createSmsSender', () => {
+  test('uses the HTTP adapter when SMS_HTTP_URL is set', () => {
+    expect(createSmsSender({ SMS_HTTP_URL: 'https://sms.example.com/messages' }).name).toBe('http');
+  });
+
+  test('uses the memory sender only when asked to', () => {
+    expect(createSmsSender({ SMS_PROVIDER: 'memory' })).toBeInstanceOf(MemorySmsSender);
+    expect(() => createSmsSender({})).toThrow(/No SMS provider configured/);
+  });
+
+  test('rejects unknown providers and http without a URL', () => {
+    expect(() => createSmsSender({ SMS_PROVIDER: 'carrier-pigeon' })).toThrow(/Unknown SMS_PROVIDER/);
+    expect(() => createSmsSender({ SMS_PROVIDER: 'http' })).toThrow(/SMS_HTTP_URL/);
+  });
+});
+
+describe('smsProviderName', () => {
+  test('names the provider without requiring its settings', () => {
+    expect(smsProviderName({ SMS_PROVIDER: 'http' })).toBe('http');
+    expect(smsProviderName({ SMS_HTTP_URL: 'https://sms.example.com/messages' })).toBe('http');
+    expect(smsProviderName({})).toBeNull();
+  });
+});
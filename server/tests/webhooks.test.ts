@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { describe, expect, test } from 'vitest';
+import { WEBHOOK_TOLERANCE_SECONDS, signWebhookPayload, verifyWebhookSignature } from '../src/webhooks.js';
+
+const SECRET = 'whsec-test';
+const BODY = JSON.stringify({ event: 'enter', geofence_id: 7 });
+const TIMESTAMP = 1767225600; // 2026-01-01T00:00:00Z
+const NOW = TIMESTAMP * 1000;
+
+describe('signWebhookPayload', () => {
+  test('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+    const expected = crypto.createHmac('sha256', SECRET).update(`${TIMESTAMP}.${BODY}`).digest('hex');
+    expect(signWebhookPayload(SECRET, TIMESTAMP, BODY)).toBe(`t=${TIMESTAMP},v1=${expected}`);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const header = signWebhookPayload(SECRET, TIMESTAMP, BODY);
+
+  test('accepts its own signature', () => {
+    expect(verifyWebhookSignature(SECRET, header, BODY, NOW)).toBe(true);
+  });
+
+  test('tolerates whitespace between the parts', () => {
+    expect(verifyWebhookSignature(SECRET, header.replace(',', ', '), BODY, NOW)).toBe(true);
+  });
+
+  test('rejects another secret or a changed body', () => {
+    expect(verifyWebhookSignature('other-secret', header, BODY, NOW)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, header, BODY.replace('enter', 'exit'), NOW)).toBe(false);
+  });
+
+  test('rejects timestamps outside the tolerance', () => {
+    const tolerance = WEBHOOK_TOLERANCE_SECONDS * 1000;
+    expect(verifyWebhookSignature(SECRET, header, BODY, NOW + tolerance)).toBe(true);
+    expect(verifyWebhookSignature(SECRET, header, BODY, NOW + tolerance + 1000)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, header, BODY, NOW - tolerance - 1000)).toBe(false);
+  });
+
+  test('rejects a timestamp changed after signing', () => {
+    const replayed = header.replace(`t=${TIMESTAMP}`, `t=${TIMESTAMP + 60}`);
+    expect(verifyWebhookSignature(SECRET, replayed, BODY, NOW)).toBe(false);
+  });
+
+  test('rejects malformed headers', () => {
+    expect(verifyWebhookSignature(SECRET, '', BODY, NOW)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, `t=${TIMESTAMP}`, BODY, NOW)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, `t=soon,v1=${header.split('v1=')[1]}`, BODY, NOW)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, `t=${TIMESTAMP},v1=not-hex`, BODY, NOW)).toBe(false);
+  });
+});
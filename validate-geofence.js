@@ -18,7 +18,7 @@ function validatePlugin() {
     'cms/src/plugins/geolocation/server/cron-tasks.ts',
     'cms/config/plugins.ts',
     'server/src/geofence-service.ts',
-    'server/sql/003_geofence_schema.sql'
+    'server/sql/004_geofence_schema.sql'
   ];
 
   let allValid = true;